@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { projectService } from './services/projectService';
 import { chapterService } from './services/chapterService';
 import { dbService } from './lib/database';
-import type { Project, Chapter } from './types/models';
+import { downloadFile, toFileName } from './lib/download';
+import type { Project, Chapter, SearchHit } from './types/models';
 
 // Import Components
 import TopMenuBar from './components/TopMenuBar';
@@ -12,6 +13,10 @@ import ProjectDetails from './components/ProjectDetails';
 import NewProjectModal from './components/modals/NewProjectModal';
 import EditProjectModal from './components/modals/EditProjectModal';
 import OptionsModal from './components/modals/OptionsModal'; // Import Options Modal
+import SearchModal from './components/modals/SearchModal';
+import ImportProjectsModal from './components/modals/ImportProjectsModal';
+import UnlockApiKeysModal from './components/modals/UnlockApiKeysModal';
+import { isApiKeyVaultSetUp } from './lib/apiKeyVault';
 
 function App() {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -25,6 +30,10 @@ function App() {
   const [showEditProjectModal, setShowEditProjectModal] = useState(false);
   const [projectToEdit, setProjectToEdit] = useState<Project | null>(null); // Store project being edited
   const [showOptionsModal, setShowOptionsModal] = useState(false); // State for Options Modal
+  const [showSearchModal, setShowSearchModal] = useState(false);
+  const [searchFocus, setSearchFocus] = useState<SearchHit | null>(null); // Last search hit the user jumped to
+  const [showUnlockModal, setShowUnlockModal] = useState(isApiKeyVaultSetUp); // Encrypted API keys are unlocked once per session
+  const [importFile, setImportFile] = useState<{ name: string; data: Uint8Array } | null>(null); // .db file being merge-imported
 
 
   // --- Effects ---
@@ -53,6 +62,18 @@ function App() {
     initializeAndFetchProjects();
   }, []);
 
+  // Ctrl+Shift+F opens the search panel from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setShowSearchModal(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // --- Project CRUD Handlers ---
 
   const handleCreateProject = async (name: string, description: string) => {
@@ -179,6 +200,15 @@ function App() {
   const handleCloseProject = () => {
     setCurrentProject(null);
     setChapters([]);
+    setSearchFocus(null);
+  };
+
+  // Opens the hit's project if needed; ProjectDetails then scrolls to the chapter or message
+  const handleSearchHitSelected = async (hit: SearchHit) => {
+    if (currentProject?.id !== hit.projectId) {
+      await handleLoadProject(hit.projectId);
+    }
+    setSearchFocus({ ...hit }); // New object, so picking the same hit again jumps again
   };
 
   // --- File Save/Load Functions (Triggered from TopMenuBar) ---
@@ -190,17 +220,7 @@ function App() {
     try {
       const dbData = await dbService.exportDatabase();
       if (dbData) {
-        const blob = new Blob([dbData], { type: 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        // Sanitize filename
-        const filename = `${currentProject.name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'spell-b00k'}.db`;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadFile(dbData, toFileName(currentProject.name, 'db'), 'application/octet-stream');
         console.log("Project database saved to file.");
       } else {
         setError("Failed to export database.");
@@ -243,10 +263,12 @@ function App() {
         }
       } catch (err) {
         console.error("Error reading or loading file:", err);
-        setError("Failed to load project from file.");
-         // Attempt to re-initialize an empty DB state
+        // Schema errors (e.g. file from a newer version) carry a user-facing message
+        setError(err instanceof Error ? err.message : "Failed to load project from file.");
+         // Fall back to the previously persisted database
          await dbService.initialize();
-         setProjects([]);
+         const projectList = await projectService.listProjects();
+         setProjects(projectList);
       } finally {
         setLoading(false);
         // Clear the file input value so the same file can be selected again
@@ -266,6 +288,82 @@ function App() {
     reader.readAsArrayBuffer(file);
   };
 
+  // Merge-import: read the file and let ImportProjectsModal pick the projects to copy
+  const handleImportFromFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      setImportFile({ name: file.name, data });
+    } catch (err) {
+      console.error("File reading error:", err);
+      setError("Error reading file.");
+    } finally {
+      // Clear the file input value so the same file can be selected again
+      event.target.value = '';
+    }
+  };
+
+  const handleProjectsImported = (importedProjects: Project[]) => {
+    setProjects(prev => [...prev, ...importedProjects].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+    console.log(`Imported ${importedProjects.length} project(s).`);
+  };
+
+  // --- JSON Export/Import (interchange format, one project per file) ---
+
+  const handleExportJson = async () => {
+    if (!currentProject) return;
+    const includeMessages = window.confirm('Include chat messages in the JSON export?');
+    setError(null);
+    try {
+      const exportData = await projectService.exportProjectToJson(currentProject.id, { includeMessages });
+      if (exportData) {
+        downloadFile(JSON.stringify(exportData, null, 2), toFileName(currentProject.name, 'json'), 'application/json');
+        console.log("Project exported to JSON.");
+      } else {
+        setError("Failed to export project to JSON.");
+      }
+    } catch (err) {
+      console.error("Error exporting project to JSON:", err);
+      setError("Failed to export project to JSON.");
+    }
+  };
+
+  const handleImportJson = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        setError("The selected file is not valid JSON.");
+        return;
+      }
+      const messages = (data as { chatMessages?: unknown })?.chatMessages;
+      const includeMessages = Array.isArray(messages) && messages.length > 0
+        ? window.confirm(`This file contains ${messages.length} chat messages. Import them as well?`)
+        : false;
+      // Validation errors carry a user-facing message
+      const importedProject = await projectService.importProjectFromJson(data, { includeMessages });
+      if (importedProject) {
+        handleProjectsImported([importedProject]);
+      } else {
+        setError("Failed to import project from JSON.");
+      }
+    } catch (err) {
+      console.error("Error importing project from JSON:", err);
+      setError(err instanceof Error ? err.message : "Failed to import project from JSON.");
+    } finally {
+      setLoading(false);
+      // Clear the file input value so the same file can be selected again
+      event.target.value = '';
+    }
+  };
+
   // --- Menu Bar Action Triggers ---
   const handleNewProjectClick = () => {
     setShowNewProjectModal(true); // Open the modal
@@ -281,6 +379,10 @@ function App() {
      setShowOptionsModal(true); // Open the Options modal
   };
 
+  const handleSearchClick = () => {
+     setShowSearchModal(true);
+  };
+
 
   // --- Render Logic ---
 
@@ -303,7 +405,11 @@ function App() {
         onLoadProjectClick={() => { /* Handled by hidden input trigger */ }}
         onEditProjectClick={handleEditProjectClick} // Updated handler
         onShowOptionsClick={handleShowOptionsClick} // Updated handler
+        onSearchClick={handleSearchClick}
         onLoadFromFile={handleLoadFromFile}
+        onImportFromFile={handleImportFromFile}
+        onImportJson={handleImportJson}
+        onExportJson={handleExportJson}
       />
 
       <main className="p-8">
@@ -335,6 +441,7 @@ function App() {
             onProjectUpdated={handleProjectParametersUpdated} // For parameter form updates
             onChaptersUpdated={handleChaptersUpdated}
             onCloseProject={handleCloseProject}
+            searchFocus={searchFocus}
             // Add onEditProjectDetails={handleEditProjectClick} ? To allow editing from details view?
           />
         )}
@@ -358,6 +465,23 @@ function App() {
             onClose={() => setShowOptionsModal(false)}
             // Pass save handler if needed, currently saves directly to localStorage
         />
+        <UnlockApiKeysModal
+            isOpen={showUnlockModal}
+            onClose={() => setShowUnlockModal(false)}
+        />
+        <ImportProjectsModal
+            isOpen={importFile !== null}
+            fileData={importFile?.data ?? null}
+            fileName={importFile?.name ?? ''}
+            onClose={() => setImportFile(null)}
+            onImported={handleProjectsImported}
+        />
+        <SearchModal
+            isOpen={showSearchModal}
+            currentProjectId={currentProject?.id ?? null}
+            onClose={() => setShowSearchModal(false)}
+            onSelectHit={handleSearchHitSelected}
+        />
 
       </main>
     </div>
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Unlock, KeyRound, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  changeApiKeyVaultPassphrase,
+  isApiKeyVaultSetUp,
+  isApiKeyVaultUnlocked,
+  lockApiKeyVault,
+  resetApiKeyVault,
+  subscribeApiKeyVault,
+  unlockApiKeyVault,
+} from '../lib/apiKeyVault';
+import { encryptApiKeys, hasUnencryptedApiKeys } from '../lib/settingsService';
+
+// Short passphrases are cheap to guess, however many PBKDF2 rounds are used
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type Mode = 'idle' | 'change';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const buttonClassName = 'px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 flex items-center';
+
+/**
+ * Options section for the passphrase API keys are encrypted with: set it (encrypting keys stored
+ * in plaintext by older versions), unlock and lock the keys for this session, change or reset it.
+ */
+const ApiKeySecuritySection: React.FC = () => {
+  const [isSetUp, setIsSetUp] = useState(isApiKeyVaultSetUp());
+  const [isUnlocked, setIsUnlocked] = useState(isApiKeyVaultUnlocked());
+  const [mode, setMode] = useState<Mode>('idle');
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => subscribeApiKeyVault(() => {
+    setIsSetUp(isApiKeyVaultSetUp());
+    setIsUnlocked(isApiKeyVaultUnlocked());
+  }), []);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setMode('idle');
+  };
+
+  // Checks the new passphrase and its confirmation; returns an error message or null
+  const checkNewPassphrase = (value: string): string | null => {
+    if (value.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    if (value !== confirmation) return 'The passphrases do not match.';
+    return null;
+  };
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const error = await action();
+      setMessage(error ? { text: error, error: true } : null);
+      if (!error) resetForm();
+    } catch (err) {
+      console.error("Error updating API key encryption:", err);
+      setMessage({ text: err instanceof Error ? err.message : 'Something went wrong.', error: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSetUp = () => run(async () => {
+    const error = checkNewPassphrase(newPassphrase);
+    if (error) return error;
+    await encryptApiKeys(newPassphrase);
+    return null;
+  });
+
+  const handleUnlock = () => run(async () => (await unlockApiKeyVault(passphrase) ? null : 'Wrong passphrase.'));
+
+  const handleChange = () => run(async () => {
+    const error = checkNewPassphrase(newPassphrase);
+    if (error) return error;
+    return (await changeApiKeyVaultPassphrase(passphrase, newPassphrase)) ? null : 'The current passphrase is wrong.';
+  });
+
+  const handleReset = () => {
+    if (!window.confirm('Delete all stored API keys? You will have to enter them again and set a new passphrase.')) return;
+    resetApiKeyVault();
+    resetForm();
+    setMessage({ text: 'Stored API keys deleted.', error: false });
+  };
+
+  const newPassphraseFields = (
+    <>
+      <input
+        type="password"
+        value={newPassphrase}
+        onChange={(e) => setNewPassphrase(e.target.value)}
+        className={inputClassName}
+        placeholder="New passphrase"
+        autoComplete="new-password"
+      />
+      <input
+        type="password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        className={inputClassName}
+        placeholder="Repeat passphrase"
+        autoComplete="new-password"
+      />
+    </>
+  );
+
+  return (
+    <div>
+      {!isSetUp ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            API keys are encrypted with a passphrase and never stored in plaintext. Set one to save API keys.
+          </p>
+          {hasUnencryptedApiKeys() && (
+            <p className="text-sm text-amber-700 flex items-start">
+              <AlertTriangle size={16} className="mr-1 mt-0.5 flex-shrink-0" />
+              An API key saved by an older version is stored unencrypted. Setting a passphrase encrypts it.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">{newPassphraseFields}</div>
+          <button type="button" onClick={handleSetUp} disabled={isBusy || !newPassphrase} className={buttonClassName}>
+            {isBusy ? <Loader2 size={14} className="mr-1 animate-spin" /> : <KeyRound size={14} className="mr-1" />} Set Passphrase
+          </button>
+        </div>
+      ) : !isUnlocked ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">API keys are locked. Enter your passphrase to use and edit them in this session.</p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && passphrase) handleUnlock(); }}
+              className={inputClassName}
+              placeholder="Passphrase"
+              autoComplete="current-password"
+            />
+            <button type="button" onClick={handleUnlock} disabled={isBusy || !passphrase} className={buttonClassName}>
+              {isBusy ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Unlock size={14} className="mr-1" />} Unlock
+            </button>
+          </div>
+          <button type="button" onClick={handleReset} className="text-xs text-red-600 hover:underline">
+            Forgot passphrase? Delete stored keys
+          </button>
+        </div>
+      ) : mode === 'change' ? (
+        <div className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClassName}
+            placeholder="Current passphrase"
+            autoComplete="current-password"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">{newPassphraseFields}</div>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleChange} disabled={isBusy || !passphrase || !newPassphrase} className={buttonClassName}>
+              {isBusy ? <Loader2 size={14} className="mr-1 animate-spin" /> : <KeyRound size={14} className="mr-1" />} Change Passphrase
+            </button>
+            <button type="button" onClick={() => { resetForm(); setMessage(null); }} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-green-700 mr-2">API keys are unlocked for this session.</span>
+          <button type="button" onClick={lockApiKeyVault} className={buttonClassName}>
+            <Lock size={14} className="mr-1" /> Lock
+          </button>
+          <button type="button" onClick={() => { setMode('change'); setMessage(null); }} className={buttonClassName}>
+            <KeyRound size={14} className="mr-1" /> Change Passphrase
+          </button>
+        </div>
+      )}
+      {message && <p className={`mt-2 text-sm ${message.error ? 'text-red-600' : 'text-gray-600'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default ApiKeySecuritySection;
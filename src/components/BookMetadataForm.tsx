@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import type { Project, BookMetadata } from '../types/models';
+import { bookMetadataService, COVER_MIME_TYPES, DEFAULT_BOOK_LANGUAGE } from '../services/bookMetadataService';
+import { Image as ImageIcon, Trash2 } from 'lucide-react';
+
+interface BookMetadataFormProps {
+  project: Project;
+}
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2";
+
+const BookMetadataForm: React.FC<BookMetadataFormProps> = ({ project }) => {
+  const [metadata, setMetadata] = useState<BookMetadata>({ language: DEFAULT_BOOK_LANGUAGE });
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  // Load the stored metadata when another project is opened
+  useEffect(() => {
+    let cancelled = false;
+    setSaveError(null);
+    setSaveSuccess(false);
+    bookMetadataService.getMetadata(project.id).then(loaded => {
+      if (!cancelled) setMetadata(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [project.id]);
+
+  // Preview of the cover image; the object URL is released when the image changes
+  useEffect(() => {
+    if (!metadata.coverImage) {
+      setCoverUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([metadata.coverImage], { type: metadata.coverMimeType }));
+    setCoverUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [metadata.coverImage, metadata.coverMimeType]);
+
+  const updateField = (changes: Partial<BookMetadata>) => {
+    setMetadata(prev => ({ ...prev, ...changes }));
+    setSaveSuccess(false);
+  };
+
+  const handleCoverSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    if (!COVER_MIME_TYPES.includes(file.type)) {
+      setSaveError('The cover image must be a JPEG, PNG or GIF file.');
+      return;
+    }
+    setSaveError(null);
+    updateField({ coverImage: new Uint8Array(await file.arrayBuffer()), coverMimeType: file.type });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    setSaveSuccess(false);
+    try {
+      const saved = await bookMetadataService.saveMetadata(project.id, metadata);
+      if (saved) {
+        // Show the values as stored (trimmed, ISBN without hyphens)
+        setMetadata(await bookMetadataService.getMetadata(project.id));
+        setSaveSuccess(true);
+      } else {
+        setSaveError('Failed to save book metadata.');
+      }
+    } catch (error) {
+      console.error('Error saving book metadata:', error);
+      setSaveError(error instanceof Error ? error.message : 'An error occurred while saving book metadata.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded shadow-lg mb-8">
+      <h3 className="text-xl font-semibold mb-1 text-gray-700">Book Metadata</h3>
+      <p className="text-sm text-gray-500 mb-4">Used for the title page and the ebook's catalogue information when exporting.</p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 content-start">
+          <div>
+            <label htmlFor="bookAuthor" className="block text-sm font-medium text-gray-700">Author</label>
+            <input
+              type="text"
+              id="bookAuthor"
+              value={metadata.author ?? ''}
+              onChange={(e) => updateField({ author: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="bookLanguage" className="block text-sm font-medium text-gray-700">Language</label>
+            <input
+              type="text"
+              id="bookLanguage"
+              value={metadata.language}
+              onChange={(e) => updateField({ language: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. en, de, pt-BR"
+            />
+          </div>
+          <div>
+            <label htmlFor="bookPublisher" className="block text-sm font-medium text-gray-700">Publisher</label>
+            <input
+              type="text"
+              id="bookPublisher"
+              value={metadata.publisher ?? ''}
+              onChange={(e) => updateField({ publisher: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="bookIsbn" className="block text-sm font-medium text-gray-700">ISBN</label>
+            <input
+              type="text"
+              id="bookIsbn"
+              value={metadata.isbn ?? ''}
+              onChange={(e) => updateField({ isbn: e.target.value })}
+              className={inputClass}
+              placeholder="Optional, ISBN-10 or ISBN-13"
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700">Cover Image</span>
+          <div className="mt-1 flex items-start space-x-3">
+            {coverUrl ? (
+              <img src={coverUrl} alt="Cover preview" className="w-24 h-36 object-cover border rounded" />
+            ) : (
+              <div className="w-24 h-36 border rounded bg-gray-50 flex items-center justify-center text-gray-400">
+                <ImageIcon size={24} />
+              </div>
+            )}
+            <div className="flex flex-col space-y-2">
+              <label className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                {coverUrl ? 'Replace...' : 'Choose...'}
+                <input type="file" className="hidden" accept={COVER_MIME_TYPES.join(',')} onChange={handleCoverSelected} />
+              </label>
+              {coverUrl && (
+                <button
+                  type="button"
+                  onClick={() => updateField({ coverImage: undefined, coverMimeType: undefined })}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-gray-50"
+                >
+                  <Trash2 size={14} className="mr-1" /> Remove
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">JPEG, PNG or GIF. A 1600 × 2560 pixel image suits most stores.</p>
+        </div>
+      </div>
+
+      <div className="mt-6 flex items-center space-x-4">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Metadata'}
+        </button>
+        {saveSuccess && <span className="text-green-600 text-sm">Metadata saved!</span>}
+        {saveError && <span className="text-red-600 text-sm">{saveError}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default BookMetadataForm;
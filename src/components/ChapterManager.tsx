@@ -1,32 +1,76 @@
-import React, { useState, useRef, DragEvent } from 'react';
-import type { Project, Chapter, EbookParameters } from '../types/models'; // Added EbookParameters
+import React, { useState, useRef, useEffect, DragEvent } from 'react';
+import type { Project, Chapter, EbookParameters, SearchHit, SectionKind, PartialContentAction } from '../types/models'; // Added EbookParameters
 import { chapterService } from '../services/chapterService';
 import { llmService } from '../services/llmService';
-import { GripVertical, Edit3, FileText, Sparkles, Trash2, Loader2 } from 'lucide-react'; // Keep this import
+import { historyService, historyCommands } from '../services/historyService';
+import { GripVertical, Edit3, FileText, Sparkles, Trash2, Loader2, History, FileUp, Square } from 'lucide-react'; // Keep this import
+import ChapterRevisionsModal from './modals/ChapterRevisionsModal';
+import ImportManuscriptModal from './modals/ImportManuscriptModal';
+import { SECTION_KINDS, SECTION_KIND_OPTIONS, SECTION_ZONE_LABELS, isInZoneOrder } from '../lib/sectionKinds';
 
 interface ChapterManagerProps {
   project: Project;
   chapters: Chapter[];
   onChaptersUpdated: (chapters: Chapter[]) => void;
+  searchFocus?: SearchHit | null; // Chapter search hit to scroll to and highlight
 }
 
+// How long a chapter opened from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2000;
+
 const ChapterManager: React.FC<ChapterManagerProps> = ({
   project,
   chapters,
   onChaptersUpdated,
+  searchFocus = null,
 }) => {
   // Existing states...
   const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
   const [generatingChapterId, setGeneratingChapterId] = useState<number | null>(null);
+  const [streamedContent, setStreamedContent] = useState(''); // Text received so far for the chapter being generated
+  const [partialContent, setPartialContent] = useState<{ chapterId: number; content: string } | null>(null); // Text of a stopped generation, awaiting a decision
   const [chapterError, setChapterError] = useState<string | null>(null);
   const [showChapterForm, setShowChapterForm] = useState(false);
   const [editingChapter, setEditingChapter] = useState<Chapter | null>(null);
   const [chapterTitle, setChapterTitle] = useState('');
   const [chapterDescription, setChapterDescription] = useState('');
+  const [chapterKind, setChapterKind] = useState<SectionKind>('chapter');
   const [editingContentChapterId, setEditingContentChapterId] = useState<number | null>(null);
   const [chapterContent, setChapterContent] = useState('');
   const [saveContentError, setSaveContentError] = useState<string | null>(null);
   const [isSavingContent, setIsSavingContent] = useState(false); // State for saving content manually
+  const [historyChapter, setHistoryChapter] = useState<Chapter | null>(null); // Chapter shown in the revision browser
+  const [highlightedChapterId, setHighlightedChapterId] = useState<number | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const handledFocus = useRef<SearchHit | null>(null);
+  const streamedContentRef = useRef<HTMLDivElement | null>(null);
+  const abortController = useRef<AbortController | null>(null); // Stops the running plan or content generation
+
+  // Don't leave a request running for a project that is no longer shown
+  useEffect(() => () => abortController.current?.abort(), [project.id]);
+
+  // Keep the newest streamed text in view
+  useEffect(() => {
+    const element = streamedContentRef.current;
+    if (element) element.scrollTop = element.scrollHeight;
+  }, [streamedContent]);
+
+  // Jump to a chapter selected in search, once it has been rendered
+  useEffect(() => {
+    if (!searchFocus || searchFocus.kind !== 'chapter' || searchFocus.chapterId === null) return;
+    if (handledFocus.current === searchFocus) return;
+    const element = document.getElementById(`chapter-${searchFocus.chapterId}`);
+    if (!element) return;
+    handledFocus.current = searchFocus;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedChapterId(searchFocus.chapterId);
+  }, [searchFocus, chapters]);
+
+  useEffect(() => {
+    if (highlightedChapterId === null) return;
+    const timer = setTimeout(() => setHighlightedChapterId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedChapterId]);
 
   // Drag and Drop State...
   const dragItem = useRef<number | null>(null);
@@ -80,6 +124,13 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     dragItem.current = null;
     dragOverItem.current = null;
 
+    if (!isInZoneOrder(reorderedChapters)) {
+      setChapterError("Sections can only be moved within their group: front matter, chapters or back matter. Change a section's type to move it to another group.");
+      const allItems = e.currentTarget.parentElement?.querySelectorAll('li');
+      allItems?.forEach(item => item.classList.remove('opacity-50', 'bg-blue-100', 'border-t-2', 'border-blue-500'));
+      return;
+    }
+
     const updates = reorderedChapters.map((chapter, index) => ({
       id: chapter.id,
       order: index,
@@ -97,6 +148,7 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
         console.error("Reverted chapter order due to DB update failure.");
       } else {
         console.log("Chapter order saved successfully.");
+        historyService.push(historyCommands.reorderChapters(chapters, reorderedChapters));
       }
     } catch (err) {
       console.error("Error updating chapter order:", err);
@@ -118,7 +170,13 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
   };
 
   // --- Other Functions ---
+  const handleStopGeneration = () => {
+    abortController.current?.abort();
+  };
+
   const handleGeneratePlan = async () => {
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsGeneratingPlan(true);
     setChapterError(null);
 
@@ -127,35 +185,33 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       const planPrompt = await llmService.generateEbookPlanPrompt(project);
 
       console.log(`Processing plan prompt with configured LLM...`);
-      const planResponse = await llmService.processLLMPrompt(planPrompt);
+      const planResponse = await llmService.processLLMPrompt(planPrompt, { task: 'plan', project, signal: controller.signal });
 
       if (planResponse) {
         console.log("Handling plan response...");
         let proceed = true;
-        if (chapters.length > 0) {
-          proceed = window.confirm('Generating a new plan will replace existing chapters. Continue?');
-          if (proceed) {
-            console.log("Deleting existing chapters...");
-            for (const chapter of chapters) {
-              await chapterService.deleteChapter(chapter.id);
-            }
-            console.log("Existing chapters deleted.");
-            onChaptersUpdated([]); // Clear UI immediately
-          }
+        if (chapters.some(chapter => chapter.kind === 'chapter')) {
+          proceed = window.confirm('Generating a new plan will replace existing chapters. Front and back matter are kept. Continue?');
         }
 
         if (proceed) {
+          // Capture the current chapters so the plan replacement can be undone
+          const previousChapters = await chapterService.getChapterSnapshots(project.id);
+          // Existing chapters are replaced in a single transaction, so a failure keeps the old plan
           const success = await llmService.handleEbookPlanResponse(planResponse, project.id);
           if (success) {
             console.log("Ebook plan generated and chapters created.");
-            const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
-            onChaptersUpdated(updatedChapters);
+            const newChapters = await chapterService.getChapterSnapshots(project.id);
+            historyService.push(historyCommands.replaceChapters(project.id, previousChapters, newChapters));
+            onChaptersUpdated(newChapters.map(snapshot => snapshot.chapter));
           } else {
-            setChapterError("Failed to process LLM response or create chapters.");
+            setChapterError("Failed to process LLM response or create chapters. Existing chapters were kept.");
           }
         } else {
           console.log("Plan generation cancelled by user.");
         }
+      } else if (controller.signal.aborted) {
+        console.log("Plan generation stopped by user.");
       } else {
         setChapterError("LLM failed to generate a plan.");
       }
@@ -164,6 +220,7 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       console.error("Error generating ebook plan:", err);
       setChapterError("An error occurred while generating the ebook plan.");
     } finally {
+      abortController.current = null;
       setIsGeneratingPlan(false);
     }
   };
@@ -172,6 +229,7 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     setEditingChapter(null);
     setChapterTitle('');
     setChapterDescription('');
+    setChapterKind('chapter');
     setShowChapterForm(true);
   };
 
@@ -179,6 +237,7 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     setEditingChapter(chapter);
     setChapterTitle(chapter.title);
     setChapterDescription(chapter.description);
+    setChapterKind(chapter.kind);
     setShowChapterForm(true);
   };
 
@@ -198,11 +257,14 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     setChapterError(null);
     try {
       if (editingChapter) {
+        // A new kind moves the section into its zone (front matter, chapters, back matter)
         const updatedChapter = await chapterService.updateChapter(editingChapter.id, {
           title: chapterTitle,
           description: chapterDescription,
+          kind: chapterKind,
         });
         if (updatedChapter) {
+          historyService.push(historyCommands.updateChapter(editingChapter, updatedChapter));
           const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
           onChaptersUpdated(updatedChapters);
         } else {
@@ -212,9 +274,12 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
         const newChapter = await chapterService.createChapter(
           project.id,
           chapterTitle,
-          chapterDescription
+          chapterDescription,
+          undefined,
+          chapterKind
         );
         if (newChapter) {
+          historyService.push(historyCommands.createChapter(newChapter));
           const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
           onChaptersUpdated(updatedChapters);
         } else {
@@ -232,13 +297,16 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     if (window.confirm('Are you sure you want to delete this chapter?')) {
       setChapterError(null);
       try {
+        // Keep a full copy (with revisions and messages) so the delete can be undone
+        const [snapshot] = await chapterService.getChapterSnapshots(project.id, [chapterId]);
+        // deleteChapter renumbers the following chapters in the same transaction
         const success = await chapterService.deleteChapter(chapterId);
         if (success) {
+          if (snapshot) {
+            historyService.push(historyCommands.deleteChapter(snapshot));
+          }
           const remainingChapters = await chapterService.getChaptersByProjectId(project.id);
-          const updates = remainingChapters.map((chapter, index) => ({ id: chapter.id, order: index }));
-          await chapterService.updateChapterOrder(updates);
-          const finalChapters = await chapterService.getChaptersByProjectId(project.id);
-          onChaptersUpdated(finalChapters);
+          onChaptersUpdated(remainingChapters);
         } else {
           setChapterError("Failed to delete chapter.");
         }
@@ -251,6 +319,7 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
 
   const handleGenerateContent = async (chapterId: number) => {
     setGeneratingChapterId(chapterId);
+    setStreamedContent('');
     setChapterError(null);
 
     try {
@@ -277,7 +346,18 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       );
 
       console.log(`Processing content prompt with configured LLM...`);
-      const contentResponse = await llmService.processLLMPrompt(contentPrompt);
+      const controller = new AbortController();
+      abortController.current = controller;
+      let received = '';
+      const contentResponse = await llmService.processLLMPrompt(contentPrompt, {
+        task: 'chapter',
+        project,
+        onToken: token => {
+          received += token;
+          setStreamedContent(previous => previous + token);
+        },
+        signal: controller.signal,
+      });
 
       if (contentResponse) {
         console.log("Handling chapter content response...");
@@ -285,10 +365,20 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
         if (success) {
           console.log(`Content generated and saved for chapter ${chapterId}.`);
           const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
+          const generatedChapter = updatedChapters.find(c => c.id === chapterId);
+          if (generatedChapter) {
+            historyService.push(historyCommands.updateChapter(
+              chapterToGenerate, generatedChapter, `Generate content for "${generatedChapter.title}"`
+            ));
+          }
           onChaptersUpdated(updatedChapters);
         } else {
           setChapterError("Failed to process LLM response or save chapter content.");
         }
+      } else if (controller.signal.aborted) {
+        console.log(`Content generation stopped for chapter ${chapterId}.`);
+        // Let the user decide what happens to the text written so far
+        if (received.trim()) setPartialContent({ chapterId, content: received });
       } else {
         setChapterError("LLM failed to generate chapter content.");
       }
@@ -297,7 +387,32 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       console.error(`Error generating content for chapter ${chapterId}:`, err);
       setChapterError("An error occurred while generating chapter content.");
     } finally {
+      abortController.current = null;
       setGeneratingChapterId(null);
+      setStreamedContent('');
+    }
+  };
+
+  const handlePartialContent = async (action: PartialContentAction) => {
+    if (!partialContent) return;
+    const { chapterId, content } = partialContent;
+    const chapterBefore = chapters.find(c => c.id === chapterId);
+    setChapterError(null);
+    const success = await llmService.handlePartialChapterContent(content, chapterId, action);
+    if (!success) {
+      setChapterError(action === 'keep' ? "Failed to save the partial chapter content." : "Failed to save the draft.");
+      return;
+    }
+    setPartialContent(null);
+    if (action === 'keep') {
+      const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
+      const keptChapter = updatedChapters.find(c => c.id === chapterId);
+      if (chapterBefore && keptChapter) {
+        historyService.push(historyCommands.updateChapter(
+          chapterBefore, keptChapter, `Keep partial content for "${keptChapter.title}"`
+        ));
+      }
+      onChaptersUpdated(updatedChapters);
     }
   };
 
@@ -313,6 +428,12 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     try {
       const updatedChapter = await chapterService.updateChapter(chapterId, { content: chapterContent });
       if (updatedChapter) {
+        const previousChapter = chapters.find(c => c.id === updatedChapter.id);
+        if (previousChapter) {
+          historyService.push(historyCommands.updateChapter(
+            previousChapter, updatedChapter, `Edit content of "${updatedChapter.title}"`
+          ));
+        }
         const updatedChapters = chapters.map(c => c.id === updatedChapter.id ? updatedChapter : c);
         onChaptersUpdated(updatedChapters);
         setEditingContentChapterId(null);
@@ -334,6 +455,32 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
     setSaveContentError(null);
   };
 
+  const handleRevisionRestored = (restoredChapter: Chapter) => {
+    const previousChapter = chapters.find(c => c.id === restoredChapter.id);
+    if (previousChapter) {
+      historyService.push(historyCommands.updateChapter(
+        previousChapter, restoredChapter, `Restore revision of "${restoredChapter.title}"`
+      ));
+    }
+    onChaptersUpdated(chapters.map(c => c.id === restoredChapter.id ? restoredChapter : c));
+    // Keep an open content editor in sync with the restored text
+    if (editingContentChapterId === restoredChapter.id) {
+      setChapterContent(restoredChapter.content || '');
+    }
+  };
+
+  const handleManuscriptImported = async () => {
+    const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
+    onChaptersUpdated(updatedChapters);
+  };
+
+  // Body chapters are numbered on their own; front and back matter are labelled with their kind
+  let chapterNumber = 0;
+  const sectionLabels = chapters.map(chapter =>
+    chapter.kind === 'chapter' ? `Chapter ${++chapterNumber}` : SECTION_KINDS[chapter.kind].label
+  );
+  const showZones = chapters.some(chapter => chapter.kind !== 'chapter');
+
   return (
     <div className="mt-8">
       <h3 className="text-xl font-semibold mb-4 text-gray-700">Chapters</h3>
@@ -346,11 +493,33 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       >
         + Add Chapter Manually
       </button>
+      <button
+        onClick={() => setShowImportModal(true)}
+        disabled={isGeneratingPlan || generatingChapterId !== null}
+        className="mb-4 ml-2 inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <FileUp size={16} className="mr-2" /> Import Manuscript...
+      </button>
 
       {/* Add/Edit Chapter Form */}
       {showChapterForm && (
         <form onSubmit={handleSaveChapter} className="mb-6 p-4 border rounded bg-gray-50">
           <h4 className="text-lg font-medium mb-3">{editingChapter ? 'Edit Chapter' : 'Add New Chapter'}</h4>
+          <div className="mb-4">
+            <label htmlFor="chapterKind" className="block text-sm font-medium text-gray-700">Type</label>
+            <select
+              id="chapterKind"
+              value={chapterKind}
+              onChange={(e) => setChapterKind(e.target.value as SectionKind)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2"
+            >
+              {SECTION_KIND_OPTIONS.map(kind => (
+                <option key={kind} value={kind}>
+                  {SECTION_KINDS[kind].label} ({SECTION_ZONE_LABELS[SECTION_KINDS[kind].zone].toLowerCase()})
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="mb-4">
             <label htmlFor="chapterTitle" className="block text-sm font-medium text-gray-700">Title</label>
             <input
@@ -398,119 +567,184 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
       ) : (
         <ul className="border rounded divide-y divide-gray-200">
           {chapters.map((chapter, index) => (
-            <li
-              key={chapter.id}
-              className={`py-3 px-4 flex items-center group hover:bg-gray-50 transition-colors duration-150 ${
-                editingContentChapterId === chapter.id ? 'flex-wrap' : ''
-              }`}
-              draggable={editingContentChapterId === null}
-              onDragStart={(e) => handleDragStart(e, index)}
-              onDragEnter={(e) => handleDragEnter(e, index)}
-              onDragLeave={handleDragLeave}
-              onDragOver={handleDragOver}
-              onDrop={handleDrop}
-              onDragEnd={handleDragEnd}
-              title={editingContentChapterId === null ? "Drag to reorder chapters" : ""}
-            >
-              {/* Drag Handle */}
-              {editingContentChapterId === null && (
-                <span className="cursor-move text-gray-400 mr-3 group-hover:text-gray-600">
-                  <GripVertical size={20} />
-                </span>
+            <React.Fragment key={chapter.id}>
+              {showZones && (index === 0 || SECTION_KINDS[chapters[index - 1].kind].zone !== SECTION_KINDS[chapter.kind].zone) && (
+                <li className="py-1 px-4 bg-gray-100 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  {SECTION_ZONE_LABELS[SECTION_KINDS[chapter.kind].zone]}
+                </li>
               )}
+              <li
+                id={`chapter-${chapter.id}`}
+                className={`py-3 px-4 flex items-center group hover:bg-gray-50 transition-colors duration-150 ${
+                  editingContentChapterId === chapter.id || generatingChapterId === chapter.id || partialContent?.chapterId === chapter.id ? 'flex-wrap' : ''
+                } ${highlightedChapterId === chapter.id ? 'bg-yellow-100' : ''}`}
+                draggable={editingContentChapterId === null}
+                onDragStart={(e) => handleDragStart(e, index)}
+                onDragEnter={(e) => handleDragEnter(e, index)}
+                onDragLeave={handleDragLeave}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+                title={editingContentChapterId === null ? "Drag to reorder chapters" : ""}
+              >
+                {/* Drag Handle */}
+                {editingContentChapterId === null && (
+                  <span className="cursor-move text-gray-400 mr-3 group-hover:text-gray-600">
+                    <GripVertical size={20} />
+                  </span>
+                )}
 
-              {/* Chapter Info */}
-              <div className="flex-grow min-w-0">
-                <p className="font-medium text-gray-900 truncate">
-                  Chapter {chapter.order + 1}: {chapter.title}
-                </p>
-                <p className="text-sm text-gray-600 truncate">{chapter.description}</p>
-              </div>
-
-              {/* Action Buttons */}
-              <div className="flex-shrink-0 flex items-center space-x-1 ml-4">
-                <button
-                  onClick={() => handleShowEditChapterForm(chapter)}
-                  disabled={isGeneratingPlan || generatingChapterId !== null}
-                  className="p-1 text-gray-500 hover:text-yellow-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
-                  title="Edit Title/Description"
-                >
-                  <Edit3 size={16} />
-                </button>
-                {chapter.content ? (
-                  <button
-                    onClick={() => handleShowEditContent(chapter)}
-                    disabled={isGeneratingPlan || generatingChapterId !== null}
-                    className="p-1 text-gray-500 hover:text-blue-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
-                    title="Edit Content"
-                  >
-                    <FileText size={16} />
-                  </button>
-                ) : (
+                {/* Chapter Info */}
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {sectionLabels[index]}: {chapter.title}
+                  </p>
+                  <p className="text-sm text-gray-600 truncate">{chapter.description}</p>
+                </div>
+
+                {/* Action Buttons */}
+                <div className="flex-shrink-0 flex items-center space-x-1 ml-4">
                   <button
-                    onClick={() => handleGenerateContent(chapter.id)}
+                    onClick={() => handleShowEditChapterForm(chapter)}
                     disabled={isGeneratingPlan || generatingChapterId !== null}
-                    className="p-1 text-gray-500 hover:text-green-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Generate Content (LLM)"
+                    className="p-1 text-gray-500 hover:text-yellow-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
+                    title="Edit Title/Description"
                   >
-                    {generatingChapterId === chapter.id ? (
-                      <Loader2 size={16} className="animate-spin text-green-600" />
-                    ) : (
-                      <Sparkles size={16} />
-                    )}
+                    <Edit3 size={16} />
                   </button>
-                )}
-                <button
-                  onClick={() => handleDeleteChapter(chapter.id)}
-                  disabled={isGeneratingPlan || generatingChapterId !== null}
-                  className="p-1 text-gray-500 hover:text-red-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
-                  title="Delete Chapter"
-                >
-                  <Trash2 size={16} />
-                </button>
-              </div>
-
-              {/* Content Editor */}
-              {editingContentChapterId === chapter.id && (
-                <div className="mt-4 p-4 border rounded bg-gray-100 w-full">
-                  <h4 className="text-lg font-medium mb-3">Edit Chapter Content</h4>
-                  <textarea
-                    value={chapterContent}
-                    onChange={(e) => setChapterContent(e.target.value)}
-                    rows={10}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2"
-                    disabled={isSavingContent}
-                  ></textarea>
-                  <div className="mt-4 flex space-x-4 items-center">
+                  {chapter.content ? (
                     <button
-                      onClick={() => handleSaveContent(chapter.id)}
-                      disabled={isSavingContent}
-                      className="inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => handleShowEditContent(chapter)}
+                      disabled={isGeneratingPlan || generatingChapterId !== null}
+                      className="p-1 text-gray-500 hover:text-blue-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
+                      title="Edit Content"
                     >
-                      {isSavingContent ? <Loader2 size={16} className="animate-spin mr-2" /> : null}
-                      {isSavingContent ? 'Saving...' : 'Save Content'}
+                      <FileText size={16} />
                     </button>
+                  ) : (
                     <button
-                      type="button"
-                      onClick={handleCancelEditContent}
-                      disabled={isSavingContent}
-                      className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                      onClick={() => handleGenerateContent(chapter.id)}
+                      disabled={isGeneratingPlan || generatingChapterId !== null}
+                      className="p-1 text-gray-500 hover:text-green-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Generate Content (LLM)"
                     >
-                      Cancel
+                      {generatingChapterId === chapter.id ? (
+                        <Loader2 size={16} className="animate-spin text-green-600" />
+                      ) : (
+                        <Sparkles size={16} />
+                      )}
                     </button>
-                    {saveContentError && <span className="text-red-600 text-sm">{saveContentError}</span>}
-                  </div>
+                  )}
+                  <button
+                    onClick={() => setHistoryChapter(chapter)}
+                    disabled={isGeneratingPlan || generatingChapterId !== null}
+                    className="p-1 text-gray-500 hover:text-purple-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
+                    title="Revision History"
+                  >
+                    <History size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteChapter(chapter.id)}
+                    disabled={isGeneratingPlan || generatingChapterId !== null}
+                    className="p-1 text-gray-500 hover:text-red-600 focus:outline-none rounded-full hover:bg-gray-100 disabled:opacity-50"
+                    title="Delete Chapter"
+                  >
+                    <Trash2 size={16} />
+                  </button>
                 </div>
-              )}
 
-              {/* Content Preview */}
-              {chapter.content && editingContentChapterId !== chapter.id && (
-                <div className="mt-2 p-2 bg-gray-50 rounded text-sm text-gray-800 max-h-40 overflow-y-auto w-full">
-                  <h5 className="font-semibold mb-1">Content Preview:</h5>
-                  <p className="whitespace-pre-wrap">{chapter.content.substring(0, 300)}...</p>
-                </div>
-              )}
-            </li>
+                {/* Content Editor */}
+                {editingContentChapterId === chapter.id && (
+                  <div className="mt-4 p-4 border rounded bg-gray-100 w-full">
+                    <h4 className="text-lg font-medium mb-3">Edit Chapter Content</h4>
+                    <textarea
+                      value={chapterContent}
+                      onChange={(e) => setChapterContent(e.target.value)}
+                      rows={10}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2"
+                      disabled={isSavingContent}
+                    ></textarea>
+                    <div className="mt-4 flex space-x-4 items-center">
+                      <button
+                        onClick={() => handleSaveContent(chapter.id)}
+                        disabled={isSavingContent}
+                        className="inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSavingContent ? <Loader2 size={16} className="animate-spin mr-2" /> : null}
+                        {isSavingContent ? 'Saving...' : 'Save Content'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleCancelEditContent}
+                        disabled={isSavingContent}
+                        className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      {saveContentError && <span className="text-red-600 text-sm">{saveContentError}</span>}
+                    </div>
+                  </div>
+                )}
+
+                {/* Live Output */}
+                {generatingChapterId === chapter.id && (
+                  <div
+                    ref={streamedContentRef}
+                    className="mt-2 p-2 bg-green-50 rounded text-sm text-gray-800 max-h-60 overflow-y-auto w-full"
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <h5 className="font-semibold">Generating...</h5>
+                      <button
+                        onClick={handleStopGeneration}
+                        className="inline-flex items-center px-2 py-1 border border-red-300 rounded text-xs font-medium text-red-700 bg-white hover:bg-red-50"
+                        title="Stop Generation"
+                      >
+                        <Square size={12} className="mr-1" /> Stop
+                      </button>
+                    </div>
+                    <p className="whitespace-pre-wrap">{streamedContent || 'Waiting for the first words...'}</p>
+                  </div>
+                )}
+
+                {/* Stopped Generation */}
+                {partialContent?.chapterId === chapter.id && (
+                  <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-gray-800 w-full">
+                    <h5 className="font-semibold mb-1">Generation stopped</h5>
+                    <p className="whitespace-pre-wrap max-h-40 overflow-y-auto mb-2">{partialContent.content}</p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handlePartialContent('keep')}
+                        className="px-2 py-1 rounded text-xs font-medium text-white bg-blue-600 hover:bg-blue-700"
+                        title="Use the partial text as the chapter content"
+                      >
+                        Keep
+                      </button>
+                      <button
+                        onClick={() => handlePartialContent('draft')}
+                        className="px-2 py-1 border border-gray-300 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        title="Store the partial text in the revision history without changing the chapter"
+                      >
+                        Save as Draft
+                      </button>
+                      <button
+                        onClick={() => handlePartialContent('discard')}
+                        className="px-2 py-1 border border-gray-300 rounded text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Content Preview */}
+                {chapter.content && editingContentChapterId !== chapter.id && (
+                  <div className="mt-2 p-2 bg-gray-50 rounded text-sm text-gray-800 max-h-40 overflow-y-auto w-full">
+                    <h5 className="font-semibold mb-1">Content Preview:</h5>
+                    <p className="whitespace-pre-wrap">{chapter.content.substring(0, 300)}...</p>
+                  </div>
+                )}
+              </li>
+            </React.Fragment>
           ))}
         </ul>
       )}
@@ -523,6 +757,27 @@ const ChapterManager: React.FC<ChapterManagerProps> = ({
         {isGeneratingPlan ? <Loader2 size={16} className="animate-spin mr-2" /> : null}
         {isGeneratingPlan ? 'Generating Plan...' : 'Generate Ebook Plan (LLM)'}
       </button>
+      {isGeneratingPlan && (
+        <button
+          onClick={handleStopGeneration}
+          className="mt-4 ml-2 inline-flex items-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+        >
+          <Square size={14} className="mr-2" /> Stop
+        </button>
+      )}
+
+      <ChapterRevisionsModal
+        isOpen={historyChapter !== null}
+        chapter={historyChapter}
+        onClose={() => setHistoryChapter(null)}
+        onRestored={handleRevisionRestored}
+      />
+      <ImportManuscriptModal
+        isOpen={showImportModal}
+        project={project}
+        onClose={() => setShowImportModal(false)}
+        onImported={handleManuscriptImported}
+      />
     </div>
   );
 };
@@ -1,23 +1,40 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Project, ChatMessage } from '../types/models';
+import type { Project, ChatMessage, SearchHit } from '../types/models';
 import { chatService } from '../services/chatService';
 import { llmService } from '../services/llmService';
-import { Send, RefreshCw } from 'lucide-react'; // Added RefreshCw just in case, Send is used
+import { Send, RefreshCw, Square } from 'lucide-react'; // Added RefreshCw just in case, Send is used
 
 interface ChatInterfaceProps {
   project: Project;
+  searchFocus?: SearchHit | null; // Message search hit to scroll to and highlight
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
+// How long a message opened from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2000;
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ project, searchFocus = null }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [streamedReply, setStreamedReply] = useState(''); // Assistant reply received so far
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const handledFocus = useRef<SearchHit | null>(null);
+  const isFocusPending = useRef(false); // A search hit is waiting for the chat history to load
+  const abortController = useRef<AbortController | null>(null); // Stops the reply being written
+  const shownProjectId = useRef(project.id); // Replies that arrive for another project are not shown
+
+  // Don't leave a reply being written for a project that is no longer shown
+  useEffect(() => {
+    shownProjectId.current = project.id;
+    return () => abortController.current?.abort();
+  }, [project.id]);
 
   useEffect(() => {
     const fetchMessages = async () => {
       setIsLoading(true);
+      setStreamedReply('');
       setError(null);
       try {
         const fetchedMessages = await chatService.getMessages(project.id);
@@ -33,8 +50,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
   }, [project.id]);
 
   useEffect(() => {
+    // Don't scroll away from a message that is about to be opened from search
+    if (isFocusPending.current) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamedReply]);
+
+  // Jump to a message selected in search, once the history containing it has loaded
+  useEffect(() => {
+    if (!searchFocus || searchFocus.kind !== 'message' || searchFocus.messageId === null) return;
+    if (handledFocus.current === searchFocus) return;
+    const element = document.getElementById(`message-${searchFocus.messageId}`);
+    if (!element) {
+      // Keep waiting while the history is still empty; give up if it loaded without the message
+      isFocusPending.current = messages.length === 0;
+      if (messages.length > 0) handledFocus.current = searchFocus;
+      return;
+    }
+    isFocusPending.current = false;
+    handledFocus.current = searchFocus;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(searchFocus.messageId);
+  }, [searchFocus, messages]);
+
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   const handleSendMessage = async (e?: React.FormEvent) => {
     e?.preventDefault();
@@ -42,6 +84,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
 
     const userMessageContent = newMessage;
     const currentUserMessages = [...messages];
+    const projectId = project.id;
+    const isShown = () => shownProjectId.current === projectId;
 
     const optimisticUserMessage: ChatMessage = {
       id: Date.now(),
@@ -53,12 +97,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
     setMessages(prev => [...prev, optimisticUserMessage]);
     setNewMessage('');
     setIsLoading(true);
+    setStreamedReply('');
     setError(null);
 
     try {
       const addedUserMessage = await chatService.addMessage(
-        project.id, 'user', userMessageContent
+        projectId, 'user', userMessageContent
       );
+      if (!isShown()) return;
 
       if (!addedUserMessage) {
          setError("Failed to send your message. Please try again.");
@@ -70,15 +116,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
       const messagesForLlm = [...currentUserMessages, addedUserMessage];
 
       console.log("Getting LLM chat response...");
-      const llmResponseContent = await llmService.getChatResponse(
-          project.id,
-          messagesForLlm
+      const controller = new AbortController();
+      abortController.current = controller;
+      let received = '';
+      const streamedResponse = await llmService.getChatResponse(
+          projectId,
+          messagesForLlm,
+          {
+            onToken: token => {
+              received += token;
+              if (isShown()) setStreamedReply(previous => previous + token);
+            },
+            signal: controller.signal,
+          }
       );
+      // A stopped reply keeps the text written so far
+      const llmResponseContent = streamedResponse ?? (controller.signal.aborted && received.trim() ? received : null);
 
       if (llmResponseContent) {
+         // Saved with the project it was asked in, even if another project is shown by now
          const addedAssistantMessage = await chatService.addMessage(
-             project.id, 'assistant', llmResponseContent
+             projectId, 'assistant', llmResponseContent
          );
+         if (!isShown()) return;
          if (addedAssistantMessage) {
             // Replace optimistic user message with the real one if needed,
             // then add assistant message. For simplicity, just add assistant message.
@@ -94,6 +154,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
          } else {
              setError("LLM responded, but failed to save the response.");
          }
+      } else if (!isShown()) {
+         return;
+      } else if (controller.signal.aborted) {
+         // Stopped before any text arrived; the user's message was saved
+         setMessages([...currentUserMessages, addedUserMessage]);
       } else {
          setError("The assistant failed to respond. Please try again.");
          // Revert optimistic user message on LLM failure
@@ -102,10 +167,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
 
     } catch (err) {
       console.error('Error sending message or getting LLM response:', err);
+      if (!isShown()) return;
       setError('An error occurred during the chat interaction.');
       setMessages(currentUserMessages); // Revert on general error
     } finally {
-      setIsLoading(false);
+      // The chat of another project manages its own state
+      if (isShown()) {
+        abortController.current = null;
+        setIsLoading(false);
+        setStreamedReply('');
+      }
     }
   };
 
@@ -122,11 +193,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
         {messages.map((msg) => (
           <div
             key={msg.id}
+            id={`message-${msg.id}`}
             className={`p-2 rounded max-w-[80%] shadow ${ // Added shadow
               msg.role === 'user'
                 ? 'bg-blue-200/80 self-end backdrop-blur-sm' // Added transparency + blur
                 : 'bg-yellow-100/80 self-start backdrop-blur-sm' // Changed assistant bg + added transparency/blur
-            }`}
+            } ${highlightedMessageId === msg.id ? 'ring-2 ring-yellow-400' : ''}`}
           >
             <span className="font-bold capitalize text-sm text-gray-800">{msg.role}</span>
             <p className="text-sm text-black">{msg.content}</p> {/* Ensure text is readable */}
@@ -135,12 +207,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
             </span>
           </div>
         ))}
-        {isLoading && messages.length > 0 && (
+        {isLoading && messages.length > 0 && (streamedReply ? (
+            <div className="p-2 rounded max-w-[80%] bg-yellow-100/80 self-start shadow backdrop-blur-sm">
+                 <span className="font-bold capitalize text-sm text-gray-800">Assistant</span>
+                 <p className="text-sm text-black">{streamedReply}</p>
+            </div>
+        ) : (
             <div className="p-2 rounded max-w-[80%] bg-gray-200/80 self-start animate-pulse shadow backdrop-blur-sm">
                  <span className="font-bold capitalize text-sm text-gray-800">Assistant</span>
                  <p className="text-sm text-gray-500">thinking...</p>
             </div>
-        )}
+        ))}
         <div ref={messagesEndRef} />
       </div>
       <form onSubmit={handleSendMessage} className="flex space-x-2">
@@ -152,6 +229,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
           className="flex-grow block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2"
           disabled={isLoading}
         />
+        {isLoading && messages.length > 0 ? (
+        <button
+          type="button"
+          onClick={() => abortController.current?.abort()}
+          className="inline-flex items-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md shadow-sm text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+        >
+          <Square size={16} className="mr-1" /> Stop
+        </button>
+        ) : (
         <button
           type="submit"
           disabled={isLoading || !newMessage.trim()}
@@ -159,6 +245,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ project }) => {
         >
           <Send size={18} className="mr-1" /> Send
         </button>
+        )}
       </form>
     </div>
   );
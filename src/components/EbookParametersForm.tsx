@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import type { Project, EbookParameters } from '../types/models';
+import type { Project, EbookParameters, TaskGenerationParameters } from '../types/models';
 import { projectService } from '../services/projectService';
+import { historyService, historyCommands } from '../services/historyService';
+import { loadLlmSettings } from '../lib/settingsService';
+import { normalizeTaskGenerationParameters } from '../lib/generationParameters';
+import GenerationParametersEditor from './GenerationParametersEditor';
 
 interface EbookParametersFormProps {
   project: Project;
@@ -23,7 +27,8 @@ const EbookParametersForm: React.FC<EbookParametersFormProps> = ({ project, onPa
   // New state for added parameters
   const [continueNarrative, setContinueNarrative] = useState(initialParameters.continueNarrative || false);
   const [narrativeHooks, setNarrativeHooks] = useState(initialParameters.narrativeHooks || '');
-
+  const [generation, setGeneration] = useState<TaskGenerationParameters>(initialParameters.generation || {});
+  const [showGeneration, setShowGeneration] = useState(false);
 
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -42,6 +47,7 @@ const EbookParametersForm: React.FC<EbookParametersFormProps> = ({ project, onPa
     // Reset new parameters
     setContinueNarrative(params.continueNarrative || false);
     setNarrativeHooks(params.narrativeHooks || '');
+    setGeneration(params.generation || {});
     setSaveSuccess(false); // Reset success message on project change
   }, [project]);
 
@@ -61,6 +67,7 @@ const EbookParametersForm: React.FC<EbookParametersFormProps> = ({ project, onPa
       // Add new parameters
       continueNarrative: continueNarrative,
       narrativeHooks: narrativeHooks.trim() || undefined,
+      generation: Object.keys(generation).length > 0 ? normalizeTaskGenerationParameters(generation) : undefined,
     };
 
     try {
@@ -73,6 +80,8 @@ const EbookParametersForm: React.FC<EbookParametersFormProps> = ({ project, onPa
       });
 
       if (updatedProject) {
+        const previousParameters: EbookParameters = project.parameters ? JSON.parse(project.parameters) : {};
+        historyService.push(historyCommands.updateParameters(project.id, previousParameters, updatedParameters));
         onParametersUpdated(updatedProject); // Notify parent component
         setSaveSuccess(true);
         // The useEffect above will update local state based on updatedProject prop
@@ -194,6 +203,26 @@ const EbookParametersForm: React.FC<EbookParametersFormProps> = ({ project, onPa
             placeholder="Any specific details, keywords, or constraints for the LLM..."
           ></textarea>
         </div>
+
+        <div className="md:col-span-2 border-t pt-4">
+          <button
+            type="button"
+            onClick={() => setShowGeneration(prev => !prev)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            {showGeneration ? 'Hide' : 'Show'} Generation Parameters{Object.keys(generation).length > 0 ? ' (overridden)' : ''}
+          </button>
+          {showGeneration && (
+            <div className="mt-3">
+              <GenerationParametersEditor
+                idPrefix="project-generation"
+                value={generation}
+                onChange={setGeneration}
+                inherited={loadLlmSettings().generation}
+              />
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="mt-6 flex items-center space-x-4">
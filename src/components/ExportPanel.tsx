@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { Project } from '../types/models';
+import { exportService, EXPORTERS, type ExportFormat } from '../services/exportService';
+import { downloadFile } from '../lib/download';
+import { loadPdfLayout, savePdfLayout } from '../lib/settingsService';
+import PdfLayoutForm from './PdfLayoutForm';
+import { pdfLayoutProblem } from '../exporters/pdfExporter';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportPanelProps {
+  project: Project;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ project }) => {
+  const [format, setFormat] = useState<ExportFormat>('epub');
+  const [pdfLayout, setPdfLayout] = useState(loadPdfLayout);
+  const [docxDescriptionComments, setDocxDescriptionComments] = useState(true);
+  const [htmlSearchIndex, setHtmlSearchIndex] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (format === 'pdf') {
+      const margins = [pdfLayout.marginTop, pdfLayout.marginBottom, pdfLayout.marginInside, pdfLayout.marginOutside];
+      if (!(pdfLayout.fontSize >= 6 && pdfLayout.fontSize <= 24) || margins.some(margin => !(margin >= 0))) {
+        setError('Font size must be between 6 and 24 pt, and margins cannot be negative.');
+        return;
+      }
+      const layoutProblem = pdfLayoutProblem(pdfLayout);
+      if (layoutProblem) {
+        setError(layoutProblem);
+        return;
+      }
+      savePdfLayout(pdfLayout);
+    }
+    setIsExporting(true);
+    setError(null);
+    try {
+      const file = await exportService.exportProject(project.id, format, { pdfLayout, docxDescriptionComments, htmlSearchIndex });
+      if (file) {
+        downloadFile(file.content, file.fileName, file.mimeType);
+      } else {
+        setError('Failed to export the project.');
+      }
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      setError('An error occurred while exporting the project.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 p-4 border rounded bg-gray-50">
+      <h3 className="text-lg font-semibold text-gray-700 mb-2">Export Manuscript</h3>
+      <div className="flex items-center space-x-2">
+        <label htmlFor="export-format" className="sr-only">Export format</label>
+        <select
+          id="export-format"
+          value={format}
+          onChange={e => setFormat(e.target.value as ExportFormat)}
+          disabled={isExporting}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          {(Object.keys(EXPORTERS) as ExportFormat[]).map(key => (
+            <option key={key} value={key}>{EXPORTERS[key].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? <Loader2 size={16} className="animate-spin mr-1" /> : <Download size={16} className="mr-1" />}
+          {isExporting ? 'Exporting...' : 'Export'}
+        </button>
+      </div>
+      {format === 'pdf' && <PdfLayoutForm layout={pdfLayout} disabled={isExporting} onChange={setPdfLayout} />}
+      {format === 'docx' && (
+        <label className="mt-3 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={docxDescriptionComments}
+            onChange={e => setDocxDescriptionComments(e.target.checked)}
+            disabled={isExporting}
+            className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Add chapter descriptions as comments for the editor
+        </label>
+      )}
+      {format === 'html-site' && (
+        <label className="mt-3 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={htmlSearchIndex}
+            onChange={e => setHtmlSearchIndex(e.target.checked)}
+            disabled={isExporting}
+            className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Include a search box on the index page
+        </label>
+      )}
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
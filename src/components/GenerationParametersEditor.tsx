@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { GenerationParameters, GenerationTask, TaskGenerationParameters } from '../types/models';
+import { GENERATION_LIMITS, GENERATION_TASKS, MAX_STOP_SEQUENCES } from '../lib/generationParameters';
+
+interface GenerationParametersEditorProps {
+  idPrefix: string; // Keeps input IDs unique when the editor appears twice on a page
+  value: TaskGenerationParameters;
+  onChange: (value: TaskGenerationParameters) => void;
+  inherited?: TaskGenerationParameters; // Values used for empty fields, shown as placeholders
+}
+
+type NumericKey = keyof typeof GENERATION_LIMITS;
+
+const NUMERIC_FIELDS: { key: NumericKey; label: string; step: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1' },
+  { key: 'topP', label: 'Top P', step: '0.05' },
+  { key: 'maxTokens', label: 'Max Tokens', step: '1' },
+  { key: 'presencePenalty', label: 'Presence Penalty', step: '0.1' },
+  { key: 'frequencyPenalty', label: 'Frequency Penalty', step: '0.1' },
+  { key: 'seed', label: 'Seed', step: '1' },
+];
+
+// Stop sequences are edited one per line; a line break inside a sequence is written as \n
+const stopToText = (stop: string[] | undefined): string => (stop ?? []).map(sequence => sequence.replace(/\n/g, '\\n')).join('\n');
+const textToStop = (text: string): string[] | undefined => (text ? text.split('\n').map(line => line.replace(/\\n/g, '\n')) : undefined);
+
+const GenerationParametersEditor: React.FC<GenerationParametersEditorProps> = ({ idPrefix, value, onChange, inherited }) => {
+  const [task, setTask] = useState<GenerationTask>('chapter');
+  const parameters = value[task] ?? {};
+  const inheritedParameters = inherited?.[task] ?? {};
+
+  const update = (changes: Partial<GenerationParameters>) => {
+    const next: GenerationParameters = { ...parameters, ...changes };
+    for (const key of Object.keys(next) as (keyof GenerationParameters)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    const nextValue = { ...value };
+    if (Object.keys(next).length > 0) nextValue[task] = next;
+    else delete nextValue[task];
+    onChange(nextValue);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1 mb-3" role="tablist">
+        {GENERATION_TASKS.map(({ task: option, label, description }) => (
+          <button
+            key={option}
+            type="button"
+            role="tab"
+            aria-selected={task === option}
+            onClick={() => setTask(option)}
+            className={`px-3 py-1 rounded text-sm border ${
+              task === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+            title={description}
+          >
+            {label}
+            {value[option] && <span className="ml-1" title="Has settings">•</span>}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {GENERATION_TASKS.find(option => option.task === task)?.description}. Empty fields use {inherited ? 'the values from the options' : "the provider's defaults"}.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {NUMERIC_FIELDS.map(({ key, label, step }) => {
+          const limits = GENERATION_LIMITS[key];
+          return (
+            <div key={key}>
+              <label htmlFor={`${idPrefix}-${key}`} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type="number"
+                id={`${idPrefix}-${key}`}
+                value={parameters[key] ?? ''}
+                onChange={(e) => update({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                min={key === 'seed' ? undefined : limits.min}
+                max={key === 'seed' || key === 'maxTokens' ? undefined : limits.max}
+                step={step}
+                placeholder={inheritedParameters[key]?.toString() ?? 'Default'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+          );
+        })}
+        <div className="col-span-2 md:col-span-3">
+          <label htmlFor={`${idPrefix}-stop`} className="block text-sm font-medium text-gray-700 mb-1">Stop Sequences</label>
+          <textarea
+            id={`${idPrefix}-stop`}
+            value={stopToText(parameters.stop)}
+            onChange={(e) => update({ stop: textToStop(e.target.value) })}
+            rows={2}
+            placeholder={stopToText(inheritedParameters.stop) || 'One per line'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-mono"
+          ></textarea>
+          <p className="mt-1 text-xs text-gray-500">Up to {MAX_STOP_SEQUENCES}, one per line. Write a line break as \n.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationParametersEditor;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Project, Chapter } from '../types/models';
+import { historyService } from '../services/historyService';
+import { projectService } from '../services/projectService';
+import { chapterService } from '../services/chapterService';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  project: Project;
+  onProjectUpdated: (updatedProject: Project) => void;
+  onChaptersUpdated: (chapters: Chapter[]) => void;
+}
+
+// Keyboard shortcuts are left to the browser while the user is typing, so text fields keep their own undo
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ project, onProjectUpdated, onChaptersUpdated }) => {
+  const [entries, setEntries] = useState(historyService.getEntries());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render whenever the history changes
+  useEffect(() => historyService.subscribe(() => setEntries(historyService.getEntries())), []);
+
+  // History belongs to the open project; start fresh when another one is opened
+  useEffect(() => {
+    historyService.clear();
+    setError(null);
+  }, [project.id]);
+
+  const runStep = useCallback(async (action: 'undo' | 'redo') => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const changed = await historyService[action]();
+      if (!changed) return;
+      // Commands touch the database only; reload what the UI shows
+      const updatedProject = await projectService.getProjectById(project.id);
+      if (updatedProject) {
+        onProjectUpdated(updatedProject);
+      }
+      const updatedChapters = await chapterService.getChaptersByProjectId(project.id);
+      onChaptersUpdated(updatedChapters);
+    } catch (err) {
+      console.error(`Error during ${action}:`, err);
+      setError(`Failed to ${action}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [project.id, onProjectUpdated, onChaptersUpdated]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) outside of text fields
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        runStep('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        runStep('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [runStep]);
+
+  const buttonClass = "inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="mt-8 p-4 border rounded bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-700">History</h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => runStep('undo')}
+            disabled={isWorking || entries.undo.length === 0}
+            className={buttonClass}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={16} className="mr-1" /> Undo
+          </button>
+          <button
+            onClick={() => runStep('redo')}
+            disabled={isWorking || entries.redo.length === 0}
+            className={buttonClass}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={16} className="mr-1" /> Redo
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+
+      {entries.undo.length === 0 && entries.redo.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes yet in this session.</p>
+      ) : (
+        <ol className="text-sm max-h-40 overflow-y-auto divide-y divide-gray-200">
+          {/* Newest first: pending redo entries (greyed out) above the applied ones */}
+          {entries.redo.map(entry => (
+            <li key={entry.id} className="py-1 flex justify-between text-gray-400 line-through">
+              <span>{entry.label}</span>
+              <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </li>
+          ))}
+          {[...entries.undo].reverse().map((entry, index) => (
+            <li key={entry.id} className={`py-1 flex justify-between ${index === 0 ? 'font-medium text-gray-900' : 'text-gray-700'}`}>
+              <span>{entry.label}</span>
+              <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import type { PdfLayoutOptions } from '../types/models';
+import { PDF_FONT_LABELS, PDF_TRIM_SIZES } from '../exporters/pdfExporter';
+
+interface PdfLayoutFormProps {
+  layout: PdfLayoutOptions;
+  disabled: boolean;
+  onChange: (layout: PdfLayoutOptions) => void;
+}
+
+const MARGINS: { key: 'marginTop' | 'marginBottom' | 'marginInside' | 'marginOutside'; label: string }[] = [
+  { key: 'marginTop', label: 'Top' },
+  { key: 'marginBottom', label: 'Bottom' },
+  { key: 'marginInside', label: 'Inside' },
+  { key: 'marginOutside', label: 'Outside' },
+];
+
+const TOGGLES: { key: 'chapterStartOnRecto' | 'runningHeaders' | 'pageNumbers' | 'tableOfContents'; label: string }[] = [
+  { key: 'tableOfContents', label: 'Table of contents' },
+  { key: 'chapterStartOnRecto', label: 'Start chapters on right-hand pages' },
+  { key: 'runningHeaders', label: 'Running headers (book and chapter title)' },
+  { key: 'pageNumbers', label: 'Page numbers' },
+];
+
+const fieldClass = "mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100";
+
+// Page layout choices shown in the export panel when PDF is selected
+const PdfLayoutForm: React.FC<PdfLayoutFormProps> = ({ layout, disabled, onChange }) => {
+  const update = (changes: Partial<PdfLayoutOptions>) => onChange({ ...layout, ...changes });
+
+  return (
+    <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+      <label className="col-span-2 md:col-span-1 text-gray-700">
+        Trim size
+        <select value={layout.trimSize} onChange={e => update({ trimSize: e.target.value })} disabled={disabled} className={fieldClass}>
+          {Object.entries(PDF_TRIM_SIZES).map(([key, size]) => (
+            <option key={key} value={key}>{size.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-gray-700">
+        Font
+        <select
+          value={layout.font}
+          onChange={e => update({ font: e.target.value as PdfLayoutOptions['font'] })}
+          disabled={disabled}
+          className={fieldClass}
+        >
+          {(Object.keys(PDF_FONT_LABELS) as PdfLayoutOptions['font'][]).map(font => (
+            <option key={font} value={font}>{PDF_FONT_LABELS[font]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-gray-700">
+        Font size (pt)
+        <input
+          type="number"
+          min={6}
+          max={24}
+          step={0.5}
+          value={layout.fontSize}
+          onChange={e => update({ fontSize: Number(e.target.value) })}
+          disabled={disabled}
+          className={fieldClass}
+        />
+      </label>
+      <div className="hidden md:block" />
+
+      {MARGINS.map(({ key, label }) => (
+        <label key={key} className="text-gray-700">
+          {label} margin (mm)
+          <input
+            type="number"
+            min={0}
+            max={80}
+            step={1}
+            value={layout[key]}
+            onChange={e => update({ [key]: Number(e.target.value) })}
+            disabled={disabled}
+            className={fieldClass}
+          />
+        </label>
+      ))}
+
+      <div className="col-span-2 md:col-span-4 flex flex-wrap gap-x-6 gap-y-1">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              checked={layout[key]}
+              onChange={e => update({ [key]: e.target.checked })}
+              disabled={disabled}
+              className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PdfLayoutForm;
@@ -1,8 +1,11 @@
 import React from 'react';
-import type { Project, Chapter } from '../types/models';
+import type { Project, Chapter, SearchHit } from '../types/models';
 import EbookParametersForm from './EbookParametersForm';
+import BookMetadataForm from './BookMetadataForm';
 import ChapterManager from './ChapterManager';
 import ChatInterface from './ChatInterface'; // Import the new ChatInterface component
+import HistoryPanel from './HistoryPanel';
+import ExportPanel from './ExportPanel';
 
 interface ProjectDetailsProps {
   project: Project;
@@ -12,6 +15,7 @@ interface ProjectDetailsProps {
   onProjectUpdated: (updatedProject: Project) => void;
   onChaptersUpdated: (chapters: Chapter[]) => void;
   onCloseProject: () => void;
+  searchFocus: SearchHit | null; // Search hit to jump to within this project
 }
 
 const ProjectDetails: React.FC<ProjectDetailsProps> = ({
@@ -22,6 +26,7 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({
   onProjectUpdated,
   onChaptersUpdated,
   onCloseProject,
+  searchFocus,
 }) => {
   // Note: Loading and Error states are primarily handled in App.tsx
   // but can be passed down if child components need to react to them.
@@ -37,20 +42,33 @@ const ProjectDetails: React.FC<ProjectDetailsProps> = ({
         onParametersUpdated={onProjectUpdated}
       />
 
+      {/* Author, language, ISBN and cover used by the ebook exports */}
+      <BookMetadataForm project={project} />
+
       {/* Chapter List and Management */}
       <ChapterManager
         project={project}
         chapters={chapters}
         onChaptersUpdated={onChaptersUpdated}
+        searchFocus={searchFocus?.kind === 'chapter' ? searchFocus : null}
+      />
+
+      {/* Undo/Redo History */}
+      <HistoryPanel
+        project={project}
+        onProjectUpdated={onProjectUpdated}
+        onChaptersUpdated={onChaptersUpdated}
       />
 
       {/* Chat Interface */}
       <ChatInterface
         project={project}
+        searchFocus={searchFocus?.kind === 'message' ? searchFocus : null}
         // Pass currentChapterId here if chat needs to be chapter-specific
       />
 
-      {/* TODO: Add sections for File Export/Import, etc. */}
+      {/* Manuscript Export */}
+      <ExportPanel project={project} />
 
       <button
         onClick={onCloseProject}
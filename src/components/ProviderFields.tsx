@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import type { LlmProvider, ProviderField, ProviderFieldValue, ProviderOptions } from '../providers/types';
+import { isApiKeyVaultSetUp } from '../lib/apiKeyVault';
+
+export interface ProviderFieldValues {
+  apiKey: string;
+  baseUrl: string;
+  options: ProviderOptions;
+}
+
+interface ProviderFieldsProps {
+  provider: LlmProvider;
+  value: ProviderFieldValues;
+  onChange: (value: ProviderFieldValues) => void;
+  errors: Record<string, string>; // By field key, from validateProviderSettings
+  keysUnlocked: boolean; // API keys can only be edited while the vault is unlocked
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100';
+
+// Headers are edited as "Name: value" lines; lines without a colon are ignored
+const headersToText = (headers: Record<string, string>): string =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+const textToHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.match(/^\s*([^:\s]+)\s*:\s?(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => [match[1], match[2].trim()])
+  );
+
+// Text of the fields edited as lines, as the user left it
+const initialTexts = (provider: LlmProvider, options: ProviderOptions): Record<string, string> => {
+  const texts: Record<string, string> = {};
+  for (const field of provider.fields) {
+    const value = options[field.key];
+    if (field.type === 'lines') texts[field.key] = Array.isArray(value) ? value.join('\n') : '';
+    if (field.type === 'headers') texts[field.key] = typeof value === 'object' && !Array.isArray(value) ? headersToText(value) : '';
+  }
+  return texts;
+};
+
+/**
+ * The settings form of a provider, rendered from its field declarations. Remount it (via `key`)
+ * when another profile or provider is shown, since the line-based fields keep their own text.
+ */
+const ProviderFields: React.FC<ProviderFieldsProps> = ({ provider, value, onChange, errors, keysUnlocked }) => {
+  // Kept as typed, so that half-written lines don't disappear
+  const [texts, setTexts] = useState(() => initialTexts(provider, value.options));
+
+  const setFieldValue = (field: ProviderField, fieldValue: ProviderFieldValue) => {
+    if (field.key === 'apiKey') onChange({ ...value, apiKey: fieldValue as string });
+    else if (field.key === 'baseUrl') onChange({ ...value, baseUrl: fieldValue as string });
+    else onChange({ ...value, options: { ...value.options, [field.key]: fieldValue } });
+  };
+
+  const setText = (field: ProviderField, text: string, fieldValue: ProviderFieldValue) => {
+    setTexts(prev => ({ ...prev, [field.key]: text }));
+    setFieldValue(field, fieldValue);
+  };
+
+  const renderInput = (field: ProviderField) => {
+    const id = `provider-${field.key}`;
+    const current = field.key === 'apiKey' ? value.apiKey : field.key === 'baseUrl' ? value.baseUrl : value.options[field.key];
+    const text = typeof current === 'string' ? current : '';
+    switch (field.type) {
+      case 'password':
+        return (
+          <input
+            type="password"
+            id={id}
+            value={text}
+            onChange={(e) => setFieldValue(field, e.target.value)}
+            disabled={!keysUnlocked}
+            className={inputClassName}
+            placeholder={keysUnlocked ? field.placeholder : isApiKeyVaultSetUp() ? 'Unlock API keys below' : 'Set a passphrase below'}
+          />
+        );
+      case 'textarea':
+        return (
+          <textarea
+            id={id}
+            value={text}
+            onChange={(e) => setFieldValue(field, e.target.value)}
+            rows={4}
+            className={`${inputClassName} font-mono`}
+            placeholder={field.placeholder}
+          ></textarea>
+        );
+      case 'select':
+        return (
+          <select id={id} value={text} onChange={(e) => setFieldValue(field, e.target.value)} className={inputClassName}>
+            {field.choices?.map(choice => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        );
+      case 'lines':
+        return (
+          <textarea
+            id={id}
+            value={texts[field.key] ?? ''}
+            onChange={(e) => setText(field, e.target.value, e.target.value.split('\n').map(line => line.trim()).filter(Boolean))}
+            rows={2}
+            className={`${inputClassName} font-mono`}
+            placeholder={field.placeholder}
+          ></textarea>
+        );
+      case 'headers':
+        return (
+          <textarea
+            id={id}
+            value={texts[field.key] ?? ''}
+            onChange={(e) => setText(field, e.target.value, textToHeaders(e.target.value))}
+            rows={2}
+            className={`${inputClassName} font-mono`}
+            placeholder={field.placeholder}
+          ></textarea>
+        );
+      case 'checkboxes': {
+        const checked = Array.isArray(current) ? current : [];
+        return (
+          <div id={id} className="flex flex-wrap items-center gap-3">
+            {field.choices?.map(choice => (
+              <label key={choice.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={checked.includes(choice.value)}
+                  onChange={(e) => setFieldValue(field, e.target.checked
+                    ? (field.choices ?? []).map(option => option.value).filter(option => option === choice.value || checked.includes(option))
+                    : checked.filter(option => option !== choice.value))}
+                  className="mr-1"
+                />
+                {choice.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <input
+            type="text"
+            id={id}
+            value={text}
+            onChange={(e) => setFieldValue(field, e.target.value)}
+            className={inputClassName}
+            placeholder={field.placeholder}
+          />
+        );
+    }
+  };
+
+  const visibleFields = provider.fields.filter(field => !field.visibleWhen || field.visibleWhen(value.options));
+  if (visibleFields.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {visibleFields.map(field => (
+        <div key={field.key}>
+          <label htmlFor={`provider-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label}{field.required ? '' : field.type === 'password' ? ' (optional)' : ''}
+          </label>
+          {renderInput(field)}
+          {errors[field.key] ? (
+            <p className="mt-1 text-xs text-red-600">{errors[field.key]}</p>
+          ) : field.help && (
+            <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProviderFields;
@@ -1,6 +1,8 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { Project } from '../types/models';
-import { Settings, FolderPlus, Edit3, Save, FolderOpen } from 'lucide-react';
+import { Settings, FolderPlus, Edit3, Save, FolderOpen, Search, FolderInput, FileJson, FileDown, Cpu, Check } from 'lucide-react';
+import { loadLlmProfiles, setActiveLlmProfile, subscribeLlmProfiles } from '../lib/settingsService';
+import { getProvider } from '../providers/registry';
 
 interface TopMenuBarProps {
   loading: boolean;
@@ -10,7 +12,11 @@ interface TopMenuBarProps {
   onLoadProjectClick: () => void;
   onEditProjectClick: () => void;
   onShowOptionsClick: () => void;
+  onSearchClick: () => void;
   onLoadFromFile: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onImportFromFile: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onImportJson: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportJson: () => void;
 }
 
 const TopMenuBar: React.FC<TopMenuBarProps> = ({
@@ -21,14 +27,34 @@ const TopMenuBar: React.FC<TopMenuBarProps> = ({
   onLoadProjectClick,
   onEditProjectClick,
   onShowOptionsClick,
+  onSearchClick,
   onLoadFromFile,
+  onImportFromFile,
+  onImportJson,
+  onExportJson,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const [llmProfiles, setLlmProfiles] = useState(loadLlmProfiles);
+
+  // Profiles are edited in the options; follow their changes here
+  useEffect(() => subscribeLlmProfiles(() => setLlmProfiles(loadLlmProfiles())), []);
+
+  const activeProfile = llmProfiles.profiles.find(profile => profile.id === llmProfiles.activeProfileId);
 
   const handleLoadClick = () => {
     fileInputRef.current?.click();
   };
 
+  const handleImportClick = () => {
+    importInputRef.current?.click();
+  };
+
+  const handleImportJsonClick = () => {
+    jsonInputRef.current?.click();
+  };
+
   return (
     <nav className="bg-gray-800 text-white p-4 mb-8 rounded shadow-lg flex justify-between items-center">
       <div className="flex items-center space-x-2">
@@ -71,6 +97,39 @@ const TopMenuBar: React.FC<TopMenuBarProps> = ({
                 disabled={loading}
                 accept=".db"
               />
+              <button
+                onClick={handleImportClick}
+                disabled={loading}
+                className="text-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed block w-full px-4 py-2 text-sm text-left hover:bg-gray-100 flex items-center"
+                role="menuitem"
+                title="Copy projects from a .db file into your library"
+              >
+                <FolderInput size={16} className="mr-2" /> Import Projects...
+              </button>
+              <input
+                type="file"
+                ref={importInputRef}
+                className="hidden"
+                onChange={onImportFromFile}
+                disabled={loading}
+                accept=".db"
+              />
+              <button
+                onClick={handleImportJsonClick}
+                disabled={loading}
+                className="text-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed block w-full px-4 py-2 text-sm text-left hover:bg-gray-100 flex items-center"
+                role="menuitem"
+              >
+                <FileJson size={16} className="mr-2" /> Import JSON...
+              </button>
+              <input
+                type="file"
+                ref={jsonInputRef}
+                className="hidden"
+                onChange={onImportJson}
+                disabled={loading}
+                accept=".json,application/json"
+              />
               <button
                 onClick={onSaveProject}
                 disabled={loading || !currentProject}
@@ -79,6 +138,14 @@ const TopMenuBar: React.FC<TopMenuBarProps> = ({
               >
                 <Save size={16} className="mr-2" /> Save Project
               </button>
+              <button
+                onClick={onExportJson}
+                disabled={loading || !currentProject}
+                className="text-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed block w-full px-4 py-2 text-sm text-left hover:bg-gray-100 flex items-center"
+                role="menuitem"
+              >
+                <FileDown size={16} className="mr-2" /> Export JSON
+              </button>
               <button
                 onClick={onEditProjectClick}
                 disabled={loading || !currentProject}
@@ -91,6 +158,57 @@ const TopMenuBar: React.FC<TopMenuBarProps> = ({
           </div>
         </div>
 
+        {/* LLM Profile Quick Switch */}
+        <div className="relative group">
+          <button
+            className="flex items-center px-3 py-2 rounded hover:bg-gray-700 focus:outline-none focus:bg-gray-700"
+            title={activeProfile ? `LLM profile: ${activeProfile.name} (${getProvider(activeProfile.provider)?.name ?? activeProfile.provider}, ${activeProfile.model})` : 'LLM profile'}
+          >
+            <Cpu size={20} className="mr-1" />
+            <span className="max-w-[10rem] truncate">{activeProfile?.name}</span>
+            <svg className="w-2.5 h-2.5 ms-3" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 10 6">
+              <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="m1 1 4 4 4-4"/>
+            </svg>
+          </button>
+          <div className="absolute right-0 z-10 mt-[-2px] w-64 origin-top-right rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none hidden group-hover:block">
+            <div className="py-1" role="menu" aria-orientation="vertical">
+              {llmProfiles.profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => setActiveLlmProfile(profile.id)}
+                  className="text-gray-700 block w-full px-4 py-2 text-sm text-left hover:bg-gray-100 flex items-center"
+                  role="menuitemradio"
+                  aria-checked={profile.id === llmProfiles.activeProfileId}
+                >
+                  <Check size={16} className={`mr-2 flex-shrink-0 ${profile.id === llmProfiles.activeProfileId ? '' : 'invisible'}`} />
+                  <span className="min-w-0">
+                    <span className="block truncate">{profile.name}</span>
+                    <span className="block truncate text-xs text-gray-500">{getProvider(profile.provider)?.name ?? profile.provider} · {profile.model}</span>
+                  </span>
+                </button>
+              ))}
+              <button
+                onClick={onShowOptionsClick}
+                disabled={loading}
+                className="text-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed block w-full px-4 py-2 text-sm text-left hover:bg-gray-100 flex items-center border-t"
+                role="menuitem"
+              >
+                <Settings size={16} className="mr-2" /> Manage Profiles...
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Search Button */}
+        <button
+          onClick={onSearchClick}
+          disabled={loading}
+          className="flex items-center px-3 py-2 rounded hover:bg-gray-700 focus:outline-none focus:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Search chapters and chat (Ctrl+Shift+F)"
+        >
+          <Search size={20} className="mr-1" /> Search
+        </button>
+
         {/* Options Button */}
         <button
           onClick={onShowOptionsClick}
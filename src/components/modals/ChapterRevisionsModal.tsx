@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { X, RotateCcw, Loader2 } from 'lucide-react';
+import type { Chapter, ChapterRevision, RevisionSource } from '../../types/models';
+import { revisionService } from '../../services/revisionService';
+import { diffLines, type DiffRow } from '../../lib/diff';
+
+interface ChapterRevisionsModalProps {
+  isOpen: boolean;
+  chapter: Chapter | null; // Chapter whose history is shown (current state is the right side of the diff)
+  onClose: () => void;
+  onRestored: (chapter: Chapter) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  original: 'Original',
+  manual: 'Manual edit',
+  llm: 'LLM generation',
+  chat: 'Chat edit',
+  restore: 'Restored',
+  draft: 'Draft',
+};
+
+const SOURCE_STYLES: Record<RevisionSource, string> = {
+  original: 'bg-gray-100 text-gray-700',
+  manual: 'bg-blue-100 text-blue-700',
+  llm: 'bg-purple-100 text-purple-700',
+  chat: 'bg-yellow-100 text-yellow-800',
+  restore: 'bg-green-100 text-green-700',
+  draft: 'bg-orange-100 text-orange-700',
+};
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-gray-50' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-800' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+};
+
+const ChapterRevisionsModal: React.FC<ChapterRevisionsModalProps> = ({ isOpen, chapter, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<ChapterRevision | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load history when the modal opens or the chapter changes
+  useEffect(() => {
+    if (!isOpen || !chapter) return;
+    const fetchRevisions = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const fetched = await revisionService.getRevisionsByChapterId(chapter.id);
+        setRevisions(fetched);
+        // Pre-select the newest revision that differs from the current state (usually the second one)
+        setSelectedRevision(fetched[1] ?? fetched[0] ?? null);
+      } catch (err) {
+        console.error('Error fetching chapter revisions:', err);
+        setError('Failed to load revision history.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchRevisions();
+  }, [isOpen, chapter]);
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    if (!window.confirm('Restore this revision? The current text will remain available in the history.')) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const restored = await revisionService.restoreRevision(selectedRevision.id);
+      if (restored) {
+        onRestored(restored);
+        onClose();
+      } else {
+        setError('Failed to restore revision.');
+      }
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError('An error occurred while restoring the revision.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen || !chapter) {
+    return null;
+  }
+
+  const fieldRows = selectedRevision
+    ? [
+        { label: 'Title', rows: diffLines(selectedRevision.title, chapter.title) },
+        { label: 'Description', rows: diffLines(selectedRevision.description, chapter.description) },
+        { label: 'Content', rows: diffLines(selectedRevision.content ?? '', chapter.content ?? '') },
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-6xl h-[85vh] relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
+          aria-label="Close modal"
+          disabled={isRestoring}
+        >
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold mb-4">Revision History: {chapter.title}</h2>
+
+        <div className="flex flex-grow min-h-0 space-x-4">
+          {/* Revision List */}
+          <ul className="w-64 flex-shrink-0 border rounded divide-y divide-gray-200 overflow-y-auto">
+            {isLoading && <li className="p-3 text-sm text-gray-600">Loading revisions...</li>}
+            {!isLoading && revisions.length === 0 && (
+              <li className="p-3 text-sm text-gray-600">No revisions yet. Edits to this chapter will appear here.</li>
+            )}
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedRevision(revision)}
+                  className={`w-full text-left p-3 hover:bg-gray-50 ${selectedRevision?.id === revision.id ? 'bg-blue-50' : ''}`}
+                >
+                  <span className={`inline-block text-xs font-medium px-2 py-0.5 rounded ${SOURCE_STYLES[revision.source] ?? SOURCE_STYLES.manual}`}>
+                    {SOURCE_LABELS[revision.source] ?? revision.source}
+                  </span>
+                  {index === 0 && <span className="ml-2 text-xs text-gray-500">latest</span>}
+                  <span className="block text-xs text-gray-600 mt-1">
+                    {/* SQLite CURRENT_TIMESTAMP is UTC without a zone marker */}
+                    {new Date(revision.createdAt.replace(' ', 'T') + 'Z').toLocaleString()}
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">
+                    {(revision.content ?? '').length} characters
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Side-by-side Diff */}
+          <div className="flex-grow min-w-0 border rounded overflow-y-auto">
+            {selectedRevision ? (
+              <>
+                <div className="grid grid-cols-2 sticky top-0 bg-gray-100 border-b text-sm font-medium text-gray-700">
+                  <div className="px-3 py-2 border-r">Selected revision</div>
+                  <div className="px-3 py-2">Current</div>
+                </div>
+                {fieldRows.map(field => (
+                  <div key={field.label}>
+                    <div className="px-3 py-1 bg-gray-50 border-b text-xs font-semibold uppercase text-gray-500">{field.label}</div>
+                    {field.rows.map((row, i) => (
+                      <div key={i} className="grid grid-cols-2 text-sm font-mono">
+                        <div className={`px-3 py-0.5 border-r whitespace-pre-wrap break-words ${ROW_STYLES[row.type].left}`}>
+                          {row.left ?? ''}
+                        </div>
+                        <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].right}`}>
+                          {row.right ?? ''}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </>
+            ) : (
+              <p className="p-4 text-sm text-gray-600">Select a revision to compare it with the current chapter.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center space-x-3 mt-4">
+          {error && <span className="text-red-600 text-sm">{error}</span>}
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={!selectedRevision || isRestoring}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 flex items-center"
+          >
+            {isRestoring ? <Loader2 size={16} className="animate-spin mr-2" /> : <RotateCcw size={16} className="mr-2" />}
+            {isRestoring ? 'Restoring...' : 'Restore This Revision'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isRestoring}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChapterRevisionsModal;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Loader2, Upload, Square } from 'lucide-react';
+import type { Chapter, Project, SectionKind } from '../../types/models';
+import { manuscriptImportService } from '../../services/manuscriptImportService';
+import { historyService, historyCommands } from '../../services/historyService';
+import { MANUSCRIPT_EXTENSIONS } from '../../importers/manuscriptReader';
+import type { ChapterSplitMode, ManuscriptChapter } from '../../importers/chapterSplitter';
+import { SECTION_KINDS, SECTION_KIND_OPTIONS } from '../../lib/sectionKinds';
+
+interface ImportManuscriptModalProps {
+  isOpen: boolean;
+  project: Project;
+  onClose: () => void;
+  onImported: (chapters: Chapter[]) => void; // Called with the created chapters
+}
+
+// Per-chapter choice in the preview: whether to import it, under which title and as which kind of section
+type Selection = { selected: boolean; title: string; kind: SectionKind };
+
+const SPLIT_MODES: { mode: ChapterSplitMode; label: string }[] = [
+  { mode: 'headings', label: 'Headings' },
+  { mode: 'chapter-lines', label: '"Chapter N" lines' },
+  { mode: 'pattern', label: 'Custom pattern' },
+];
+
+const PREVIEW_LENGTH = 160;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+const ImportManuscriptModal: React.FC<ImportManuscriptModalProps> = ({ isOpen, project, onClose, onImported }) => {
+  const [file, setFile] = useState<{ name: string; data: Uint8Array } | null>(null);
+  const [mode, setMode] = useState<ChapterSplitMode>('headings');
+  const [headingLevel, setHeadingLevel] = useState<number | 'auto'>('auto');
+  const [pattern, setPattern] = useState('');
+  const [chapters, setChapters] = useState<ManuscriptChapter[]>([]);
+  const [selections, setSelections] = useState<Selection[]>([]);
+  const [generateDescriptions, setGenerateDescriptions] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null); // Stops the running import
+
+  // Start over whenever the modal is opened
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setChapters([]);
+    setSelections([]);
+    setError(null);
+    setNotice(null);
+    setProgress(null);
+  }, [isOpen]);
+
+  // Re-split the manuscript whenever the file or the splitting choices change
+  useEffect(() => {
+    if (!file) return;
+    if (mode === 'pattern' && !pattern.trim()) {
+      setChapters([]);
+      setSelections([]);
+      setError(null);
+      return;
+    }
+    try {
+      const split = manuscriptImportService.splitFile(file.name, file.data, {
+        mode,
+        headingLevel: headingLevel === 'auto' ? undefined : headingLevel,
+        pattern,
+      });
+      setChapters(split);
+      setSelections(split.map(chapter => ({ selected: true, title: chapter.title, kind: chapter.kind })));
+      setError(null);
+    } catch (err) {
+      console.error('Error reading manuscript:', err);
+      setChapters([]);
+      setSelections([]);
+      setError(err instanceof Error ? err.message : 'Failed to read the selected file.');
+    }
+  }, [file, mode, headingLevel, pattern]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!selected) return;
+    setNotice(null);
+    setFile({ name: selected.name, data: new Uint8Array(await selected.arrayBuffer()) });
+  };
+
+  const updateSelection = (index: number, changes: Partial<Selection>) => {
+    setSelections(prev => prev.map((selection, i) => (i === index ? { ...selection, ...changes } : selection)));
+  };
+
+  const chosenCount = selections.filter(selection => selection.selected).length;
+
+  const handleImport = async () => {
+    const chosenIndexes = selections.flatMap((selection, index) => (selection.selected ? [index] : []));
+    const chosen = chosenIndexes.map(index => ({ ...chapters[index], title: selections[index].title.trim(), kind: selections[index].kind }));
+    if (chosen.some(chapter => !chapter.title)) {
+      setError('Chapter titles cannot be empty.');
+      return;
+    }
+    const controller = new AbortController();
+    abortController.current = controller;
+    setIsImporting(true);
+    setError(null);
+    setNotice(null);
+    setProgress({ done: 0, total: chosen.length });
+    try {
+      const result = await manuscriptImportService.importChapters(project, chosen, {
+        generateDescriptions,
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      });
+      if (result.chapters.length > 0) {
+        historyService.push(historyCommands.importChapters(result.chapters));
+        onImported(result.chapters);
+      }
+      if (result.stopped) {
+        // Leave the rest selected, so the import can be continued
+        const imported = new Set(chosenIndexes.slice(0, result.chapters.length));
+        setSelections(prev => prev.map((selection, index) => (imported.has(index) ? { ...selection, selected: false } : selection)));
+        setNotice(`Import stopped after ${result.chapters.length} of ${chosen.length} chapters.`);
+        return;
+      }
+      if (result.chapters.length < chosen.length) {
+        setError(`Imported ${result.chapters.length} of ${chosen.length} chapters; saving the next one failed.`);
+      } else if (result.missingDescriptions > 0) {
+        setNotice(`Imported ${result.chapters.length} chapters. The LLM wrote no description for ${result.missingDescriptions} of them.`);
+      } else {
+        onClose();
+        return;
+      }
+      // The imported chapters are in the project now; don't offer them again
+      setFile(null);
+      setChapters([]);
+      setSelections([]);
+    } catch (err) {
+      console.error('Error importing manuscript:', err);
+      setError('An error occurred while importing the chapters.');
+    } finally {
+      abortController.current = null;
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-700"
+          aria-label="Close modal"
+          disabled={isImporting}
+        >
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold mb-1">Import Manuscript</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Split a Markdown, text, HTML or Word (.docx) file into chapters. They are added after the existing chapters of "{project.name}"; front and back matter go to their own groups.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4 text-sm">
+          <label className="inline-flex items-center px-3 py-2 border border-gray-300 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            <Upload size={16} className="mr-2" />
+            {file ? file.name : 'Choose File...'}
+            <input
+              type="file"
+              className="hidden"
+              accept={Object.keys(MANUSCRIPT_EXTENSIONS).map(extension => `.${extension}`).join(',')}
+              onChange={handleFileSelected}
+              disabled={isImporting}
+            />
+          </label>
+          <label className="text-gray-700">
+            Split at
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as ChapterSplitMode)}
+              disabled={isImporting}
+              className="mt-1 block px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SPLIT_MODES.map(option => <option key={option.mode} value={option.mode}>{option.label}</option>)}
+            </select>
+          </label>
+          {mode === 'headings' && (
+            <label className="text-gray-700">
+              Heading level
+              <select
+                value={headingLevel}
+                onChange={e => setHeadingLevel(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                disabled={isImporting}
+                className="mt-1 block px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="auto">Detect</option>
+                {[1, 2, 3, 4, 5, 6].map(level => <option key={level} value={level}>Level {level}</option>)}
+              </select>
+            </label>
+          )}
+          {mode === 'pattern' && (
+            <label className="flex-grow text-gray-700">
+              Regular expression (first capture group is the title)
+              <input
+                type="text"
+                value={pattern}
+                onChange={e => setPattern(e.target.value)}
+                disabled={isImporting}
+                placeholder="e.g. ^Part \d+: (.*)$"
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          )}
+        </div>
+
+        {file && chapters.length === 0 && !error && (
+          <p className="text-sm text-gray-600 mb-4">
+            {mode === 'pattern' && !pattern.trim() ? 'Enter a pattern to preview the chapters.' : 'No text found in this file.'}
+          </p>
+        )}
+
+        {chapters.length > 0 && (
+          <>
+            <p className="text-sm text-gray-600 mb-2">{chapters.length} chapter{chapters.length === 1 ? '' : 's'} found. Untick any you don't want, and adjust titles and types as needed.</p>
+            <ul className="max-h-[45vh] overflow-y-auto border rounded divide-y divide-gray-200 mb-4">
+              {chapters.map((chapter, index) => (
+                <li key={index} className="p-3 flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={selections[index]?.selected ?? false}
+                    onChange={e => updateSelection(index, { selected: e.target.checked })}
+                    disabled={isImporting}
+                    className="mt-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <div className="flex-grow min-w-0">
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={selections[index]?.title ?? ''}
+                        onChange={e => updateSelection(index, { title: e.target.value })}
+                        disabled={isImporting || !selections[index]?.selected}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 disabled:bg-gray-100"
+                        aria-label={`Title of chapter ${index + 1}`}
+                      />
+                      <select
+                        value={selections[index]?.kind ?? 'chapter'}
+                        onChange={e => updateSelection(index, { kind: e.target.value as SectionKind })}
+                        disabled={isImporting || !selections[index]?.selected}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 disabled:bg-gray-100"
+                        aria-label={`Type of chapter ${index + 1}`}
+                      >
+                        {SECTION_KIND_OPTIONS.map(kind => <option key={kind} value={kind}>{SECTION_KINDS[kind].label}</option>)}
+                      </select>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1 truncate">
+                      {countWords(chapter.content)} words
+                      {chapter.content ? ` · ${chapter.content.substring(0, PREVIEW_LENGTH)}` : ''}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <label className="flex items-center text-sm text-gray-700 mb-4">
+              <input
+                type="checkbox"
+                checked={generateDescriptions}
+                onChange={e => setGenerateDescriptions(e.target.checked)}
+                disabled={isImporting}
+                className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Ask the LLM to write a description for each chapter (one request per chapter)
+            </label>
+          </>
+        )}
+
+        {notice && <p className="text-sm text-yellow-700 mb-4">{notice}</p>}
+
+        <div className="flex justify-end items-center space-x-3">
+          {error && <span className="text-red-600 text-sm">{error}</span>}
+          {isImporting ? (
+            <button
+              type="button"
+              onClick={() => abortController.current?.abort()}
+              className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 flex items-center"
+            >
+              <Square size={14} className="mr-2" /> Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {notice ? 'Close' : 'Cancel'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isImporting || chosenCount === 0}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 flex items-center"
+          >
+            {isImporting && <Loader2 size={16} className="animate-spin mr-2" />}
+            {isImporting && progress
+              ? `Importing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`
+              : `Import ${chosenCount} Chapter${chosenCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportManuscriptModal;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, AlertTriangle } from 'lucide-react';
+import type { ImportableProject, Project } from '../../types/models';
+import { importService } from '../../services/importService';
+
+interface ImportProjectsModalProps {
+  isOpen: boolean;
+  fileData: Uint8Array | null; // The .db file to import from
+  fileName: string;
+  onClose: () => void;
+  onImported: (projects: Project[]) => void;
+}
+
+// Per-project choice in the list: whether to import it and under which name
+type Selection = { selected: boolean; name: string };
+
+const ImportProjectsModal: React.FC<ImportProjectsModalProps> = ({ isOpen, fileData, fileName, onClose, onImported }) => {
+  const [projects, setProjects] = useState<ImportableProject[]>([]);
+  const [selections, setSelections] = useState<Record<number, Selection>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Attach the file when the modal opens and detach it again when it closes
+  useEffect(() => {
+    if (!isOpen || !fileData) return;
+    let cancelled = false;
+    const openFile = async () => {
+      setIsLoading(true);
+      setError(null);
+      setProjects([]);
+      try {
+        const found = await importService.openFile(fileData);
+        if (cancelled) return;
+        setProjects(found);
+        setSelections(Object.fromEntries(found.map(p => [p.id, { selected: true, name: p.suggestedName }])));
+      } catch (err) {
+        console.error('Error opening import file:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to read the selected file.');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    openFile();
+    return () => {
+      cancelled = true;
+      importService.closeFile();
+    };
+  }, [isOpen, fileData]);
+
+  const updateSelection = (id: number, changes: Partial<Selection>) => {
+    setSelections(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const chosen = projects.filter(p => selections[p.id]?.selected);
+
+  const handleImport = async () => {
+    if (chosen.some(p => !selections[p.id].name.trim())) {
+      setError('Project names cannot be empty.');
+      return;
+    }
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await importService.importProjects(
+        chosen.map(p => ({ sourceId: p.id, name: selections[p.id].name }))
+      );
+      if (imported) {
+        onImported(imported);
+        onClose();
+      } else {
+        setError('Failed to import the selected projects. Nothing was imported.');
+      }
+    } catch (err) {
+      console.error('Error importing projects:', err);
+      setError('An error occurred while importing projects.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-700"
+          aria-label="Close modal"
+          disabled={isImporting}
+        >
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold mb-1">Import Projects</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Select projects from <span className="font-medium">{fileName}</span> to copy into your library. Your existing projects are kept.
+        </p>
+
+        {isLoading && (
+          <p className="text-sm text-gray-600 flex items-center mb-4"><Loader2 size={16} className="animate-spin mr-2" /> Reading file...</p>
+        )}
+        {!isLoading && !error && projects.length === 0 && (
+          <p className="text-sm text-gray-600 mb-4">This file contains no projects.</p>
+        )}
+
+        {projects.length > 0 && (
+          <ul className="max-h-[50vh] overflow-y-auto border rounded divide-y divide-gray-200 mb-4">
+            {projects.map(project => (
+              <li key={project.id} className="p-3 flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={selections[project.id]?.selected ?? false}
+                  onChange={e => updateSelection(project.id, { selected: e.target.checked })}
+                  disabled={isImporting}
+                  className="mt-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <div className="flex-grow min-w-0">
+                  <input
+                    type="text"
+                    value={selections[project.id]?.name ?? ''}
+                    onChange={e => updateSelection(project.id, { name: e.target.value })}
+                    disabled={isImporting || !selections[project.id]?.selected}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 disabled:bg-gray-100"
+                    aria-label={`Import name for ${project.name}`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {project.chapterCount} chapters, {project.messageCount} chat messages
+                    {project.description ? ` · ${project.description}` : ''}
+                  </p>
+                  {project.nameClash && (
+                    <p className="text-xs text-yellow-700 mt-1 flex items-center">
+                      <AlertTriangle size={12} className="mr-1" /> You already have a project named "{project.name}"; it will be imported under a new name.
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end items-center space-x-3">
+          {error && <span className="text-red-600 text-sm">{error}</span>}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isLoading || isImporting || chosen.length === 0}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 flex items-center"
+          >
+            {isImporting && <Loader2 size={16} className="animate-spin mr-2" />}
+            {isImporting ? 'Importing...' : `Import ${chosen.length} Project${chosen.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportProjectsModal;
@@ -1,7 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { X, Save, Wifi, WifiOff } from 'lucide-react';
-import { loadLlmSettings, saveLlmSettings, type LlmSettings } from '../../lib/settingsService';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Wifi, WifiOff, Plus, Trash2, Download, Upload } from 'lucide-react';
+import {
+  addLlmProfiles,
+  deleteLlmProfile,
+  getActiveLlmProfile,
+  loadLlmProfiles,
+  saveLlmProfile,
+  saveLlmSettings,
+  setActiveLlmProfile,
+  subscribeLlmProfiles,
+  type LlmProfile,
+  type LlmSettings,
+} from '../../lib/settingsService';
+import { buildLlmProfileExport, validateLlmProfileExport } from '../../lib/llmProfileExportFormat';
+import { downloadFile } from '../../lib/download';
 import { llmService } from '../../services/llmService'; // Correct: Import llmService
+import GenerationParametersEditor from '../GenerationParametersEditor';
+import ApiKeySecuritySection from '../ApiKeySecuritySection';
+import ProviderFields, { type ProviderFieldValues } from '../ProviderFields';
+import { getApiKey, isApiKeyVaultUnlocked, subscribeApiKeyVault } from '../../lib/apiKeyVault';
+import { getProvider, listProviders, resolveProviderOptions, validateProviderSettings } from '../../providers/registry';
+import type { LlmProvider } from '../../providers/types';
 
 // Removed incorrect imports:
 // import { projectService } from './projectService';
@@ -12,8 +31,24 @@ interface OptionsModalProps {
   onClose: () => void;
 }
 
+// The provider fields of settings as edited: stored options with defaults, plus unsaved edits
+const providerValuesOf = (provider: LlmProvider, settings: LlmSettings): ProviderFieldValues => {
+  const stored = settings.providerOptions[provider.id];
+  return {
+    apiKey: settings.apiKey,
+    baseUrl: settings.baseUrl,
+    options: { ...resolveProviderOptions(provider, stored), ...stored },
+  };
+};
+
+const providerNameOf = (id: string): string => getProvider(id)?.name ?? id;
+
 const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
-  const [settings, setSettings] = useState<LlmSettings>(loadLlmSettings());
+  const [settings, setSettings] = useState<LlmProfile>(getActiveLlmProfile()); // The active profile, being edited
+  const [profiles, setProfiles] = useState<LlmProfile[]>(() => loadLlmProfiles().profiles);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const profileFileInputRef = useRef<HTMLInputElement>(null);
+  const [keysUnlocked, setKeysUnlocked] = useState(isApiKeyVaultUnlocked());
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
@@ -22,11 +57,33 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
   const [isFetchingModels, setIsFetchingModels] = useState(false); // State for fetching models
 
 
+  // Keep the profile list current (names change on save, the quick switch in the menu bar)
+  useEffect(() => subscribeLlmProfiles(() => setProfiles(loadLlmProfiles().profiles)), []);
+
+  // API keys can only be entered while unlocked; unlocking fills in the stored key
+  useEffect(() => subscribeApiKeyVault(() => {
+    setKeysUnlocked(isApiKeyVaultUnlocked());
+    setSettings(prev => ({ ...prev, apiKey: getApiKey(prev.id) ?? '' }));
+  }), []);
+
+  // Puts another profile into the form and fetches its models
+  const showProfile = (profile: LlmProfile) => {
+    setSettings(profile);
+    setSaveSuccess(false);
+    setTestStatus('idle');
+    setTestMessage(null);
+    setAvailableModels([]); // Clear models initially
+    // Fetch models for the profile's provider
+    fetchModelsForProvider(profile);
+  };
+
   // Reload settings and fetch models when modal opens
   useEffect(() => {
     if (isOpen) {
-      const currentSettings = loadLlmSettings();
+      const currentSettings = getActiveLlmProfile();
       setSettings(currentSettings);
+      setProfiles(loadLlmProfiles().profiles);
+      setProfileMessage(null);
       setSaveSuccess(false);
       setTestStatus('idle');
       setTestMessage(null);
@@ -37,15 +94,15 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
   }, [isOpen]);
 
   const fetchModelsForProvider = async (currentSettings: LlmSettings) => {
-      // Don't fetch if provider requires API key and it's missing (for OpenAI)
-      if (currentSettings.provider === 'openai' && !currentSettings.apiKey) {
-          console.log("Skipping model fetch for OpenAI: API key missing.");
+      const provider = getProvider(currentSettings.provider);
+      if (!provider?.capabilities.modelList) {
           setAvailableModels([]);
           return;
       }
-       // Don't fetch if provider requires Base URL and it's missing (Ollama/LMStudio)
-      if ((currentSettings.provider === 'ollama' || currentSettings.provider === 'lmstudio') && !currentSettings.baseUrl) {
-          console.log(`Skipping model fetch for ${currentSettings.provider}: Base URL missing.`);
+      // Don't fetch while the provider's settings are incomplete or invalid (e.g. API key or Base URL missing)
+      const errors = validateProviderSettings(provider, providerValuesOf(provider, currentSettings));
+      if (Object.keys(errors).length > 0) {
+          console.log(`Skipping model fetch for ${provider.name}: ${Object.values(errors).join(' ')}`);
           setAvailableModels([]);
           return;
       }
@@ -53,7 +110,7 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
 
       setIsFetchingModels(true);
       setAvailableModels([]); // Clear previous models
-      console.log(`Fetching models for provider: ${currentSettings.provider}`);
+      console.log(`Fetching models for provider: ${provider.name}`);
       // Ensure settings are saved before fetching models, as llmService reads from storage
       saveLlmSettings(currentSettings);
       try {
@@ -62,7 +119,8 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
               setAvailableModels(models);
               console.log("Available models fetched:", models);
               // Auto-select the first model if current selection is invalid or empty
-              if (!currentSettings.model || !models.includes(currentSettings.model)) {
+              // (a typed model name is kept where custom names are allowed, the server may not list it)
+              if (!currentSettings.model || (!provider.capabilities.customModelName && !models.includes(currentSettings.model))) {
                   if (models.length > 0) {
                       setSettings(prev => ({ ...prev, model: models[0] }));
                       console.log(`Auto-selected model: ${models[0]}`);
@@ -71,13 +129,13 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
                   }
               }
           } else {
-              console.warn(`Could not fetch models for ${currentSettings.provider}.`);
-              setTestMessage(`Could not fetch models for ${currentSettings.provider}. Check connection and settings.`);
+              console.warn(`Could not fetch models for ${provider.name}.`);
+              setTestMessage(`Could not fetch models for ${provider.name}. Check connection and settings.`);
               setTestStatus('error'); // Indicate an issue
           }
       } catch (error) {
           console.error("Error fetching models:", error);
-          setTestMessage(`Error fetching models for ${currentSettings.provider}.`);
+          setTestMessage(`Error fetching models for ${provider.name}.`);
           setTestStatus('error');
       } finally {
           setIsFetchingModels(false);
@@ -99,9 +157,20 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleProviderFieldsChange = (values: ProviderFieldValues) => {
+    setSettings(prev => ({
+      ...prev,
+      apiKey: values.apiKey,
+      baseUrl: values.baseUrl,
+      providerOptions: { ...prev.providerOptions, [prev.provider]: values.options },
+    }));
+    setSaveSuccess(false);
+    setTestStatus('idle');
+  };
+
   const handleSave = () => {
     setIsSaving(true);
-    saveLlmSettings(settings);
+    setSettings(saveLlmProfile(settings));
     // Note: llmService will pick up new settings on its next call automatically
     // No need to reinstantiate anything globally here.
     setIsSaving(false);
@@ -109,6 +178,61 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
     // Optionally close modal on save: onClose();
   };
 
+  // Switching discards unsaved changes to the current profile
+  const handleSelectProfile = (id: string) => {
+    setActiveLlmProfile(id);
+    setProfileMessage(null);
+    showProfile(getActiveLlmProfile());
+  };
+
+  const handleNewProfile = () => {
+    // Starts as a copy of the form, so e.g. a second Ollama model only needs the model changed
+    const [profile] = addLlmProfiles([{ ...settings, name: `${settings.name} copy` }]);
+    setActiveLlmProfile(profile.id);
+    setProfileMessage(`Created profile "${profile.name}".`);
+    showProfile(profile);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!window.confirm(`Delete the profile "${settings.name}"?`)) return;
+    if (deleteLlmProfile(settings.id)) {
+      setProfileMessage(`Deleted profile "${settings.name}".`);
+      showProfile(getActiveLlmProfile());
+    }
+  };
+
+  const handleExportProfiles = () => {
+    const data = buildLlmProfileExport(loadLlmProfiles().profiles);
+    downloadFile(JSON.stringify(data, null, 2), 'spell-b00k_llm_profiles.json', 'application/json');
+    setProfileMessage('Exported all profiles. API keys are not included.');
+  };
+
+  const handleImportProfiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        setProfileMessage('The selected file is not valid JSON.');
+        return;
+      }
+      const added = addLlmProfiles(validateLlmProfileExport(data));
+      setProfileMessage(
+        added.length > 0
+          ? `Imported ${added.length} profile(s): ${added.map(profile => profile.name).join(', ')}. Enter their API keys where needed.`
+          : 'The file contains no profiles.'
+      );
+    } catch (error) {
+      console.error("Error importing LLM profiles:", error);
+      setProfileMessage(error instanceof Error ? error.message : 'Failed to import profiles.');
+    } finally {
+      // Clear the file input value so the same file can be selected again
+      event.target.value = '';
+    }
+  };
+
   const handleTestConnection = async () => {
     setTestStatus('testing');
     setTestMessage(null);
@@ -123,13 +247,13 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
 
     if (connectionSuccess) {
         setTestStatus('success');
-        setTestMessage(`Successfully connected to ${settings.provider}.`);
+        setTestMessage(`Successfully connected to ${providerNameOf(settings.provider)}.`);
         console.log("Connection test successful.");
         // Fetch models again after successful test to ensure list is up-to-date
         fetchModelsForProvider(settings);
     } else {
         setTestStatus('error');
-        setTestMessage(`Failed to connect to ${settings.provider}. Check URL/API Key, model name, network access, and Ollama/LMStudio server status.`);
+        setTestMessage(`Failed to connect to ${providerNameOf(settings.provider)}. Check the settings, model name, network access, and server status.`);
         console.error("Connection test failed.");
         setAvailableModels([]); // Clear models on connection failure
     }
@@ -139,9 +263,16 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
     return null;
   }
 
+  const provider = getProvider(settings.provider);
+  const providerValues = provider ? providerValuesOf(provider, settings) : null;
+  const fieldErrors = provider && providerValues ? validateProviderSettings(provider, providerValues) : {};
+  const hasFieldErrors = !provider || Object.keys(fieldErrors).length > 0;
+  // An API key can be added later (e.g. once the keys are unlocked); other invalid fields block saving
+  const blocksSave = !provider || Object.keys(fieldErrors).some(key => key !== 'apiKey');
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
-      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg relative">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg relative max-h-full overflow-y-auto">
         <button
           onClick={onClose}
           className="absolute top-3 right-3 text-gray-400 hover:text-gray-600"
@@ -154,6 +285,82 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
         {/* LLM Configuration Section */}
         <div className="mb-6 border-b pb-4">
           <h3 className="text-lg font-medium mb-3 text-gray-800">LLM Configuration</h3>
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-md">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="profile" className="block text-sm font-medium text-gray-700 mb-1">
+                  Profile
+                </label>
+                <select
+                  id="profile"
+                  value={settings.id}
+                  onChange={(e) => handleSelectProfile(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="profileName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Profile Name
+                </label>
+                <input
+                  type="text"
+                  id="profileName"
+                  name="name"
+                  value={settings.name}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder="e.g. Ollama on the desktop"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <button
+                type="button"
+                onClick={handleNewProfile}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+                title="Create a new profile from the current form"
+              >
+                <Plus size={14} className="mr-1" /> New
+              </button>
+              <button
+                type="button"
+                onClick={handleDeleteProfile}
+                disabled={profiles.length <= 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-red-600 bg-white hover:bg-red-50 disabled:opacity-50 flex items-center"
+                title={profiles.length <= 1 ? 'The last profile cannot be deleted' : 'Delete this profile'}
+              >
+                <Trash2 size={14} className="mr-1" /> Delete
+              </button>
+              <button
+                type="button"
+                onClick={handleExportProfiles}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+                title="Download all profiles as JSON, without API keys"
+              >
+                <Download size={14} className="mr-1" /> Export
+              </button>
+              <button
+                type="button"
+                onClick={() => profileFileInputRef.current?.click()}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+                title="Add profiles from an exported JSON file"
+              >
+                <Upload size={14} className="mr-1" /> Import
+              </button>
+              <input
+                type="file"
+                ref={profileFileInputRef}
+                onChange={handleImportProfiles}
+                accept=".json,application/json"
+                className="hidden"
+              />
+            </div>
+            {profileMessage && <p className="mt-2 text-xs text-gray-600">{profileMessage}</p>}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             <div>
               <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-1">
@@ -166,10 +373,10 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
                 onChange={handleChange}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               >
-                <option value="openai">OpenAI</option>
-                <option value="ollama">Ollama (Local)</option>
-                <option value="lmstudio">LM Studio (Local)</option>
-                {/* Add other providers here */}
+                {listProviders().map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+                {!provider && <option value={settings.provider}>{settings.provider} (not available)</option>}
               </select>
             </div>
             <div>
@@ -177,6 +384,25 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
                 Model Name
               </label>
                <div className="flex items-center space-x-2">
+                 {provider?.capabilities.customModelName ? (
+                   <>
+                     <input
+                       type="text"
+                       id="model"
+                       name="model"
+                       value={settings.model}
+                       onChange={handleChange}
+                       list="provider-models"
+                       className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                       placeholder="Model name"
+                     />
+                     <datalist id="provider-models">
+                       {availableModels.map(modelName => (
+                         <option key={modelName} value={modelName} />
+                       ))}
+                     </datalist>
+                   </>
+                 ) : (
                  <select
                     id="model"
                     name="model"
@@ -198,10 +424,11 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
                         </>
                     )}
                   </select>
+                 )}
                   <button
                     type="button"
                     onClick={() => fetchModelsForProvider(settings)}
-                    disabled={isFetchingModels}
+                    disabled={isFetchingModels || hasFieldErrors || !provider?.capabilities.modelList}
                     className="p-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 disabled:opacity-50"
                     title="Refresh model list"
                   >
@@ -216,47 +443,25 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
                   </button>
                </div>
                <p className="mt-1 text-xs text-gray-500">
-                {settings.provider === 'lmstudio' ? 'Select loaded model from LM Studio.' : 'Select model or type custom.'}
+                {provider?.capabilities.customModelName ? 'Select model or type custom.' : 'Select a model offered by the provider.'}
                </p>
             </div>
           </div>
 
-          {/* Conditional Fields */}
-          {settings.provider === 'openai' && (
-            <div className="mb-4">
-              <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-1">
-                OpenAI API Key
-              </label>
-              <input
-                type="password"
-                id="apiKey"
-                name="apiKey"
-                value={settings.apiKey}
-                onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                placeholder="sk-..."
-              />
-            </div>
-          )}
-
-          {(settings.provider === 'ollama' || settings.provider === 'lmstudio') && (
-            <div className="mb-4">
-              <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
-                {settings.provider === 'ollama' ? 'Ollama' : 'LM Studio'} Base URL
-              </label>
-              <input
-                type="text"
-                id="baseUrl"
-                name="baseUrl"
-                value={settings.baseUrl}
-                onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                placeholder={settings.provider === 'ollama' ? "http://localhost:11434" : "http://localhost:1234/v1"}
-              />
-               <p className="mt-1 text-xs text-gray-500">
-                {settings.provider === 'lmstudio' ? 'Include /v1 in the URL.' : 'Ensure server is running and accessible (check network/CORS).'}
-               </p>
-            </div>
+          {/* Fields declared by the provider */}
+          {provider && providerValues ? (
+            <ProviderFields
+              key={`${settings.id}-${provider.id}`}
+              provider={provider}
+              value={providerValues}
+              onChange={handleProviderFieldsChange}
+              errors={fieldErrors}
+              keysUnlocked={keysUnlocked}
+            />
+          ) : (
+            <p className="mb-4 text-sm text-red-600">
+              The provider "{settings.provider}" is not available. Choose another provider, or load the plugin that provides it.
+            </p>
           )}
 
           {/* Test Connection Button and Status */}
@@ -264,7 +469,7 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
              <button
                 type="button"
                 onClick={handleTestConnection}
-                disabled={testStatus === 'testing'}
+                disabled={testStatus === 'testing' || hasFieldErrors}
                 className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 flex items-center"
               >
                  {testStatus === 'testing' ? (
@@ -288,6 +493,27 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
 
         </div>
 
+        {/* API Key Security Section */}
+        <div className="mb-6 border-b pb-4">
+          <h3 className="text-lg font-medium mb-3 text-gray-800">API Key Security</h3>
+          <ApiKeySecuritySection />
+          <p className="mt-2 text-xs text-gray-500">API keys are never included in saved .db files or exported profiles.</p>
+        </div>
+
+        {/* Generation Parameters Section */}
+        <div className="mb-6 border-b pb-4">
+          <h3 className="text-lg font-medium mb-3 text-gray-800">Generation Parameters</h3>
+          <GenerationParametersEditor
+            idPrefix="options-generation"
+            value={settings.generation}
+            onChange={(generation) => {
+              setSettings(prev => ({ ...prev, generation }));
+              setSaveSuccess(false);
+            }}
+          />
+          <p className="mt-2 text-xs text-gray-500">Projects can override these in their Ebook Parameters.</p>
+        </div>
+
         {/* TODO: Add Prompt Template Section */}
         {/* <div className="mb-6 border-b pb-4"> ... </div> */}
 
@@ -297,7 +523,7 @@ const OptionsModal: React.FC<OptionsModalProps> = ({ isOpen, onClose }) => {
           <button
             type="button"
             onClick={handleSave}
-            disabled={isSaving}
+            disabled={isSaving || blocksSave}
             className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 flex items-center"
           >
             <Save size={16} className="mr-2" />
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Search, BookOpen, MessageSquare, Loader2 } from 'lucide-react';
+import type { SearchHit } from '../../types/models';
+import { searchService, SNIPPET_MATCH_START, SNIPPET_MATCH_END } from '../../services/searchService';
+
+interface SearchModalProps {
+  isOpen: boolean;
+  currentProjectId: number | null; // Enables the "this project only" filter when a project is open
+  onClose: () => void;
+  onSelectHit: (hit: SearchHit) => void;
+}
+
+// Wait until the user pauses typing before querying
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Renders a snippet with its marked matches highlighted
+const Snippet: React.FC<{ text: string }> = ({ text }) => {
+  const parts = text.split(SNIPPET_MATCH_START);
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <React.Fragment key={index}>{part}</React.Fragment>;
+        const [match, rest = ''] = part.split(SNIPPET_MATCH_END);
+        return (
+          <React.Fragment key={index}>
+            <mark className="bg-yellow-200 rounded px-0.5">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+const SearchModal: React.FC<SearchModalProps> = ({ isOpen, currentProjectId, onClose, onSelectHit }) => {
+  const [query, setQuery] = useState('');
+  const [currentProjectOnly, setCurrentProjectOnly] = useState(false);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!query.trim()) {
+      setHits([]);
+      setIsSearching(false);
+      return;
+    }
+    let cancelled = false; // Ignore results of queries that were superseded while running
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const projectId = currentProjectOnly && currentProjectId !== null ? currentProjectId : undefined;
+      const results = await searchService.search(query, { projectId });
+      if (!cancelled) {
+        setHits(results);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, currentProjectOnly, currentProjectId]);
+
+  const handleSelect = (hit: SearchHit) => {
+    onSelectHit(hit);
+    onClose();
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-start p-4 pt-24" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl relative" onClick={e => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-700"
+          aria-label="Close modal"
+        >
+          <X size={24} />
+        </button>
+        <h2 className="text-xl font-semibold mb-4">Search</h2>
+
+        <div className="relative mb-2">
+          <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+            placeholder='Search chapters and chat (use "quotes" for phrases, word* for prefixes)'
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 pl-10"
+          />
+        </div>
+        <label className="flex items-center text-sm text-gray-600 mb-4">
+          <input
+            type="checkbox"
+            checked={currentProjectOnly && currentProjectId !== null}
+            onChange={e => setCurrentProjectOnly(e.target.checked)}
+            disabled={currentProjectId === null}
+            className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Current project only
+        </label>
+
+        <ul className="max-h-[50vh] overflow-y-auto divide-y divide-gray-200 border rounded">
+          {isSearching && hits.length === 0 && (
+            <li className="p-3 text-sm text-gray-600 flex items-center"><Loader2 size={16} className="animate-spin mr-2" /> Searching...</li>
+          )}
+          {!isSearching && query.trim() && hits.length === 0 && (
+            <li className="p-3 text-sm text-gray-600">No matches.</li>
+          )}
+          {hits.map(hit => (
+            <li key={`${hit.kind}-${hit.messageId ?? hit.chapterId}`}>
+              <button onClick={() => handleSelect(hit)} className="w-full text-left p-3 hover:bg-gray-50">
+                <span className="flex items-center text-sm font-medium text-gray-900">
+                  {hit.kind === 'chapter'
+                    ? <BookOpen size={14} className="mr-2 text-blue-600 flex-shrink-0" />
+                    : <MessageSquare size={14} className="mr-2 text-yellow-600 flex-shrink-0" />}
+                  <span className="truncate">{hit.kind === 'chapter' ? hit.title : `Chat (${hit.title})`}</span>
+                  <span className="ml-auto pl-2 text-xs text-gray-500 flex-shrink-0">{hit.projectName}</span>
+                </span>
+                <span className="block text-sm text-gray-600 mt-1 break-words">
+                  <Snippet text={hit.snippet} />
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SearchModal;
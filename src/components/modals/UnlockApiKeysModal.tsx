@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Unlock, Loader2, KeyRound } from 'lucide-react';
+import { unlockApiKeyVault } from '../../lib/apiKeyVault';
+
+interface UnlockApiKeysModalProps {
+  isOpen: boolean;
+  onClose: () => void; // Called after unlocking or when the user continues without keys
+}
+
+// Asked once per session when API keys are stored encrypted
+const UnlockApiKeysModal: React.FC<UnlockApiKeysModalProps> = ({ isOpen, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await unlockApiKeyVault(passphrase);
+    setIsUnlocking(false);
+    if (unlocked) {
+      setPassphrase('');
+      onClose();
+    } else {
+      setError('Wrong passphrase.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <form onSubmit={handleUnlock} className="bg-white rounded-lg shadow-xl p-6 w-full max-w-sm">
+        <h2 className="text-xl font-semibold mb-2 flex items-center">
+          <KeyRound size={20} className="mr-2" /> Unlock API Keys
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Your API keys are encrypted. Enter your passphrase to use them in this session.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+        />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            title="Local providers work without API keys; keys can be unlocked later in the options"
+          >
+            Skip
+          </button>
+          <button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            {isUnlocking ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Unlock size={16} className="mr-2" />}
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockApiKeysModal;
@@ -0,0 +1,306 @@
+import { zipSync, strToU8 } from 'fflate';
+import { lexer, type Token, type Tokens } from 'marked';
+import type { ExportInput, ManuscriptExporter } from './types';
+import { chapterBody, chapterText, hasHeading, sectionHeadings } from './manuscriptText';
+import { decodeEntities, escapeXml } from './markdownHtml';
+
+// Office Open XML (Word) package: the main document, its styles, the optional comments part and
+// the relationships tying them together. Chapter headings use the built-in Heading 1 style, which
+// starts a new page and feeds Word's navigation pane and generated tables of contents.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const COMMENT_AUTHOR = 'Spell-b00k';
+const LIST_INDENT = 360; // Twentieths of a point, per list level
+
+const STYLES_XML = (language: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="${escapeXml(language)}"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="480"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="480"/><w:jc w:val="center"/></w:pPr><w:rPr><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="1200" w:after="480"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/><w:szCs w:val="30"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading4"><w:name w:val="heading 4"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="3"/></w:pPr><w:rPr><w:b/><w:i/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="SourceCode"><w:name w:val="Source Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="Dedication"><w:name w:val="Dedication"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/><w:jc w:val="center"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="SceneBreak"><w:name w:val="Scene Break"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:before="240" w:after="240"/><w:jc w:val="center"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="CommentText"><w:name w:val="annotation text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="CommentReference"><w:name w:val="annotation reference"/><w:rPr><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="VerbatimChar"><w:name w:val="Verbatim Char"/><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+  <w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>
+`;
+
+// A4 with one-inch margins, in twentieths of a point
+const SECTION_PROPERTIES = '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
+const TEXT_WIDTH = 11906 - 2 * 1440;
+
+// Inline formatting of a run
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+// Text as Word runs; line breaks and tabs become their own elements
+const textRun = (text: string, style: RunStyle = {}): string => {
+  const properties = [
+    style.link ? '<w:rStyle w:val="Hyperlink"/>' : style.code ? '<w:rStyle w:val="VerbatimChar"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+  ].join('');
+  const content = text
+    .split(/(\n|\t)/)
+    .filter(part => part !== '')
+    .map(part => (part === '\n' ? '<w:br/>' : part === '\t' ? '<w:tab/>' : `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`))
+    .join('');
+  return content ? `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>` : '';
+};
+
+const paragraph = (runs: string, properties = ''): string => `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+
+const styled = (styleId: string, extra = ''): string => `<w:pStyle w:val="${styleId}"/>${extra}`;
+
+/**
+ * Builds the files of a Word document: a title page from the project and its book metadata, then
+ * each chapter under a Heading 1 on a new page. Dedications get a page of centred lines without
+ * a heading. With `docxDescriptionComments`, chapter descriptions are attached to the chapter
+ * headings as comments instead of standing in for empty chapters.
+ * @param input - The project, its chapters sorted by order, and its book metadata.
+ * @returns Paths inside the archive mapped to file contents.
+ */
+export function buildDocxFiles({ project, chapters, metadata, options }: ExportInput): Record<string, Uint8Array> {
+  const withComments = options?.docxDescriptionComments ?? false;
+  const headings = sectionHeadings(chapters);
+  const relationships = [
+    `<Relationship Id="rIdStyles" Type="${REL_TYPE}/styles" Target="styles.xml"/>`,
+  ];
+  const hyperlinks = new Map<string, string>();
+  const comments: string[] = [];
+
+  const hyperlinkId = (href: string): string => {
+    let id = hyperlinks.get(href);
+    if (!id) {
+      id = `rIdLink${hyperlinks.size + 1}`;
+      hyperlinks.set(href, id);
+      relationships.push(`<Relationship Id="${id}" Type="${REL_TYPE}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`);
+    }
+    return id;
+  };
+
+  const inlineXml = (tokens: Token[] | undefined, style: RunStyle = {}): string =>
+    (tokens ?? []).map((token): string => {
+      switch (token.type) {
+        case 'strong':
+          return inlineXml(token.tokens, { ...style, bold: true });
+        case 'em':
+          return inlineXml(token.tokens, { ...style, italic: true });
+        case 'del':
+          return inlineXml(token.tokens, { ...style, strike: true });
+        case 'link':
+          // Only absolute links are kept; relative ones would point at files that are not exported
+          return /^(https?:|mailto:)/i.test(token.href)
+            ? `<w:hyperlink r:id="${hyperlinkId(token.href)}">${inlineXml(token.tokens, { ...style, link: true })}</w:hyperlink>`
+            : inlineXml(token.tokens, style);
+        case 'codespan':
+          return textRun(decodeEntities(token.text), { ...style, code: true });
+        case 'br':
+          return textRun('\n', style);
+        case 'html':
+          return textRun(token.raw, style);
+        case 'text':
+          return token.tokens ? inlineXml(token.tokens, style) : textRun(decodeEntities(token.text), style);
+        default:
+          // Escapes, images (their description) and anything else that carries text
+          return textRun(decodeEntities('text' in token && typeof token.text === 'string' ? token.text : token.raw), style);
+      }
+    }).join('');
+
+  // `level` is the list nesting depth; `quote` is set inside block quotes
+  const blocksXml = (tokens: Token[], level = 0, quote = false): string[] => {
+    const indent = level > 0 ? `<w:ind w:left="${LIST_INDENT * level + (quote ? 720 : 0)}" w:hanging="${LIST_INDENT}"/>` : '';
+    const bodyStyle = quote ? styled('Quote', indent) : level > 0 ? styled('ListParagraph', indent) : '';
+    const xml: string[] = [];
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'paragraph':
+        case 'text':
+          xml.push(paragraph(token.tokens ? inlineXml(token.tokens) : textRun(decodeEntities(token.text)), bodyStyle));
+          break;
+        case 'heading':
+          xml.push(paragraph(inlineXml(token.tokens), styled(`Heading${Math.min(Math.max(token.depth, 2), 4)}`)));
+          break;
+        case 'code':
+          xml.push(paragraph(textRun(token.text), styled('SourceCode', indent)));
+          break;
+        case 'hr':
+          xml.push(paragraph(textRun('* * *'), styled('SceneBreak')));
+          break;
+        case 'blockquote':
+          xml.push(...blocksXml(token.tokens ?? [], level, true));
+          break;
+        case 'list':
+          token.items.forEach((item: Tokens.ListItem, index: number) => {
+            // Task list items show their checkbox in place of the bullet
+            const marker = item.task ? (item.checked ? '\u2612' : '\u2610') : token.ordered ? `${(Number(token.start) || 1) + index}.` : '•';
+            const itemXml = blocksXml(item.tokens, level + 1, quote);
+            const markerRun = textRun(`${marker}\t`);
+            // The marker goes in front of the item's first paragraph, after its properties
+            if (itemXml[0]?.startsWith('<w:p>')) {
+              itemXml[0] = itemXml[0].replace(/^(<w:p>(?:<w:pPr>.*?<\/w:pPr>)?)/, `$1${markerRun}`);
+            } else {
+              itemXml.unshift(paragraph(markerRun, styled('ListParagraph', `<w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="${LIST_INDENT}"/>`)));
+            }
+            xml.push(...itemXml);
+          });
+          break;
+        case 'table': {
+          const columnWidth = Math.floor(TEXT_WIDTH / Math.max(token.header.length, 1));
+          const row = (cells: { tokens: Token[] }[], header: boolean): string =>
+            `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells
+              .map((cell, index) => {
+                const align = token.align[index];
+                const jc = align ? `<w:jc w:val="${align === 'right' ? 'right' : align === 'center' ? 'center' : 'left'}"/>` : '';
+                return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/></w:tcPr>${paragraph(inlineXml(cell.tokens, { bold: header }), `<w:spacing w:after="0"/>${jc}`)}</w:tc>`;
+              })
+              .join('')}</w:tr>`;
+          xml.push(`<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${
+            token.header.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')
+          }</w:tblGrid>${row(token.header, true)}${token.rows.map((cells: { tokens: Token[] }[]) => row(cells, false)).join('')}</w:tbl>`);
+          // Word expects a paragraph between consecutive tables
+          xml.push(paragraph('', '<w:spacing w:after="0"/>'));
+          break;
+        }
+        case 'html':
+          if (token.raw.trim()) xml.push(paragraph(textRun(token.raw.trim()), bodyStyle));
+          break;
+        default:
+          break; // Blank lines and link definitions
+      }
+    }
+    return xml;
+  };
+
+  const body: string[] = [paragraph(textRun(project.name), styled('Title'))];
+  if (metadata.author) body.push(paragraph(textRun(metadata.author), styled('Subtitle')));
+  if (project.description?.trim()) body.push(paragraph(textRun(project.description.trim(), { italic: true }), '<w:jc w:val="center"/>'));
+  if (metadata.publisher) body.push(paragraph(textRun(metadata.publisher), '<w:spacing w:before="1440"/><w:jc w:val="center"/>'));
+
+  // Anchors a comment with the description to the runs, if descriptions are exported as comments
+  const commented = (runs: string, description: string): string => {
+    if (!withComments || !description) return runs;
+    const id = comments.length;
+    const noteParagraphs = description.split(/\n+/).map((line, lineIndex) =>
+      paragraph(
+        `${lineIndex === 0 ? '<w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:annotationRef/></w:r>' : ''}${textRun(line)}`,
+        styled('CommentText'),
+      ));
+    comments.push(`<w:comment w:id="${id}" w:author="${COMMENT_AUTHOR}" w:initials="SB">${noteParagraphs.join('')}</w:comment>`);
+    return `<w:commentRangeStart w:id="${id}"/>${runs}<w:commentRangeEnd w:id="${id}"/><w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:commentReference w:id="${id}"/></w:r>`;
+  };
+
+  chapters.forEach((chapter, index) => {
+    const description = chapter.description.trim();
+    // With comments, the description is attached to the heading instead
+    const text = withComments ? chapterText(chapter, headings[index]) : chapterBody(chapter, headings[index]);
+    if (!hasHeading(chapter)) {
+      const lines = lexer(text).flatMap(token => (token.type === 'paragraph' ? [inlineXml(token.tokens)] : []));
+      if (lines.length === 0) lines.push('');
+      lines.forEach((runs, lineIndex) => {
+        body.push(lineIndex === 0
+          ? paragraph(commented(runs, description), styled('Dedication', '<w:pageBreakBefore/><w:spacing w:before="2880" w:after="240"/>'))
+          : paragraph(runs, styled('Dedication')));
+      });
+      return;
+    }
+    body.push(paragraph(commented(textRun(headings[index]), description), styled('Heading1')));
+    if (text) body.push(...blocksXml(lexer(text)));
+  });
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}">
+<w:body>
+${body.join('\n')}
+${SECTION_PROPERTIES}
+</w:body>
+</w:document>
+`;
+
+  const overrides = [
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+  ];
+  const files: Record<string, Uint8Array> = {
+    'word/document.xml': strToU8(documentXml),
+    'word/styles.xml': strToU8(STYLES_XML(metadata.language)),
+  };
+  if (comments.length > 0) {
+    files['word/comments.xml'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:comments xmlns:w="${W_NS}">
+${comments.join('\n')}
+</w:comments>
+`);
+    overrides.push('<Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>');
+    relationships.push(`<Relationship Id="rIdComments" Type="${REL_TYPE}/comments" Target="comments.xml"/>`);
+  }
+
+  const created = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const coreProperties = [
+    `<dc:title>${escapeXml(project.name)}</dc:title>`,
+    `<dc:language>${escapeXml(metadata.language)}</dc:language>`,
+  ];
+  if (metadata.author) coreProperties.push(`<dc:creator>${escapeXml(metadata.author)}</dc:creator>`);
+  if (project.description?.trim()) coreProperties.push(`<dc:description>${escapeXml(project.description.trim())}</dc:description>`);
+  coreProperties.push(`<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`);
+  coreProperties.push(`<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>`);
+
+  files['docProps/core.xml'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  ${coreProperties.join('\n  ')}
+</cp:coreProperties>
+`);
+  files['word/_rels/document.xml.rels'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}">
+  ${relationships.join('\n  ')}
+</Relationships>
+`);
+  files['_rels/.rels'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}">
+  <Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`);
+  files['[Content_Types].xml'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  ${overrides.join('\n  ')}
+</Types>
+`);
+  return files;
+}
+
+export const docxExporter: ManuscriptExporter = {
+  label: 'Word document (.docx)',
+  extension: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+
+  async export(input: ExportInput): Promise<Uint8Array> {
+    return zipSync(buildDocxFiles(input));
+  },
+};
@@ -0,0 +1,217 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import type { Project, SectionKind } from '../types/models';
+import type { ExportInput, ManuscriptExporter } from './types';
+import { chapterBody, contentsPosition, hasHeading, sectionHeadings } from './manuscriptText';
+import { escapeXml, renderMarkdownToXhtml } from './markdownHtml';
+
+// EPUB 3 package layout: the `mimetype` file first and uncompressed, the container pointing
+// at the package document, and all content below OEBPS/.
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 2em 0 1em; page-break-before: always; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, h2 + p, h3 + p, hr + p { text-indent: 0; }
+hr { border: none; text-align: center; margin: 1.5em 0; }
+hr::after { content: "* * *"; }
+blockquote { margin: 1em 2em; font-style: italic; }
+pre { white-space: pre-wrap; font-size: 0.9em; }
+.titlepage { text-align: center; margin-top: 30%; }
+.titlepage h1 { font-size: 2em; page-break-before: avoid; }
+.titlepage .author { font-size: 1.3em; margin-top: 1em; text-indent: 0; }
+.titlepage .publisher { margin-top: 4em; text-indent: 0; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-width: 100%; max-height: 100%; }
+.dedication { text-align: center; font-style: italic; margin-top: 30%; }
+.dedication p { text-indent: 0; margin-bottom: 0.5em; }
+nav ol { list-style: none; padding: 0; }
+`;
+
+export const COVER_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+};
+
+// Structural semantics (epub:type) and DPUB-ARIA role of each section kind; there is no
+// dedicated term for an "About the Author" page, so it is only marked as back matter
+const SECTION_SEMANTICS: Record<SectionKind, { type: string; role?: string }> = {
+  dedication: { type: 'dedication', role: 'doc-dedication' },
+  foreword: { type: 'foreword', role: 'doc-foreword' },
+  preface: { type: 'preface', role: 'doc-preface' },
+  chapter: { type: 'chapter', role: 'doc-chapter' },
+  epilogue: { type: 'epilogue', role: 'doc-epilogue' },
+  acknowledgements: { type: 'acknowledgments', role: 'doc-acknowledgments' },
+  appendix: { type: 'appendix', role: 'doc-appendix' },
+  'about-the-author': { type: 'backmatter' },
+};
+
+const chapterFileName = (index: number): string => `chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+
+// Wraps body content in an XHTML content document
+const xhtmlDocument = (title: string, language: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+// Name-based UUID (version 5 layout) derived from the project, so re-exports of the same project
+// keep their identifier and reading apps treat them as the same book
+const projectUuid = async (project: Project): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', strToU8(`spell-b00k:${project.id}:${project.createdAt}`)));
+  const bytes = digest.slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Builds the files of an EPUB 3 package: cover (if set), title page, navigation document and one
+ * XHTML document per chapter, with the package document listing them in chapter order. Opening
+ * dedications come before the navigation document; sections carry their front/back matter semantics.
+ * @param input - The project, its chapters sorted by order, and its book metadata.
+ * @returns Paths inside the archive mapped to file contents, `mimetype` first.
+ */
+export async function buildEpubFiles({ project, chapters, metadata }: ExportInput): Promise<Record<string, Uint8Array>> {
+  const language = metadata.language;
+  const title = project.name;
+  const identifier = metadata.isbn ? `urn:isbn:${metadata.isbn}` : `urn:uuid:${await projectUuid(project)}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const headings = sectionHeadings(chapters);
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+  ];
+  const spine: string[] = [];
+  const content: Record<string, string | Uint8Array> = {};
+
+  const coverExtension = metadata.coverMimeType ? COVER_EXTENSIONS[metadata.coverMimeType] : undefined;
+  if (metadata.coverImage && coverExtension) {
+    const coverPath = `images/cover.${coverExtension}`;
+    content[coverPath] = metadata.coverImage;
+    manifest.push(`<item id="cover-image" href="${coverPath}" media-type="${metadata.coverMimeType}" properties="cover-image"/>`);
+    manifest.push('<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="cover"/>');
+    content['cover.xhtml'] = xhtmlDocument(title, language, `<section class="cover" epub:type="cover">
+<img src="${coverPath}" alt="${escapeXml(title)}" role="doc-cover"/>
+</section>`);
+  }
+
+  const titlePage = [`<h1 epub:type="title">${escapeXml(title)}</h1>`];
+  if (metadata.author) titlePage.push(`<p class="author">${escapeXml(metadata.author)}</p>`);
+  if (metadata.publisher) titlePage.push(`<p class="publisher">${escapeXml(metadata.publisher)}</p>`);
+  content['title.xhtml'] = xhtmlDocument(title, language, `<section class="titlepage" epub:type="titlepage">
+${titlePage.join('\n')}
+</section>`);
+  manifest.push('<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>');
+  spine.push('<itemref idref="title-page"/>');
+
+  const contentsAt = contentsPosition(chapters);
+  chapters.forEach((chapter, index) => {
+    const fileName = chapterFileName(index);
+    const id = fileName.replace('.xhtml', '');
+    const body = chapterBody(chapter, headings[index]);
+    const { type, role } = SECTION_SEMANTICS[chapter.kind];
+    const heading = hasHeading(chapter) ? `<h1>${escapeXml(headings[index])}</h1>\n` : '';
+    content[fileName] = xhtmlDocument(headings[index], language, `<section${hasHeading(chapter) ? '' : ' class="dedication"'} epub:type="${type}"${role ? ` role="${role}"` : ''}>
+${heading}${body ? renderMarkdownToXhtml(body) : ''}</section>`);
+    manifest.push(`<item id="${id}" href="${fileName}" media-type="application/xhtml+xml"/>`);
+    if (index === contentsAt) spine.push('<itemref idref="nav"/>');
+    spine.push(`<itemref idref="${id}"/>`);
+  });
+  if (contentsAt === chapters.length) spine.push('<itemref idref="nav"/>');
+
+  // The table of contents must not be empty; a book without listed sections lists its title page
+  const listed = chapters.map((chapter, index) => ({ chapter, index })).filter(({ chapter }) => hasHeading(chapter));
+  const tocEntries = listed.length > 0
+    ? listed.map(({ index }) => `<li><a href="${chapterFileName(index)}">${escapeXml(headings[index])}</a></li>`)
+    : [`<li><a href="title.xhtml">${escapeXml(title)}</a></li>`];
+  const landmarks = [`<li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>`];
+  if (content['cover.xhtml']) landmarks.unshift('<li><a epub:type="cover" href="cover.xhtml">Cover</a></li>');
+  landmarks.push('<li><a epub:type="toc" href="nav.xhtml">Contents</a></li>');
+  // Reading starts at the first chapter, after the front matter
+  const bodyStart = chapters.findIndex(chapter => chapter.kind === 'chapter');
+  const startIndex = bodyStart === -1 ? contentsAt : bodyStart;
+  if (startIndex < chapters.length) landmarks.push(`<li><a epub:type="bodymatter" href="${chapterFileName(startIndex)}">Start of Content</a></li>`);
+  content['nav.xhtml'] = xhtmlDocument('Contents', language, `<nav epub:type="toc" id="toc" role="doc-toc">
+<h1>Contents</h1>
+<ol>
+${tocEntries.join('\n')}
+</ol>
+</nav>
+<nav epub:type="landmarks" id="landmarks" hidden="hidden">
+<ol>
+${landmarks.join('\n')}
+</ol>
+</nav>`);
+  content['styles.css'] = STYLESHEET;
+
+  const dcMetadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+  ];
+  if (metadata.author) dcMetadata.push(`<dc:creator>${escapeXml(metadata.author)}</dc:creator>`);
+  if (metadata.publisher) dcMetadata.push(`<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`);
+  if (project.description?.trim()) dcMetadata.push(`<dc:description>${escapeXml(project.description.trim())}</dc:description>`);
+  dcMetadata.push(`<meta property="dcterms:modified">${modified}</meta>`);
+  // EPUB 2 readers find the cover through this element
+  if (content['cover.xhtml']) dcMetadata.push('<meta name="cover" content="cover-image"/>');
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${dcMetadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+
+  const files: Record<string, Uint8Array> = {
+    mimetype: strToU8('application/epub+zip'),
+    'META-INF/container.xml': strToU8(CONTAINER_XML),
+    'OEBPS/content.opf': strToU8(packageDocument),
+  };
+  for (const [path, data] of Object.entries(content)) {
+    files[`OEBPS/${path}`] = typeof data === 'string' ? strToU8(data) : data;
+  }
+  return files;
+}
+
+export const epubExporter: ManuscriptExporter = {
+  label: 'EPUB 3 ebook (.epub)',
+  extension: 'epub',
+  mimeType: 'application/epub+zip',
+
+  async export(input: ExportInput): Promise<Uint8Array> {
+    const files = await buildEpubFiles(input);
+    const archive: Zippable = {};
+    for (const [path, data] of Object.entries(files)) {
+      // Readers identify the file by the uncompressed `mimetype` entry at the start of the archive
+      archive[path] = path === 'mimetype' ? [data, { level: 0 }] : data;
+    }
+    return zipSync(archive);
+  },
+};
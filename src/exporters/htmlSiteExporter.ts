@@ -0,0 +1,192 @@
+import { zipSync, strToU8 } from 'fflate';
+import type { ExportInput, ManuscriptExporter } from './types';
+import { chapterBody, hasHeading, sectionHeadings } from './manuscriptText';
+import { decodeEntities, escapeXml, renderMarkdownToXhtml } from './markdownHtml';
+import { COVER_EXTENSIONS } from './epubExporter';
+
+// A static website that works from any web server or straight from disk: an index page with the
+// table of contents, one page per chapter with previous/next links, and a shared stylesheet.
+// Dedications have no page of their own; they are shown on the index page.
+// The search index is a script rather than JSON, since pages opened from disk cannot fetch files.
+
+const STYLESHEET = `:root { --text: #222; --muted: #666; --accent: #3b5bdb; --rule: #ddd; }
+* { box-sizing: border-box; }
+body { margin: 0; color: var(--text); background: #fdfdfb; font: 1.125rem/1.7 Georgia, "Times New Roman", serif; }
+main, .site-header, .chapter-nav { max-width: 42rem; margin: 0 auto; padding: 0 1.25rem; }
+.site-header { padding-top: 1.5rem; font-size: 0.95rem; }
+.site-header a { color: var(--muted); text-decoration: none; }
+h1 { line-height: 1.25; margin: 2rem 0 1.5rem; }
+a { color: var(--accent); }
+blockquote { margin: 1.5rem 0; padding-left: 1rem; border-left: 3px solid var(--rule); font-style: italic; }
+pre { overflow-x: auto; padding: 0.75rem; background: #f3f3f0; font-size: 0.9rem; }
+code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+hr { border: none; text-align: center; margin: 2rem 0; }
+hr::after { content: "* * *"; color: var(--muted); }
+table { border-collapse: collapse; margin: 1.5rem 0; }
+th, td { border: 1px solid var(--rule); padding: 0.25rem 0.75rem; }
+.book-title { text-align: center; margin-top: 3rem; }
+.author { text-align: center; font-size: 1.25rem; color: var(--muted); margin-top: -0.75rem; }
+.description { font-style: italic; }
+.dedication { text-align: center; font-style: italic; margin: 2.5rem 0; }
+.cover { display: block; max-width: 16rem; margin: 2rem auto; box-shadow: 0 2px 12px rgba(0, 0, 0, 0.2); }
+.toc { padding-left: 1.5rem; }
+.toc li { margin: 0.35rem 0; }
+.chapter-nav { display: flex; justify-content: space-between; gap: 1rem; padding-top: 1.5rem; padding-bottom: 2.5rem; border-top: 1px solid var(--rule); margin-top: 2.5rem; font-size: 0.95rem; }
+.chapter-nav .next { margin-left: auto; text-align: right; }
+.search input { width: 100%; padding: 0.5rem 0.75rem; font: inherit; border: 1px solid var(--rule); border-radius: 4px; }
+.search-results { list-style: none; padding: 0; }
+.search-results li { margin: 1rem 0; }
+.search-results p { margin: 0.25rem 0 0; font-size: 0.95rem; color: var(--muted); }
+.publisher { text-align: center; color: var(--muted); margin: 3rem 0; }
+`;
+
+// Runs on the index page against the `SEARCH_INDEX` entries ({ title, url, text }) from search-index.js
+const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById('search-input');
+  var results = document.getElementById('search-results');
+  if (!input || !results || !window.SEARCH_INDEX) return;
+  input.addEventListener('input', function () {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.textContent = '';
+    if (terms.length === 0) return;
+    window.SEARCH_INDEX.forEach(function (entry) {
+      var haystack = (entry.title + ' ' + entry.text).toLowerCase();
+      if (!terms.every(function (term) { return haystack.indexOf(term) !== -1; })) return;
+      var at = entry.text.toLowerCase().indexOf(terms[0]);
+      var start = Math.max(0, at - 60);
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href = entry.url;
+      link.textContent = entry.title;
+      item.appendChild(link);
+      if (at !== -1) {
+        var snippet = document.createElement('p');
+        snippet.textContent = (start > 0 ? '\\u2026' : '') + entry.text.slice(start, at + 140) + (at + 140 < entry.text.length ? '\\u2026' : '');
+        item.appendChild(snippet);
+      }
+      results.appendChild(item);
+    });
+    if (!results.firstChild) {
+      var none = document.createElement('li');
+      none.textContent = 'No chapters found.';
+      results.appendChild(none);
+    }
+  });
+})();
+`;
+
+const chapterPageName = (index: number): string => `chapter-${String(index + 1).padStart(3, '0')}.html`;
+
+const htmlPage = (title: string, language: string, body: string, scripts: string[] = []): string => `<!DOCTYPE html>
+<html lang="${escapeXml(language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="style.css">
+</head>
+<body>
+${body}
+${scripts.map(src => `<script src="${src}"></script>\n`).join('')}</body>
+</html>
+`;
+
+// Plain text of rendered chapter HTML, for the search index
+const htmlToText = (html: string): string => decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds the files of a static website for a project: `index.html` with the title page and table
+ * of contents, one page per chapter with previous/next navigation, `style.css`, the cover image (if
+ * set) and, with `htmlSearchIndex`, a client-side search over the chapter text.
+ * @param input - The project, its chapters sorted by order, and its book metadata.
+ * @returns Paths inside the archive mapped to file contents.
+ */
+export function buildHtmlSiteFiles({ project, chapters, metadata, options }: ExportInput): Record<string, Uint8Array> {
+  const withSearch = options?.htmlSearchIndex ?? false;
+  const language = metadata.language;
+  const title = project.name;
+  const headings = sectionHeadings(chapters);
+  const pages = chapters
+    .map((chapter, index) => ({ chapter, heading: headings[index] }))
+    .filter(({ chapter }) => hasHeading(chapter));
+  const files: Record<string, Uint8Array> = {
+    'style.css': strToU8(STYLESHEET),
+  };
+  const searchIndex: { title: string; url: string; text: string }[] = [];
+
+  const header = `<header class="site-header"><a href="index.html">${escapeXml(title)}</a></header>`;
+
+  pages.forEach(({ chapter, heading }, index) => {
+    const body = chapterBody(chapter, heading);
+    const html = body ? renderMarkdownToXhtml(body) : '';
+    const links: string[] = [];
+    if (index > 0) {
+      links.push(`<a class="previous" href="${chapterPageName(index - 1)}" rel="prev">&larr; ${escapeXml(pages[index - 1].heading)}</a>`);
+    }
+    if (index < pages.length - 1) {
+      links.push(`<a class="next" href="${chapterPageName(index + 1)}" rel="next">${escapeXml(pages[index + 1].heading)} &rarr;</a>`);
+    } else {
+      links.push('<a class="next" href="index.html">Contents</a>');
+    }
+    files[chapterPageName(index)] = strToU8(htmlPage(`${heading} – ${title}`, language, `${header}
+<main>
+<article>
+<h1>${escapeXml(heading)}</h1>
+${html}</article>
+</main>
+<nav class="chapter-nav">${links.join('')}</nav>`));
+    if (withSearch) searchIndex.push({ title: heading, url: chapterPageName(index), text: htmlToText(html) });
+  });
+
+  const index: string[] = [];
+  const coverExtension = metadata.coverMimeType ? COVER_EXTENSIONS[metadata.coverMimeType] : undefined;
+  if (metadata.coverImage && coverExtension) {
+    files[`images/cover.${coverExtension}`] = metadata.coverImage;
+    index.push(`<img class="cover" src="images/cover.${coverExtension}" alt="${escapeXml(title)}">`);
+  }
+  index.push(`<h1 class="book-title">${escapeXml(title)}</h1>`);
+  if (metadata.author) index.push(`<p class="author">${escapeXml(metadata.author)}</p>`);
+  if (project.description?.trim()) index.push(`<p class="description">${escapeXml(project.description.trim())}</p>`);
+  chapters.forEach((chapter, chapterIndex) => {
+    if (hasHeading(chapter)) return;
+    const body = chapterBody(chapter, headings[chapterIndex]);
+    if (body) index.push(`<section class="dedication">\n${renderMarkdownToXhtml(body)}</section>`);
+  });
+  if (withSearch && pages.length > 0) {
+    index.push(`<section class="search">
+<label for="search-input">Search the chapters</label>
+<input type="search" id="search-input" autocomplete="off">
+<ul class="search-results" id="search-results" aria-live="polite"></ul>
+</section>`);
+  }
+  if (pages.length > 0) {
+    index.push(`<nav aria-label="Contents">
+<h2>Contents</h2>
+<ol class="toc">
+${pages.map(({ heading }, pageIndex) => `<li><a href="${chapterPageName(pageIndex)}">${escapeXml(heading)}</a></li>`).join('\n')}
+</ol>
+</nav>`);
+  }
+  if (metadata.publisher) index.push(`<p class="publisher">${escapeXml(metadata.publisher)}</p>`);
+
+  const scripts: string[] = [];
+  if (withSearch && pages.length > 0) {
+    files['search-index.js'] = strToU8(`window.SEARCH_INDEX = ${JSON.stringify(searchIndex)};\n`);
+    files['search.js'] = strToU8(SEARCH_SCRIPT);
+    scripts.push('search-index.js', 'search.js');
+  }
+  files['index.html'] = strToU8(htmlPage(title, language, `<main>
+${index.join('\n')}
+</main>`, scripts));
+  return files;
+}
+
+export const htmlSiteExporter: ManuscriptExporter = {
+  label: 'Static website (.zip)',
+  extension: 'zip',
+  mimeType: 'application/zip',
+
+  async export(input: ExportInput): Promise<Uint8Array> {
+    return zipSync(buildHtmlSiteFiles(input));
+  },
+};
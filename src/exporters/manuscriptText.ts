@@ -0,0 +1,59 @@
+// src/exporters/manuscriptText.ts
+import type { Chapter } from '../types/models';
+import { SECTION_KINDS } from '../lib/sectionKinds';
+
+// Chapter text preparation shared by all exporters
+
+// Heading of each section: its title, or while untitled "Chapter N" (counting body chapters only)
+// or the name of its kind, e.g. "Preface"
+export const sectionHeadings = (chapters: Chapter[]): string[] => {
+  let chapterNumber = 0;
+  return chapters.map(chapter => {
+    if (chapter.kind === 'chapter') chapterNumber++;
+    return chapter.title.trim() || (chapter.kind === 'chapter' ? `Chapter ${chapterNumber}` : SECTION_KINDS[chapter.kind].label);
+  });
+};
+
+// Dedications are set without a heading and left out of tables of contents
+export const hasHeading = (chapter: Chapter): boolean => chapter.kind !== 'dedication';
+
+// Index of the section the table of contents goes in front of: dedications opening the book come before it
+export const contentsPosition = (chapters: Chapter[]): number => {
+  const index = chapters.findIndex(chapter => chapter.kind !== 'dedication');
+  return index === -1 ? chapters.length : index;
+};
+
+// Chapter text may contain its own headings; push them one level down so that `#` stays reserved
+// for chapter headings. Lines inside fenced code blocks are left alone.
+const demoteHeadings = (text: string): string => {
+  let fence: string | null = null;
+  return text
+    .split('\n')
+    .map(line => {
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (fence === null) fence = fenceMatch[1][0];
+        else if (fenceMatch[1][0] === fence) fence = null;
+        return line;
+      }
+      return fence === null && /^#{1,5}(\s|$)/.test(line) ? `#${line}` : line;
+    })
+    .join('\n');
+};
+
+// Generated text often repeats the chapter title as its first line; drop it, since the exporter adds its own heading
+export const chapterText = (chapter: Chapter, heading: string): string => {
+  const content = chapter.content?.trim() ?? '';
+  const [firstLine, ...rest] = content.split('\n');
+  const firstHeading = firstLine.match(/^#{1,6}\s+(.*?)\s*#*$/);
+  const text = firstHeading && firstHeading[1].toLowerCase() === heading.toLowerCase() ? rest.join('\n').trim() : content;
+  return demoteHeadings(text);
+};
+
+// Chapter body: the written text, or the description in italics while the chapter is still empty
+export const chapterBody = (chapter: Chapter, heading: string): string => {
+  const text = chapterText(chapter, heading);
+  if (text) return text;
+  const description = chapter.description.trim();
+  return description ? `_${description}_` : '';
+};
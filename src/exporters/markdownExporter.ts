@@ -0,0 +1,114 @@
+import { zipSync, strToU8 } from 'fflate';
+import type { ExportInput, ManuscriptExporter } from './types';
+import { toFileName } from '../lib/download';
+import { chapterBody, chapterText, contentsPosition, hasHeading, sectionHeadings } from './manuscriptText';
+
+// Anchor IDs as generated by GitHub and most Markdown renderers: lowercase, punctuation dropped,
+// spaces turned into hyphens, and "-1", "-2", ... appended to repeated headings
+const createSlugger = () => {
+  const seen = new Map<string, number>();
+  return (heading: string): string => {
+    const base = heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+};
+
+// JSON strings are valid YAML double-quoted scalars
+const yamlString = (value: string): string => JSON.stringify(value);
+
+/**
+ * Renders the whole project as one Markdown document: a title page (name, author, description), a table of contents
+ * linking to each chapter, then the chapters under `#` headings. Dedications have no heading and come before the
+ * table of contents when they open the book.
+ * @param input - The project and its chapters, sorted by order.
+ * @returns The Markdown text.
+ */
+export function renderMarkdownManuscript({ project, chapters, metadata }: ExportInput): string {
+  const slug = createSlugger();
+  const sections: string[] = [];
+
+  const titlePage = [`# ${project.name}`];
+  slug(project.name);
+  if (metadata.author) {
+    titlePage.push(`_by ${metadata.author}_`);
+  }
+  if (project.description?.trim()) {
+    titlePage.push(project.description.trim());
+  }
+  sections.push(titlePage.join('\n\n'));
+
+  const headings = sectionHeadings(chapters);
+  const listed = chapters.map((_, index) => index).filter(index => hasHeading(chapters[index]));
+  let contents = '';
+  if (listed.length > 0) {
+    // Dedications in front of the contents have no heading, so "Contents" is still the first anchor
+    slug('Contents');
+    const toc = listed.map((index, position) => `${position + 1}. [${headings[index]}](#${slug(headings[index])})`);
+    contents = `## Contents\n\n${toc.join('\n')}`;
+  }
+
+  const contentsAt = contentsPosition(chapters);
+  chapters.forEach((chapter, index) => {
+    if (index === contentsAt && contents) sections.push(contents);
+    const body = chapterBody(chapter, headings[index]);
+    if (!hasHeading(chapter)) {
+      if (body) sections.push(body);
+    } else {
+      sections.push(body ? `# ${headings[index]}\n\n${body}` : `# ${headings[index]}`);
+    }
+  });
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Renders one Markdown file per chapter, each starting with YAML front-matter
+ * (title, description, 1-based order, section kind, project name).
+ * @param input - The project and its chapters, sorted by order.
+ * @returns File names (numbered so they sort in chapter order) mapped to their Markdown text.
+ */
+export function renderMarkdownChapterFiles({ project, chapters }: ExportInput): Record<string, string> {
+  const digits = Math.max(2, String(chapters.length).length);
+  const files: Record<string, string> = {};
+  const headings = sectionHeadings(chapters);
+  chapters.forEach((chapter, index) => {
+    const heading = headings[index];
+    const frontMatter = [
+      '---',
+      `title: ${yamlString(chapter.title)}`,
+      `description: ${yamlString(chapter.description)}`,
+      `order: ${index + 1}`,
+      `kind: ${chapter.kind}`,
+      `project: ${yamlString(project.name)}`,
+      '---',
+    ].join('\n');
+    const text = chapterText(chapter, heading);
+    const body = !hasHeading(chapter) ? text : text ? `# ${heading}\n\n${text}` : `# ${heading}`;
+    const number = String(index + 1).padStart(digits, '0');
+    files[`${number}-${toFileName(heading, 'md')}`] = `${frontMatter}\n\n${body}\n`;
+  });
+  return files;
+}
+
+export const markdownExporter: ManuscriptExporter = {
+  label: 'Markdown manuscript (.md)',
+  extension: 'md',
+  mimeType: 'text/markdown',
+
+  async export(input: ExportInput): Promise<string> {
+    return renderMarkdownManuscript(input);
+  },
+};
+
+export const markdownZipExporter: ManuscriptExporter = {
+  label: 'Markdown, one file per chapter (.zip)',
+  extension: 'zip',
+  mimeType: 'application/zip',
+
+  async export(input: ExportInput): Promise<Uint8Array> {
+    const files = renderMarkdownChapterFiles(input);
+    return zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+  },
+};
@@ -0,0 +1,88 @@
+// src/exporters/markdownHtml.ts
+import { Marked, type Tokens } from 'marked';
+
+// Markdown to XHTML for the exporters that produce (X)HTML. The output is well-formed XML,
+// so it can go straight into EPUB content documents, and is valid HTML5 as well.
+
+// Everything outside the Char production of XML 1.0
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+// Entities XML knows without a DTD
+const XML_ENTITIES = new Map([['amp', '&'], ['lt', '<'], ['gt', '>'], ['quot', '"'], ['apos', "'"]]);
+
+// HTML entities that show up in typed or generated text, replaced by their characters
+const HTML_ENTITIES = new Map(Object.entries({
+  nbsp: '\u00A0', shy: '\u00AD', copy: '©', reg: '®', trade: '™', deg: '°', middot: '·', times: '×', euro: '€',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+}));
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ * @param text - The raw text.
+ * @returns The escaped text, without characters XML does not allow.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Turns entity references in text taken from Markdown tokens back into characters
+ * (for exporters that don't produce markup).
+ * @param text - Text with entities such as "&amp;", "&#39;" or "&mdash;".
+ * @returns The plain text. Unknown named entities are left as they are.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return XML_ENTITIES.get(name) ?? HTML_ENTITIES.get(name) ?? entity;
+  });
+}
+
+// Only absolute links survive; relative ones would point at files that are not in the export
+const isExternalLink = (href: string): boolean => /^(https?:|mailto:)/i.test(href);
+
+const marked = new Marked({
+  gfm: true,
+  renderer: {
+    hr: () => '<hr/>\n',
+    br: () => '<br/>',
+    checkbox: ({ checked }: Tokens.Checkbox) => `<input type="checkbox" disabled="disabled"${checked ? ' checked="checked"' : ''}/> `,
+    // Raw HTML is shown as text: it is rarely intended in chapter text and may not be well-formed
+    html: ({ text }: Tokens.HTML | Tokens.Tag) => escapeXml(text),
+    // Images would reference files outside the export; keep their description
+    image: ({ text }: Tokens.Image) => escapeXml(text),
+    link({ href, title, tokens }: Tokens.Link) {
+      const label = this.parser.parseInline(tokens);
+      if (!isExternalLink(href)) return label;
+      const titleAttribute = title ? ` title="${escapeXml(title)}"` : '';
+      return `<a href="${escapeXml(href)}"${titleAttribute}>${label}</a>`;
+    },
+    // `align` is not valid HTML5
+    tablecell(token: Tokens.TableCell) {
+      const tag = token.header ? 'th' : 'td';
+      const style = token.align ? ` style="text-align: ${token.align}"` : '';
+      return `<${tag}${style}>${this.parser.parseInline(token.tokens)}</${tag}>\n`;
+    },
+  },
+});
+
+/**
+ * Renders Markdown (GitHub flavoured) as an XHTML fragment.
+ * @param markdown - The Markdown text.
+ * @returns Well-formed XHTML block elements.
+ */
+export function renderMarkdownToXhtml(markdown: string): string {
+  const html = marked.parse(markdown.replace(INVALID_XML_CHARS, ''), { async: false });
+  return html.replace(/&([a-zA-Z][a-zA-Z0-9]*);/g, (entity, name: string) =>
+    XML_ENTITIES.has(name) ? entity : HTML_ENTITIES.get(name) ?? `&amp;${name};`
+  );
+}
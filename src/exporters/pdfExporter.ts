@@ -0,0 +1,63 @@
+import type { PdfLayoutOptions } from '../types/models';
+import type { ExportInput, ManuscriptExporter } from './types';
+
+// Common book trim sizes, in millimetres
+export const PDF_TRIM_SIZES: Record<string, { label: string; width: number; height: number }> = {
+  'us-trade': { label: 'US Trade (6 × 9 in)', width: 152.4, height: 228.6 },
+  digest: { label: 'Digest (5.5 × 8.5 in)', width: 139.7, height: 215.9 },
+  pocket: { label: 'Pocket (5 × 8 in)', width: 127, height: 203.2 },
+  a5: { label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  letter: { label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+};
+
+// The PDF standard fonts, which need no embedding but only cover Western European characters
+export const PDF_FONT_LABELS: Record<PdfLayoutOptions['font'], string> = {
+  serif: 'Times (serif)',
+  'sans-serif': 'Helvetica (sans-serif)',
+  monospace: 'Courier (monospace)',
+};
+
+export const DEFAULT_PDF_LAYOUT: PdfLayoutOptions = {
+  trimSize: 'us-trade',
+  marginTop: 18,
+  marginBottom: 20,
+  marginInside: 22,
+  marginOutside: 16,
+  font: 'serif',
+  fontSize: 11,
+  chapterStartOnRecto: true,
+  runningHeaders: true,
+  pageNumbers: true,
+  tableOfContents: true,
+};
+
+export const POINTS_PER_MM = 72 / 25.4;
+export const PDF_LINE_SPACING = 1.4;
+
+/**
+ * Checks that a layout leaves room for text: at least ten characters' width and five lines.
+ * @param layout - The page layout.
+ * @returns An error message, or null if the layout is usable.
+ */
+export function pdfLayoutProblem(layout: PdfLayoutOptions): string | null {
+  const trim = PDF_TRIM_SIZES[layout.trimSize] ?? PDF_TRIM_SIZES[DEFAULT_PDF_LAYOUT.trimSize];
+  const textWidth = (trim.width - layout.marginInside - layout.marginOutside) * POINTS_PER_MM;
+  const textHeight = (trim.height - layout.marginTop - layout.marginBottom) * POINTS_PER_MM;
+  if (textWidth < layout.fontSize * 10 || textHeight < layout.fontSize * PDF_LINE_SPACING * 5) {
+    return 'The margins leave too little room for text on this page size.';
+  }
+  return null;
+}
+
+export const pdfExporter: ManuscriptExporter = {
+  label: 'Print-ready PDF (.pdf)',
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+
+  async export(input: ExportInput): Promise<Uint8Array> {
+    // The renderer and pdf-lib are only loaded when a PDF is actually exported
+    const { renderPdf } = await import('./pdfRenderer');
+    return renderPdf(input, { ...DEFAULT_PDF_LAYOUT, ...input.options?.pdfLayout });
+  },
+};
@@ -0,0 +1,535 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { lexer, type Token, type Tokens } from 'marked';
+import type { PdfLayoutOptions } from '../types/models';
+import type { ExportInput } from './types';
+import { chapterBody, contentsPosition, hasHeading, sectionHeadings } from './manuscriptText';
+import { decodeEntities } from './markdownHtml';
+import { DEFAULT_PDF_LAYOUT, PDF_LINE_SPACING, PDF_TRIM_SIZES, POINTS_PER_MM, pdfLayoutProblem } from './pdfExporter';
+
+// Typesetting happens in two passes: the chapters are first planned into pages of positioned
+// lines, then drawn. Page numbers are only known after planning, which the table of contents
+// (planned before the chapters, filled in after) and the running headers need.
+
+const TEXT_COLOR = rgb(0, 0, 0);
+const FURNITURE_COLOR = rgb(0.3, 0.3, 0.3); // Running headers and page numbers
+
+// Regular, bold, italic and bold italic
+const FONT_FAMILIES: Record<PdfLayoutOptions['font'], StandardFonts[]> = {
+  serif: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic],
+  'sans-serif': [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique],
+  monospace: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique, StandardFonts.CourierBoldOblique],
+};
+
+// Inline text with its style
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+// Chapter text as the blocks the typesetter knows
+type Block =
+  | { kind: 'paragraph'; runs: Run[]; indent: number; marker?: string }
+  | { kind: 'heading'; runs: Run[]; level: number }
+  | { kind: 'code'; text: string; indent: number }
+  | { kind: 'break' };
+
+// Text in one font; `x` is set once the line it is on has been positioned
+interface Segment {
+  text: string;
+  font: PDFFont;
+  size: number;
+  width: number;
+  x: number;
+}
+
+// Segments without a space between them; lines only break between words
+type Word = Segment[];
+
+interface LineBreak {
+  words: Word[];
+  width: number; // Including one space between words
+  justify: boolean; // False for the last line of a paragraph and lines ending in a hard break
+}
+
+interface PlacedLine {
+  pageIndex: number;
+  y: number; // Baseline
+  segments: Segment[];
+}
+
+interface PagePlan {
+  kind: 'title' | 'blank' | 'toc' | 'chapter';
+  chapterIndex?: number;
+  chapterStart?: boolean; // Chapter opening pages get no running header
+  lines: PlacedLine[];
+}
+
+const inlineRuns = (tokens: Token[] | undefined, style: Omit<Run, 'text'> = {}): Run[] =>
+  (tokens ?? []).flatMap((token): Run[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns(token.tokens, { ...style, bold: true });
+      case 'em':
+        return inlineRuns(token.tokens, { ...style, italic: true });
+      case 'del':
+      case 'link':
+        return inlineRuns(token.tokens, style);
+      case 'codespan':
+        return [{ ...style, code: true, text: decodeEntities(token.text) }];
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'html':
+        return [{ ...style, text: token.raw }];
+      case 'text':
+        return token.tokens ? inlineRuns(token.tokens, style) : [{ ...style, text: decodeEntities(token.text) }];
+      default:
+        // Escapes, images (their description) and anything else that carries text
+        return [{ ...style, text: decodeEntities('text' in token && typeof token.text === 'string' ? token.text : token.raw) }];
+    }
+  });
+
+const toBlocks = (tokens: Token[], indent = 0, italic = false): Block[] => {
+  const style = italic ? { italic: true } : {};
+  const blocks: Block[] = [];
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'paragraph':
+      case 'text':
+        blocks.push({ kind: 'paragraph', runs: token.tokens ? inlineRuns(token.tokens, style) : [{ ...style, text: decodeEntities(token.text) }], indent });
+        break;
+      case 'heading':
+        blocks.push({ kind: 'heading', runs: inlineRuns(token.tokens), level: token.depth });
+        break;
+      case 'code':
+        blocks.push({ kind: 'code', text: token.text, indent });
+        break;
+      case 'hr':
+        blocks.push({ kind: 'break' });
+        break;
+      case 'blockquote':
+        blocks.push(...toBlocks(token.tokens ?? [], indent + 1, true));
+        break;
+      case 'list':
+        token.items.forEach((item: Tokens.ListItem, index: number) => {
+          // Task list items show their checkbox in place of the bullet
+          const marker = item.task ? (item.checked ? '[x]' : '[ ]') : token.ordered ? `${(Number(token.start) || 1) + index}.` : '•';
+          const itemBlocks = toBlocks(item.tokens, indent + 1, italic);
+          const first = itemBlocks[0];
+          if (first?.kind === 'paragraph' && first.marker === undefined) {
+            first.marker = marker;
+          } else {
+            itemBlocks.unshift({ kind: 'paragraph', runs: [], indent: indent + 1, marker });
+          }
+          blocks.push(...itemBlocks);
+        });
+        break;
+      case 'table': {
+        // Tables are set as one line of cells per row
+        const row = (cells: { tokens: Token[] }[], bold: boolean): Run[] =>
+          cells.flatMap((cell, index) => [...(index > 0 ? [{ text: ' | ' }] : []), ...inlineRuns(cell.tokens, { ...style, bold })]);
+        blocks.push({ kind: 'paragraph', runs: row(token.header, true), indent: indent + 1 });
+        for (const cells of token.rows) {
+          blocks.push({ kind: 'paragraph', runs: row(cells, false), indent: indent + 1 });
+        }
+        break;
+      }
+      case 'html':
+        if (token.raw.trim()) blocks.push({ kind: 'paragraph', runs: [{ ...style, text: token.raw.trim() }], indent });
+        break;
+      default:
+        break; // Blank lines and link definitions
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Typesets a project as a print-ready PDF: title page, opening dedications, optional table of
+ * contents, and the chapters with mirrored margins, running headers and page numbers.
+ * Uses the PDF standard fonts, so characters outside Windows-1252 are printed as "?".
+ * @param input - The project, its chapters sorted by order, and its book metadata.
+ * @param layout - Trim size, margins, font and the other layout choices.
+ * @returns The PDF file.
+ */
+export async function renderPdf({ project, chapters, metadata }: ExportInput, layout: PdfLayoutOptions): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const [regular, bold, italic, boldItalic] = await Promise.all(FONT_FAMILIES[layout.font].map(name => doc.embedFont(name)));
+  const mono = layout.font === 'monospace' ? regular : await doc.embedFont(StandardFonts.Courier);
+  const supported = new Set(regular.getCharacterSet());
+
+  const trim = PDF_TRIM_SIZES[layout.trimSize] ?? PDF_TRIM_SIZES[DEFAULT_PDF_LAYOUT.trimSize];
+  const pageWidth = trim.width * POINTS_PER_MM;
+  const pageHeight = trim.height * POINTS_PER_MM;
+  const top = pageHeight - layout.marginTop * POINTS_PER_MM;
+  const bottom = layout.marginBottom * POINTS_PER_MM;
+  const textWidth = pageWidth - (layout.marginInside + layout.marginOutside) * POINTS_PER_MM;
+  const size = layout.fontSize;
+  const leading = size * PDF_LINE_SPACING;
+  const layoutProblem = pdfLayoutProblem(layout);
+  if (layoutProblem) throw new Error(layoutProblem);
+
+  const title = project.name;
+  const headings = sectionHeadings(chapters);
+
+  // Pages with odd numbers are right-hand (recto) pages; the inside margin is on the binding side
+  const leftEdge = (pageIndex: number): number =>
+    (pageIndex % 2 === 0 ? layout.marginInside : layout.marginOutside) * POINTS_PER_MM;
+
+  const clean = (text: string): string =>
+    Array.from(text.replace(/\t/g, '    '), char => (supported.has(char.codePointAt(0)!) ? char : '?')).join('');
+
+  const fontFor = (run: Omit<Run, 'text'>): PDFFont =>
+    run.code ? mono : run.bold && run.italic ? boldItalic : run.bold ? bold : run.italic ? italic : regular;
+
+  const segment = (text: string, font: PDFFont, fontSize: number): Segment => {
+    const cleaned = clean(text);
+    return { text: cleaned, font, size: fontSize, width: font.widthOfTextAtSize(cleaned, fontSize), x: 0 };
+  };
+
+  // Words of the runs; null marks a hard line break
+  const toWords = (runs: Run[], fontSize: number): (Word | null)[] => {
+    const words: (Word | null)[] = [];
+    let word: Word = [];
+    const endWord = () => {
+      if (word.length > 0) words.push(word);
+      word = [];
+    };
+    for (const run of runs) {
+      const font = fontFor(run);
+      for (const part of run.text.split(/(\n|[^\S\n]+)/)) {
+        if (!part) continue;
+        if (part === '\n') {
+          endWord();
+          words.push(null);
+        } else if (/^\s+$/.test(part)) {
+          endWord();
+        } else {
+          word.push(segment(part, font, fontSize));
+        }
+      }
+    }
+    endWord();
+    return words;
+  };
+
+  const wordWidth = (word: Word): number => word.reduce((sum, piece) => sum + piece.width, 0);
+
+  // Splits a word that is wider than a line into pieces that fit
+  const splitWord = (word: Word, maxWidth: number): Word[] => {
+    const pieces: Word[] = [];
+    let current: Word = [];
+    let currentWidth = 0;
+    for (const piece of word) {
+      let text = '';
+      for (const char of piece.text) {
+        const charWidth = piece.font.widthOfTextAtSize(char, piece.size);
+        if (currentWidth + charWidth > maxWidth && (text || current.length > 0)) {
+          if (text) current.push(segment(text, piece.font, piece.size));
+          pieces.push(current);
+          current = [];
+          currentWidth = 0;
+          text = '';
+        }
+        text += char;
+        currentWidth += charWidth;
+      }
+      if (text) current.push(segment(text, piece.font, piece.size));
+    }
+    if (current.length > 0) pieces.push(current);
+    return pieces;
+  };
+
+  const breakLines = (words: (Word | null)[], width: number, firstIndent: number, spaceWidth: number): LineBreak[] => {
+    const lines: LineBreak[] = [];
+    let current: Word[] = [];
+    let currentWidth = 0;
+    const flush = (justify: boolean) => {
+      lines.push({ words: current, width: currentWidth, justify });
+      current = [];
+      currentWidth = 0;
+    };
+    for (const word of words) {
+      if (word === null) {
+        flush(false);
+        continue;
+      }
+      for (const piece of wordWidth(word) > width - firstIndent ? splitWord(word, width - firstIndent) : [word]) {
+        const available = width - (lines.length === 0 ? firstIndent : 0);
+        const pieceWidth = wordWidth(piece);
+        if (current.length > 0 && currentWidth + spaceWidth + pieceWidth > available) {
+          flush(true);
+        }
+        currentWidth = current.length > 0 ? currentWidth + spaceWidth + pieceWidth : pieceWidth;
+        current.push(piece);
+      }
+    }
+    if (current.length > 0 || lines.length === 0) flush(false);
+    return lines;
+  };
+
+  // --- Planning ---
+
+  const pages: PagePlan[] = [];
+  let y = top; // Top of the next line on the current page
+
+  const newPage = (kind: PagePlan['kind'], chapterIndex?: number): PagePlan => {
+    const page: PagePlan = { kind, chapterIndex, lines: [] };
+    pages.push(page);
+    y = top;
+    return page;
+  };
+  const currentPage = (): PagePlan => pages[pages.length - 1];
+
+  // Continues on a new page when the next `height` points don't fit
+  const ensureSpace = (height: number) => {
+    if (y - height < bottom) {
+      const page = currentPage();
+      newPage(page.kind === 'toc' ? 'toc' : 'chapter', page.chapterIndex);
+    }
+  };
+
+  // Vertical space, dropped at the top of a page
+  const addSpace = (height: number) => {
+    if (y < top) y -= height;
+  };
+
+  // Leaves a blank left-hand page if the next page would be one
+  const startOnRecto = () => {
+    if (pages.length % 2 === 1) newPage('blank');
+  };
+
+  const layoutText = (
+    runs: Run[],
+    options: {
+      fontSize?: number;
+      indent?: number;
+      rightIndent?: number;
+      firstIndent?: number;
+      align?: 'justify' | 'left' | 'center';
+      marker?: string;
+    } = {}
+  ): PlacedLine[] => {
+    const { fontSize = size, indent = 0, rightIndent = 0, firstIndent = 0, align = 'justify', marker } = options;
+    const lineHeight = fontSize * PDF_LINE_SPACING;
+    const spaceWidth = regular.widthOfTextAtSize(' ', fontSize);
+    const width = textWidth - indent - rightIndent;
+    const placed: PlacedLine[] = [];
+    breakLines(toWords(runs, fontSize), width, firstIndent, spaceWidth).forEach((line, index) => {
+      ensureSpace(lineHeight);
+      const pageIndex = pages.length - 1;
+      const lineIndent = index === 0 ? firstIndent : 0;
+      const available = width - lineIndent;
+      let x = leftEdge(pageIndex) + indent + lineIndent;
+      let gap = spaceWidth;
+      if (align === 'center') {
+        x += (available - line.width) / 2;
+      } else if (align === 'justify' && line.justify && line.words.length > 1) {
+        gap += (available - line.width) / (line.words.length - 1);
+      }
+      const segments: Segment[] = [];
+      line.words.forEach((word, wordIndex) => {
+        if (wordIndex > 0) x += gap;
+        for (const piece of word) {
+          segments.push({ ...piece, x });
+          x += piece.width;
+        }
+      });
+      if (index === 0 && marker) {
+        const markerSegment = segment(marker, regular, fontSize);
+        segments.unshift({ ...markerSegment, x: leftEdge(pageIndex) + indent - markerSegment.width - fontSize * 0.5 });
+      }
+      const placedLine = { pageIndex, y: y - fontSize, segments };
+      currentPage().lines.push(placedLine);
+      placed.push(placedLine);
+      y -= lineHeight;
+    });
+    return placed;
+  };
+
+  const layoutBlocks = (blocks: Block[]) => {
+    const indentStep = size * 1.8;
+    let previous: Block | null = null;
+    for (const block of blocks) {
+      // Lists, quotes and code are set off from the surrounding text
+      const setOff = block.kind === 'code' || (block.kind === 'paragraph' && block.indent > 0);
+      const previousSetOff = previous !== null && (previous.kind === 'code' || (previous.kind === 'paragraph' && previous.indent > 0));
+      if (setOff !== previousSetOff && previous !== null) addSpace(leading * 0.5);
+
+      switch (block.kind) {
+        case 'paragraph': {
+          // Body paragraphs are indented, except the first one after a heading or scene break
+          const firstIndent = block.indent === 0 && previous?.kind === 'paragraph' && previous.indent === 0 ? size * 1.5 : 0;
+          layoutText(block.runs, { indent: block.indent * indentStep, firstIndent, align: block.indent === 0 ? 'justify' : 'left', marker: block.marker });
+          break;
+        }
+        case 'heading': {
+          const fontSize = size * (block.level <= 2 ? 1.3 : block.level === 3 ? 1.15 : 1.05);
+          addSpace(leading);
+          ensureSpace(fontSize * PDF_LINE_SPACING + leading * 2); // Keep the heading with the text after it
+          layoutText(block.runs.map(run => ({ ...run, bold: true })), { fontSize, align: 'left' });
+          addSpace(leading * 0.3);
+          break;
+        }
+        case 'code': {
+          const fontSize = size * 0.85;
+          const indent = (block.indent + 1) * indentStep;
+          const charsPerLine = Math.max(10, Math.floor((textWidth - indent) / mono.widthOfTextAtSize('M', fontSize)));
+          for (const sourceLine of block.text.split('\n')) {
+            const expanded = sourceLine.replace(/\t/g, '    ');
+            for (let start = 0; start === 0 || start < expanded.length; start += charsPerLine) {
+              ensureSpace(fontSize * PDF_LINE_SPACING);
+              const pageIndex = pages.length - 1;
+              const piece = segment(expanded.slice(start, start + charsPerLine), mono, fontSize);
+              currentPage().lines.push({ pageIndex, y: y - fontSize, segments: [{ ...piece, x: leftEdge(pageIndex) + indent }] });
+              y -= fontSize * PDF_LINE_SPACING;
+            }
+          }
+          break;
+        }
+        case 'break':
+          addSpace(leading * 0.5);
+          layoutText([{ text: '*      *      *' }], { align: 'center' });
+          addSpace(leading * 0.5);
+          break;
+      }
+      previous = block;
+    }
+  };
+
+  // Title page
+  newPage('title');
+  y = top - (top - bottom) * 0.3;
+  layoutText([{ text: title, bold: true }], { fontSize: size * 2.2, align: 'center' });
+  if (metadata.author) {
+    addSpace(leading * 1.5);
+    layoutText([{ text: metadata.author }], { fontSize: size * 1.4, align: 'center' });
+  }
+  if (metadata.publisher) {
+    y = bottom + leading * 2;
+    layoutText([{ text: metadata.publisher }], { align: 'center' });
+  }
+
+  // Chapters and front/back matter, each starting on a new page
+  const chapterStartPages: number[] = [];
+  const placeSection = (index: number) => {
+    const chapter = chapters[index];
+    if (layout.chapterStartOnRecto) startOnRecto();
+    const page = newPage('chapter', index);
+    page.chapterStart = true;
+    chapterStartPages[index] = pages.length - 1;
+    const body = chapterBody(chapter, headings[index]);
+    if (!hasHeading(chapter)) {
+      // Dedications are centred italic lines a third of the way down the page
+      y = top - (top - bottom) * 0.3;
+      for (const block of body ? toBlocks(lexer(body, { gfm: true }), 0, true) : []) {
+        if (block.kind !== 'paragraph') continue;
+        layoutText(block.runs, { align: 'center' });
+        addSpace(leading * 0.5);
+      }
+      return;
+    }
+    y = top - (top - bottom) * 0.2;
+    layoutText([{ text: headings[index], bold: true }], { fontSize: size * 1.7, align: 'center' });
+    addSpace(leading * 2);
+    if (body) layoutBlocks(toBlocks(lexer(body, { gfm: true })));
+  };
+
+  // Dedications that open the book come before the table of contents
+  const contentsAt = contentsPosition(chapters);
+  for (let index = 0; index < contentsAt; index++) placeSection(index);
+
+  // Table of contents; page numbers and leaders are added once the chapters are placed
+  const numberColumn = regular.widthOfTextAtSize('0000', size);
+  const tocEntries: { chapterIndex: number; lines: PlacedLine[] }[] = [];
+  if (layout.tableOfContents && chapters.some(hasHeading)) {
+    if (layout.chapterStartOnRecto) startOnRecto();
+    newPage('toc');
+    y = top - (top - bottom) * 0.1;
+    layoutText([{ text: 'Contents', bold: true }], { fontSize: size * 1.7, align: 'center' });
+    addSpace(leading);
+    headings.forEach((heading, chapterIndex) => {
+      if (!hasHeading(chapters[chapterIndex])) return;
+      // The page number gets a column of its own
+      tocEntries.push({ chapterIndex, lines: layoutText([{ text: heading }], { align: 'left', rightIndent: numberColumn }) });
+      addSpace(leading * 0.2);
+    });
+  }
+
+  for (let index = contentsAt; index < chapters.length; index++) placeSection(index);
+
+  // --- Drawing ---
+
+  const pdfPages: PDFPage[] = pages.map(() => doc.addPage([pageWidth, pageHeight]));
+  pages.forEach((plan, pageIndex) => {
+    for (const line of plan.lines) {
+      for (const piece of line.segments) {
+        pdfPages[pageIndex].drawText(piece.text, { x: piece.x, y: line.y, size: piece.size, font: piece.font, color: TEXT_COLOR });
+      }
+    }
+  });
+
+  // Shortens text to the given width
+  const fit = (text: string, font: PDFFont, fontSize: number, maxWidth: number): string => {
+    let fitted = clean(text);
+    while (fitted.length > 1 && font.widthOfTextAtSize(fitted, fontSize) > maxWidth) {
+      fitted = `${fitted.slice(0, -2)}…`;
+    }
+    return fitted;
+  };
+  const drawCentered = (page: PDFPage, pageIndex: number, text: string, font: PDFFont, fontSize: number, baseline: number) => {
+    const fitted = fit(text, font, fontSize, textWidth);
+    const x = leftEdge(pageIndex) + (textWidth - font.widthOfTextAtSize(fitted, fontSize)) / 2;
+    page.drawText(fitted, { x, y: baseline, size: fontSize, font, color: FURNITURE_COLOR });
+  };
+
+  const furnitureSize = size * 0.8;
+  pages.forEach((plan, pageIndex) => {
+    if (plan.kind === 'title' || plan.kind === 'blank') return;
+    const page = pdfPages[pageIndex];
+    if (layout.runningHeaders && plan.kind === 'chapter' && !plan.chapterStart && plan.chapterIndex !== undefined) {
+      const text = pageIndex % 2 === 0 ? headings[plan.chapterIndex] : title;
+      drawCentered(page, pageIndex, text, italic, furnitureSize, pageHeight - (layout.marginTop * POINTS_PER_MM) / 2 - furnitureSize / 3);
+    }
+    if (layout.pageNumbers) {
+      drawCentered(page, pageIndex, String(pageIndex + 1), regular, furnitureSize, (layout.marginBottom * POINTS_PER_MM) / 2 - furnitureSize / 3);
+    }
+  });
+
+  // Table of contents page numbers with dot leaders, and links to the chapters
+  const leader = ' .';
+  const leaderWidth = regular.widthOfTextAtSize(leader, size);
+  for (const entry of tocEntries) {
+    const targetIndex = chapterStartPages[entry.chapterIndex];
+    const last = entry.lines[entry.lines.length - 1];
+    const page = pdfPages[last.pageIndex];
+    const right = leftEdge(last.pageIndex) + textWidth;
+    const number = String(targetIndex + 1);
+    const numberWidth = regular.widthOfTextAtSize(number, size);
+    page.drawText(number, { x: right - numberWidth, y: last.y, size, font: regular, color: TEXT_COLOR });
+    const textEnd = last.segments.reduce((end, piece) => Math.max(end, piece.x + piece.width), leftEdge(last.pageIndex));
+    const leaderCount = Math.floor((right - numberWidth - size * 0.5 - textEnd) / leaderWidth);
+    if (leaderCount > 0) {
+      page.drawText(leader.repeat(leaderCount), { x: right - numberWidth - size * 0.5 - leaderCount * leaderWidth, y: last.y, size, font: regular, color: TEXT_COLOR });
+    }
+    for (const line of entry.lines) {
+      const left = leftEdge(line.pageIndex);
+      const link = doc.context.register(doc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [left, line.y - size * 0.3, left + textWidth, line.y + size],
+        Border: [0, 0, 0],
+        Dest: [pdfPages[targetIndex].ref, 'XYZ', null, null, null],
+      }));
+      pdfPages[line.pageIndex].node.addAnnot(link);
+    }
+  }
+
+  doc.setTitle(title, { showInWindowTitleBar: true });
+  if (metadata.author) doc.setAuthor(metadata.author);
+  if (project.description?.trim()) doc.setSubject(project.description.trim());
+  doc.setLanguage(metadata.language);
+  doc.setCreator('Spell-b00k');
+  return doc.save();
+}
@@ -0,0 +1,28 @@
+import type { Project, Chapter, BookMetadata, PdfLayoutOptions } from '../types/models';
+
+// What an exporter gets to work with
+export interface ExportInput {
+  project: Project;
+  chapters: Chapter[]; // Sorted by `order`
+  metadata: BookMetadata;
+  options?: ExportOptions;
+}
+
+// Format-specific choices made in the export panel; exporters fall back to their defaults
+export interface ExportOptions {
+  pdfLayout?: PdfLayoutOptions;
+  docxDescriptionComments?: boolean; // Chapter descriptions as comments on the chapter headings
+  htmlSearchIndex?: boolean; // Client-side search on the static website's index page
+}
+
+// Common interface for all manuscript exporters
+export interface ManuscriptExporter {
+  label: string; // Shown in the format picker
+  extension: string; // File extension without the dot
+  mimeType: string;
+
+  /**
+   * Renders the project into the bytes (or text) of the exported file.
+   */
+  export(input: ExportInput): Promise<Uint8Array | string>;
+}
@@ -0,0 +1,179 @@
+import { lexer } from 'marked';
+import type { SectionKind } from '../types/models';
+
+// Splits an imported manuscript (Markdown text) into chapters. A chapter starts at a boundary:
+// a heading of the chosen level, a "Chapter N" line, or a line matching a custom pattern.
+
+export type ChapterSplitMode = 'headings' | 'chapter-lines' | 'pattern';
+
+export interface ChapterSplitOptions {
+  mode: ChapterSplitMode;
+  headingLevel?: number; // For 'headings'; detected from the text when not set
+  pattern?: string; // For 'pattern'; the first capture group (if any) is the chapter title
+}
+
+export interface ManuscriptChapter {
+  title: string;
+  content: string;
+  kind: SectionKind; // Guessed from the title; body chapter unless it names front or back matter
+}
+
+// Title for text before the first boundary
+export const FRONT_MATTER_TITLE = 'Front Matter';
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred';
+
+// "Chapter 12", "CHAPTER XII: The Return", "Chapter Twenty-One - Home", "Prologue"
+const CHAPTER_LINE = new RegExp(
+  `^(chapter\\s+(?:\\d+|[ivxlcdm]+|(?:${NUMBER_WORDS})(?:[\\s-](?:${NUMBER_WORDS}))*)|prologue|epilogue|interlude)(?:\\s*[.:\\u2013\\u2014-]\\s*(.*))?$`,
+  'i'
+);
+
+// Titles of front and back matter, as found in manuscripts
+const SECTION_TITLES: [RegExp, SectionKind][] = [
+  [/^dedication$/i, 'dedication'],
+  [/^foreword$/i, 'foreword'],
+  [/^preface$/i, 'preface'],
+  [/^(epilogue|afterword)\b/i, 'epilogue'],
+  [/^acknowledge?ments?$/i, 'acknowledgements'],
+  [/^appendix\b/i, 'appendix'],
+  [/^about the authors?$/i, 'about-the-author'],
+];
+
+/**
+ * Guesses the section kind from a chapter title, e.g. "Preface" or "Appendix B: Sources".
+ * @param title - The chapter title.
+ * @returns The matching front or back matter kind, or 'chapter'.
+ */
+export function detectSectionKind(title: string): SectionKind {
+  return SECTION_TITLES.find(([pattern]) => pattern.test(title.trim()))?.[1] ?? 'chapter';
+}
+
+// Longer lines are prose that happens to start with "Chapter"
+const MAX_BOUNDARY_LINE = 100;
+
+// Line without heading markers and surrounding emphasis
+const bareLine = (line: string): string =>
+  line.trim().replace(/^#{1,6}\s+/, '').replace(/\s+#+$/, '').replace(/^([*_]+)(.*?)\1$/, '$2').trim();
+
+/**
+ * Finds the heading level chapters most likely start at: the highest level used more than once,
+ * so that a single book title heading above the chapters is skipped.
+ * @param markdown - The manuscript text.
+ * @returns The level (1-6), or null if the text has no headings.
+ */
+export function detectHeadingLevel(markdown: string): number | null {
+  const counts = new Map<number, number>();
+  for (const token of lexer(markdown)) {
+    if (token.type === 'heading') counts.set(token.depth, (counts.get(token.depth) ?? 0) + 1);
+  }
+  const levels = [...counts.keys()].sort((a, b) => a - b);
+  return levels.find(level => (counts.get(level) ?? 0) > 1) ?? levels[0] ?? null;
+}
+
+// Splits at headings of the given level. Higher headings (book and part titles) are dropped; deeper
+// ones move up so that the chapter's own sections start at `#`, the level chapter text uses for them.
+const splitAtHeadings = (markdown: string, level: number): { preamble: string; chapters: ManuscriptChapter[] } => {
+  let preamble = '';
+  const chapters: ManuscriptChapter[] = [];
+  for (const token of lexer(markdown)) {
+    if (token.type === 'heading' && token.depth <= level) {
+      if (token.depth === level) chapters.push({ title: bareLine(token.text), content: '', kind: 'chapter' });
+      continue;
+    }
+    const raw = token.type === 'heading' && chapters.length > 0
+      ? `${'#'.repeat(token.depth - level)} ${token.text}${token.raw.match(/\n*$/)?.[0] ?? ''}`
+      : token.raw;
+    if (chapters.length > 0) chapters[chapters.length - 1].content += raw;
+    else preamble += raw;
+  }
+  return { preamble, chapters };
+};
+
+// Splits at lines for which `titleOf` returns a title; lines inside fenced code are never boundaries
+const splitAtLines = (markdown: string, titleOf: (line: string) => string | null): { preamble: string; chapters: ManuscriptChapter[] } => {
+  const preamble: string[] = [];
+  const chapters: { title: string; lines: string[] }[] = [];
+  let fence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+    }
+    const title = fence === null && !fenceMatch && line.trim() && line.trim().length <= MAX_BOUNDARY_LINE ? titleOf(line) : null;
+    if (title !== null) {
+      chapters.push({ title, lines: [] });
+    } else if (chapters.length > 0) {
+      chapters[chapters.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  return {
+    preamble: preamble.join('\n'),
+    chapters: chapters.map(({ title, lines }) => ({ title, content: lines.join('\n'), kind: 'chapter' as const })),
+  };
+};
+
+const chapterLineTitle = (line: string): string | null => {
+  const match = bareLine(line).match(CHAPTER_LINE);
+  if (!match) return null;
+  // "Chapter 3: The Fall" is titled "The Fall"; a bare "Chapter 3" keeps its label
+  return match[2]?.trim() || match[1].replace(/\s+/g, ' ');
+};
+
+const compilePattern = (pattern: string | undefined): RegExp => {
+  if (!pattern?.trim()) {
+    throw new Error('Enter a pattern that matches the first line of each chapter.');
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`The chapter pattern is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+/**
+ * Splits a manuscript into chapters. Text before the first boundary becomes a "Front Matter"
+ * chapter; without any boundary, the whole text is one chapter. Chapters titled like front or
+ * back matter ("Preface", "Appendix A") get that kind.
+ * @param markdown - The manuscript as Markdown text.
+ * @param options - Where chapters start.
+ * @param fallbackTitle - Title of the single chapter when no boundary is found, e.g. the file name.
+ * @returns The chapters in manuscript order, with trimmed content.
+ * @throws Error if the custom pattern is missing or invalid.
+ */
+export function splitManuscript(markdown: string, options: ChapterSplitOptions, fallbackTitle: string): ManuscriptChapter[] {
+  let result: { preamble: string; chapters: ManuscriptChapter[] };
+  switch (options.mode) {
+    case 'headings': {
+      const level = options.headingLevel ?? detectHeadingLevel(markdown);
+      result = level ? splitAtHeadings(markdown, level) : { preamble: markdown, chapters: [] };
+      break;
+    }
+    case 'chapter-lines':
+      result = splitAtLines(markdown, chapterLineTitle);
+      break;
+    case 'pattern': {
+      const regex = compilePattern(options.pattern);
+      result = splitAtLines(markdown, line => {
+        const match = line.match(regex);
+        if (!match) return null;
+        return bareLine(match.slice(1).find(group => group?.trim()) ?? line);
+      });
+      break;
+    }
+  }
+
+  const chapters: ManuscriptChapter[] = result.chapters.map(chapter => ({
+    title: chapter.title,
+    content: chapter.content.trim(),
+    kind: detectSectionKind(chapter.title),
+  }));
+  const preamble = result.preamble.trim();
+  if (chapters.length === 0) {
+    return preamble ? [{ title: fallbackTitle, content: preamble, kind: 'chapter' }] : [];
+  }
+  return preamble ? [{ title: FRONT_MATTER_TITLE, content: preamble, kind: 'chapter' }, ...chapters] : chapters;
+}
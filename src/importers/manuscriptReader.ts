@@ -0,0 +1,262 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+// Turns a manuscript file into Markdown text, the format chapters are stored in. Structure that
+// matters for splitting (headings, paragraphs) and basic emphasis survive; layout does not.
+
+export type ManuscriptFormat = 'markdown' | 'text' | 'html' | 'docx';
+
+// Accepted file extensions, as offered in the file picker
+export const MANUSCRIPT_EXTENSIONS: Record<string, ManuscriptFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  docx: 'docx',
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Determines the manuscript format from a file name.
+ * @param fileName - The name of the chosen file.
+ * @returns The format, or null if the extension is not supported.
+ */
+export function getManuscriptFormat(fileName: string): ManuscriptFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return MANUSCRIPT_EXTENSIONS[extension] ?? null;
+}
+
+// Wraps text in Markdown emphasis markers, keeping surrounding spaces outside them
+const emphasize = (text: string, marker: string): string => {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s);
+  return match && match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+// Joins blocks with blank lines, dropping empty ones and collapsing runs of spaces outside code blocks
+const joinBlocks = (blocks: string[]): string =>
+  blocks
+    .map(block => (block.startsWith('```') ? block : block.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim()))
+    .filter(Boolean)
+    .join('\n\n');
+
+// --- HTML ---
+
+const HTML_BLOCKS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'ASIDE', 'NAV', 'FIGURE', 'FIGCAPTION', 'TABLE', 'TR', 'UL', 'OL', 'DL', 'DD', 'DT', 'BODY']);
+const HTML_SKIPPED = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'svg']);
+
+const htmlInline = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  if (HTML_SKIPPED.has(element.tagName)) return '';
+  if (element.tagName === 'BR') return '\n';
+  const text = Array.from(element.childNodes, htmlInline).join('');
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      return emphasize(text, '**');
+    case 'EM':
+    case 'I':
+      return emphasize(text, '_');
+    case 'CODE':
+      return text.trim() ? `\`${text}\`` : text;
+    case 'IMG':
+      return element.getAttribute('alt') ?? '';
+    default:
+      return text;
+  }
+};
+
+const htmlBlocks = (element: Element, prefix = ''): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    if (inline.trim()) blocks.push(prefix + inline.trim());
+    inline = '';
+  };
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      inline += htmlInline(child);
+      continue;
+    }
+    const tag = (child as Element).tagName;
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) {
+      flush();
+      const text = htmlInline(child).replace(/\s+/g, ' ').trim();
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (tag === 'LI') {
+      flush();
+      const marker = child.parentElement?.tagName === 'OL' ? '1. ' : '- ';
+      blocks.push(...htmlBlocks(child as Element, prefix + marker).map((block, index) => (index === 0 ? block : `   ${block}`)));
+    } else if (tag === 'BLOCKQUOTE') {
+      flush();
+      blocks.push(...htmlBlocks(child as Element, `${prefix}> `));
+    } else if (tag === 'PRE') {
+      flush();
+      blocks.push(`\`\`\`\n${(child.textContent ?? '').replace(/\n$/, '')}\n\`\`\``);
+    } else if (tag === 'HR') {
+      flush();
+      blocks.push('---');
+    } else if (HTML_BLOCKS.has(tag) || tag === 'TD' || tag === 'TH') {
+      flush();
+      blocks.push(...htmlBlocks(child as Element, prefix));
+    } else if (!HTML_SKIPPED.has(tag)) {
+      inline += htmlInline(child);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+const htmlToMarkdown = (html: string): string => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return joinBlocks(htmlBlocks(document.body));
+};
+
+// --- DOCX ---
+
+const wordChildren = (element: Element, localName: string): Element[] =>
+  Array.from(element.children).filter(child => child.namespaceURI === W_NS && child.localName === localName);
+
+const wordChild = (element: Element | undefined, localName: string): Element | undefined =>
+  element ? wordChildren(element, localName)[0] : undefined;
+
+const wordValue = (element: Element | undefined): string | null => element?.getAttributeNS(W_NS, 'val') ?? null;
+
+// Bold/italic toggles are on unless their value says otherwise
+const isOn = (element: Element | undefined): boolean => {
+  if (!element) return false;
+  const value = wordValue(element);
+  return value === null || !['0', 'false', 'off', 'none'].includes(value);
+};
+
+// Heading level per paragraph style ID. Style IDs are localised ("berschrift1"), so the level is
+// taken from the style's built-in name ("heading 1") or its outline level.
+const headingStyles = (stylesXml: string | undefined): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+  const styles = new DOMParser().parseFromString(stylesXml, 'application/xml');
+  for (const style of Array.from(styles.getElementsByTagNameNS(W_NS, 'style'))) {
+    const id = style.getAttributeNS(W_NS, 'styleId');
+    if (!id) continue;
+    const name = wordValue(wordChild(style, 'name'))?.toLowerCase() ?? '';
+    const named = name.match(/^heading ([1-6])$/);
+    const outline = wordValue(wordChild(wordChild(style, 'pPr'), 'outlineLvl'));
+    if (named) levels.set(id, Number(named[1]));
+    else if (outline !== null && Number(outline) < 6) levels.set(id, Number(outline) + 1);
+  }
+  return levels;
+};
+
+const docxRunText = (run: Element): string =>
+  Array.from(run.children)
+    .map(child => {
+      if (child.namespaceURI !== W_NS) return '';
+      switch (child.localName) {
+        case 't':
+          return child.textContent ?? '';
+        case 'tab':
+          return ' ';
+        case 'br':
+        case 'cr':
+          // Page and column breaks only matter for layout
+          return child.getAttributeNS(W_NS, 'type') ? '' : '\n';
+        case 'noBreakHyphen':
+          return '-';
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+const docxParagraphText = (paragraph: Element, plain: boolean): string =>
+  Array.from(paragraph.children)
+    .flatMap(child => {
+      if (child.namespaceURI !== W_NS) return [];
+      // Runs may be wrapped in hyperlinks, tracked insertions and the like
+      if (['hyperlink', 'ins', 'smartTag', 'sdt', 'sdtContent', 'fldSimple'].includes(child.localName)) {
+        return [docxParagraphText(child, plain)];
+      }
+      if (child.localName !== 'r') return [];
+      const text = docxRunText(child);
+      if (plain) return [text];
+      const properties = wordChild(child, 'rPr');
+      let formatted = text;
+      if (isOn(wordChild(properties, 'i'))) formatted = emphasize(formatted, '_');
+      if (isOn(wordChild(properties, 'b'))) formatted = emphasize(formatted, '**');
+      return [formatted];
+    })
+    .join('');
+
+const docxToMarkdown = (data: Uint8Array): string => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, { filter: file => file.name === 'word/document.xml' || file.name === 'word/styles.xml' });
+  } catch {
+    throw new Error('The file is not a valid Word document.');
+  }
+  if (!files['word/document.xml']) {
+    throw new Error('The file is not a valid Word document.');
+  }
+  const levels = headingStyles(files['word/styles.xml'] && strFromU8(files['word/styles.xml']));
+  const document = new DOMParser().parseFromString(strFromU8(files['word/document.xml']), 'application/xml');
+  const body = document.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) {
+    throw new Error('The Word document has no body.');
+  }
+
+  const blocks: string[] = [];
+  const addParagraphs = (container: Element) => {
+    for (const child of Array.from(container.children)) {
+      if (child.namespaceURI !== W_NS) continue;
+      if (child.localName === 'tbl') {
+        // Each table cell becomes its own paragraph
+        for (const cellParagraph of Array.from(child.getElementsByTagNameNS(W_NS, 'p'))) addParagraph(cellParagraph);
+      } else if (child.localName === 'sdt') {
+        const content = wordChild(child, 'sdtContent');
+        if (content) addParagraphs(content);
+      } else if (child.localName === 'p') {
+        addParagraph(child);
+      }
+    }
+  };
+  const addParagraph = (paragraph: Element) => {
+    const properties = wordChild(paragraph, 'pPr');
+    const style = wordValue(wordChild(properties, 'pStyle'));
+    const outline = wordValue(wordChild(properties, 'outlineLvl'));
+    const level = (style && levels.get(style)) || (outline !== null && Number(outline) < 6 ? Number(outline) + 1 : 0);
+    const text = docxParagraphText(paragraph, level > 0);
+    if (!text.trim()) return;
+    if (level > 0) {
+      blocks.push(`${'#'.repeat(level)} ${text.replace(/\s+/g, ' ').trim()}`);
+    } else if (wordChild(properties, 'numPr')) {
+      blocks.push(`- ${text.trim()}`);
+    } else {
+      blocks.push(text);
+    }
+  };
+  addParagraphs(body);
+  return joinBlocks(blocks);
+};
+
+/**
+ * Reads a manuscript file as Markdown text.
+ * @param fileName - The file name; its extension selects the format.
+ * @param data - The file contents.
+ * @returns The manuscript as Markdown. Plain text is returned as it is.
+ * @throws Error if the format is not supported or the file cannot be read.
+ */
+export function readManuscript(fileName: string, data: Uint8Array): string {
+  const format = getManuscriptFormat(fileName);
+  if (!format) {
+    throw new Error('Unsupported file type. Choose a Markdown, text, HTML or Word (.docx) file.');
+  }
+  if (format === 'docx') {
+    return docxToMarkdown(data);
+  }
+  const text = new TextDecoder('utf-8').decode(data).replace(/\r\n?/g, '\n');
+  return format === 'html' ? htmlToMarkdown(text) : text;
+}
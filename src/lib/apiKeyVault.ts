@@ -0,0 +1,217 @@
+// src/lib/apiKeyVault.ts
+
+// API keys are stored encrypted with a passphrase: PBKDF2 turns the passphrase into an AES-GCM key,
+// which is only kept in memory. After a reload the vault is locked until the passphrase is entered
+// again; while locked, no key can be read. Keys are stored per LLM profile ID.
+
+const VAULT_KEY = 'spellb00k_api_keys';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256; stored with the vault so it can be raised later
+const PBKDF2_ITERATIONS = 600_000;
+
+// Encrypted with the derived key to tell a wrong passphrase from a damaged vault
+const CHECK_VALUE = 'spell-b00k';
+
+interface EncryptedValue {
+  iv: string; // Base64, 12 bytes
+  data: string; // Base64 ciphertext including the GCM tag
+}
+
+interface StoredVault {
+  version: 1;
+  salt: string; // Base64, 16 bytes
+  iterations: number;
+  check: EncryptedValue;
+  keys: Record<string, EncryptedValue>;
+}
+
+let sessionKey: CryptoKey | null = null;
+const unlockedKeys = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const readVault = (): StoredVault | null => {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    return stored ? (JSON.parse(stored) as StoredVault) : null;
+  } catch (error) {
+    console.error("Error loading API key vault from localStorage:", error);
+    return null;
+  }
+};
+
+const writeVault = (vault: StoredVault): void => {
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // Not extractable: the key cannot be read back out of the session
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Throws if the key is wrong or the value was tampered with
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return new TextDecoder().decode(data);
+};
+
+// Encrypts every unlocked key with `key` into a new vault
+const buildVault = async (key: CryptoKey, salt: Uint8Array, iterations: number): Promise<StoredVault> => {
+  const keys: Record<string, EncryptedValue> = {};
+  for (const [id, apiKey] of unlockedKeys) {
+    keys[id] = await encrypt(key, apiKey);
+  }
+  return { version: 1, salt: toBase64(salt), iterations, check: await encrypt(key, CHECK_VALUE), keys };
+};
+
+/**
+ * Whether a passphrase has been set, i.e. API keys are stored encrypted.
+ */
+export function isApiKeyVaultSetUp(): boolean {
+  return readVault() !== null;
+}
+
+/**
+ * Whether the passphrase has been entered in this session, so keys can be read and saved.
+ */
+export function isApiKeyVaultUnlocked(): boolean {
+  return sessionKey !== null;
+}
+
+/**
+ * Sets the passphrase and unlocks the vault. Keys given here (e.g. found unencrypted in older
+ * settings) are encrypted right away.
+ * @param passphrase - The new passphrase.
+ * @param initialKeys - API keys by profile ID.
+ */
+export async function createApiKeyVault(passphrase: string, initialKeys: Record<string, string> = {}): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  unlockedKeys.clear();
+  for (const [id, apiKey] of Object.entries(initialKeys)) {
+    if (apiKey) unlockedKeys.set(id, apiKey);
+  }
+  writeVault(await buildVault(key, salt, PBKDF2_ITERATIONS));
+  sessionKey = key;
+  notify();
+}
+
+/**
+ * Unlocks the vault for this session by decrypting all stored keys.
+ * @param passphrase - The passphrase.
+ * @returns True if unlocked, false if the passphrase is wrong or no vault exists.
+ */
+export async function unlockApiKeyVault(passphrase: string): Promise<boolean> {
+  const vault = readVault();
+  if (!vault) return false;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    if ((await decrypt(key, vault.check)) !== CHECK_VALUE) return false;
+    const keys = new Map<string, string>();
+    for (const [id, value] of Object.entries(vault.keys)) {
+      keys.set(id, await decrypt(key, value));
+    }
+    unlockedKeys.clear();
+    keys.forEach((apiKey, id) => unlockedKeys.set(id, apiKey));
+    sessionKey = key;
+    notify();
+    return true;
+  } catch (error) {
+    // AES-GCM rejects data encrypted with another key, which is what a wrong passphrase gives
+    console.warn("Could not unlock API key vault:", error);
+    return false;
+  }
+}
+
+/**
+ * Forgets the passphrase and the decrypted keys until the vault is unlocked again.
+ */
+export function lockApiKeyVault(): void {
+  sessionKey = null;
+  unlockedKeys.clear();
+  notify();
+}
+
+/**
+ * Re-encrypts all keys with a new passphrase.
+ * @param current - The current passphrase.
+ * @param next - The new passphrase.
+ * @returns True if changed, false if the current passphrase is wrong.
+ */
+export async function changeApiKeyVaultPassphrase(current: string, next: string): Promise<boolean> {
+  if (!(await unlockApiKeyVault(current))) return false;
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(next, salt, PBKDF2_ITERATIONS);
+  writeVault(await buildVault(key, salt, PBKDF2_ITERATIONS));
+  sessionKey = key;
+  notify();
+  return true;
+}
+
+/**
+ * Deletes the vault with all stored keys, for a forgotten passphrase. The keys have to be entered again.
+ */
+export function resetApiKeyVault(): void {
+  localStorage.removeItem(VAULT_KEY);
+  sessionKey = null;
+  unlockedKeys.clear();
+  notify();
+}
+
+/**
+ * Returns a profile's API key, if the vault is unlocked and holds one.
+ * @param id - The profile ID.
+ */
+export function getApiKey(id: string): string | undefined {
+  return unlockedKeys.get(id);
+}
+
+/**
+ * Stores (or, with an empty key, removes) a profile's API key. The key is usable right away;
+ * it is written to localStorage once encrypted.
+ * @param id - The profile ID.
+ * @param apiKey - The plaintext key.
+ * @returns False if the vault is locked, in which case nothing is stored.
+ */
+export async function storeApiKey(id: string, apiKey: string): Promise<boolean> {
+  const key = sessionKey;
+  if (!key) return false;
+  if ((unlockedKeys.get(id) ?? '') === apiKey) return true;
+  if (apiKey) unlockedKeys.set(id, apiKey);
+  else unlockedKeys.delete(id);
+  const encrypted = apiKey ? await encrypt(key, apiKey) : null;
+  // Read after encrypting, so that concurrent calls don't overwrite each other's keys
+  const vault = readVault();
+  if (!vault || sessionKey !== key) return false; // Reset or re-encrypted meanwhile
+  if (encrypted) vault.keys[id] = encrypted;
+  else delete vault.keys[id];
+  writeVault(vault);
+  return true;
+}
+
+/**
+ * Registers a listener called when the vault is set up, unlocked, locked or reset.
+ * @returns A function that removes the listener.
+ */
+export function subscribeApiKeyVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
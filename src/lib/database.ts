@@ -1,222 +1,249 @@
 // src/lib/database.ts
-import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
-
-let SQL: SqlJsStatic | null = null;
-let db: Database | null = null;
+// RPC client for the database worker (database.worker.ts). sql.js, the schema migrations and
+// browser-storage persistence all live in the worker, so large queries and exports don't block the UI.
+import type {
+  DatabaseWorkerApi,
+  DatabaseWorkerMethod,
+  DatabaseWorkerRequest,
+  DatabaseWorkerResponse,
+  SqlParams,
+} from './databaseWorkerProtocol';
+
+export { ATTACHED_SCHEMA } from './databaseWorkerProtocol';
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let pageListenersRegistered = false;
+const pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+// Transactions are serialised through this promise chain; plain run/get calls wait for it
+let transactionTail: Promise<void> = Promise.resolve();
+
+// Query surface shared by dbService and the transaction handle passed to transaction() callbacks
+export interface DbExecutor {
+  run(sql: string, params?: SqlParams): Promise<void>;
+  get<T>(sql: string, params?: SqlParams): Promise<T[]>;
+  getOne<T>(sql: string, params?: SqlParams): Promise<T | null>;
+}
 
-// Define the expected path for the WASM file in the public directory
-const SQL_WASM_PATH = '/sql-wasm.wasm'; // Path relative to the public root
+// Fails every outstanding request, e.g. when the worker script could not be loaded
+function rejectPendingRequests(error: Error): void {
+  pendingRequests.forEach(({ reject }) => reject(error));
+  pendingRequests.clear();
+}
 
-async function initializeDatabase(): Promise<Database> {
-  if (db) {
-    return db;
+function getWorker(): Worker {
+  if (worker) {
+    return worker;
   }
-
-  if (!SQL) {
-    try {
-      console.log("Attempting to initialize SQL.js with locateFile...");
-      // Use locateFile to explicitly point to the WASM file served by Vite
-      SQL = await initSqlJs({
-        locateFile: (file) => {
-            console.log(`locateFile called with: ${file}. Returning: ${SQL_WASM_PATH}`);
-            // Ensure it always returns the correct path relative to the root
-            return SQL_WASM_PATH;
-        }
-      });
-      console.log("SQL.js initialized successfully.");
-    } catch (err) {
-        console.error("Failed to initialize SQL.js:", err);
-        if (err instanceof Error) {
-            console.error("Error name:", err.name);
-            console.error("Error message:", err.message);
-            console.error("Error stack:", err.stack);
-        }
-         throw new Error(`SQL.js initialization failed: ${err instanceof Error ? err.message : err}`);
+  const newWorker = new Worker(new URL('./database.worker.ts', import.meta.url), { type: 'module' });
+
+  newWorker.addEventListener('message', (event: MessageEvent<DatabaseWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+    pendingRequests.delete(response.id);
+    if (response.ok) {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.error));
     }
+  });
+
+  // An uncaught worker error leaves its state unknown; drop it so the next call starts a fresh one
+  newWorker.addEventListener('error', (event) => {
+    console.error('Database worker error:', event.message);
+    event.preventDefault();
+    newWorker.terminate();
+    if (worker === newWorker) {
+      worker = null;
+    }
+    rejectPendingRequests(new Error(`Database worker failed: ${event.message || 'unknown error'}`));
+  });
+
+  // Flush pending writes when the tab is hidden or closed, so the worker's debounce window isn't lost
+  if (!pageListenersRegistered) {
+    pageListenersRegistered = true;
+    const flushIfPending = () => {
+      call('flushPersist', true).catch(error => console.error('Error flushing database on page hide:', error));
+    };
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushIfPending();
+    });
+    window.addEventListener('pagehide', flushIfPending);
   }
 
-  // Initialize a new, empty database in memory
-  console.log('Initializing new in-memory database.');
-  try {
-    db = new SQL.Database();
-  } catch (error) {
-     console.error("Failed to create SQL.Database instance:", error);
-     throw new Error(`Failed to create database instance: ${error instanceof Error ? error.message : error}`);
-  }
-
+  worker = newWorker;
+  return worker;
+}
 
-  // Create tables if they don't exist (idempotent)
-  try {
-      db.run(`
-        CREATE TABLE IF NOT EXISTS projects (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          name TEXT NOT NULL,
-          description TEXT,
-          parameters TEXT, -- Store parameters as JSON string
-          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
-
-      db.run(`
-        CREATE TABLE IF NOT EXISTS chapters (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          projectId INTEGER NOT NULL,
-          title TEXT NOT NULL,
-          description TEXT NOT NULL,
-          content TEXT,
-          "order" INTEGER NOT NULL, -- Use quotes for reserved keyword
-          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (projectId) REFERENCES projects(id) ON DELETE CASCADE
-        );
-      `);
-
-       // ##@@TAG: Create Messages Table
-       db.run(`
-        CREATE TABLE IF NOT EXISTS messages (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          projectId INTEGER NOT NULL,
-          chapterId INTEGER, -- Optional: NULL if message is not chapter-specific
-          role TEXT NOT NULL, -- 'user', 'assistant', 'system'
-          content TEXT NOT NULL,
-          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (projectId) REFERENCES projects(id) ON DELETE CASCADE,
-          FOREIGN KEY (chapterId) REFERENCES chapters(id) ON DELETE CASCADE
-        );
-      `);
-
-
-      // Optional: Add triggers to update 'updatedAt' timestamps automatically
-      db.run(`
-        CREATE TRIGGER IF NOT EXISTS update_project_updatedAt
-        AFTER UPDATE ON projects
-        FOR EACH ROW
-        BEGIN
-          UPDATE projects SET updatedAt = CURRENT_TIMESTAMP WHERE id = OLD.id;
-        END;
-      `);
-
-      db.run(`
-        CREATE TRIGGER IF NOT EXISTS update_chapter_updatedAt
-        AFTER UPDATE ON chapters
-        FOR EACH ROW
-        BEGIN
-          UPDATE chapters SET updatedAt = CURRENT_TIMESTAMP WHERE id = OLD.id;
-        END;
-      `);
-      console.log("Database tables ensured.");
-  } catch (error) {
-      console.error("Error ensuring database tables:", error);
-      db?.close();
-      db = null;
-      throw new Error(`Failed to set up database tables: ${error instanceof Error ? error.message : error}`);
-  }
+// Sends a request to the worker and resolves with its result (rejects with the worker's error message)
+function call<M extends DatabaseWorkerMethod>(
+  method: M,
+  ...args: Parameters<DatabaseWorkerApi[M]>
+): Promise<ReturnType<DatabaseWorkerApi[M]>> {
+  const target = getWorker();
+  const request: DatabaseWorkerRequest<M> = { id: nextRequestId++, method, args };
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(request.id, {
+      resolve: result => resolve(result as ReturnType<DatabaseWorkerApi[M]>),
+      reject,
+    });
+    target.postMessage(request);
+  });
+}
 
+/**
+ * Starts the database worker and opens the database: restores the copy persisted in
+ * browser storage (or creates an empty one) and migrates it to the current schema.
+ * Safe to call repeatedly.
+ * @throws Error if SQL.js or the database could not be initialized.
+ */
+async function initializeDatabase(): Promise<void> {
+  await call('initialize');
+}
 
-  console.log('In-memory database initialized successfully.');
-  return db;
+/**
+ * Writes the current database to persistent browser storage right away,
+ * cancelling any pending debounced write.
+ * @returns True if the database was persisted, false otherwise.
+ */
+async function flushPersist(): Promise<boolean> {
+  return call('flushPersist', false);
 }
 
 /**
  * Exports the current database state as a Uint8Array.
- * This is used by the "Save Project to File" functionality.
+ * This is used by the "Save Project to File" functionality (manual backup;
+ * the database is also persisted to browser storage automatically).
  * @returns A Uint8Array representing the database file.
  */
 async function exportDatabase(): Promise<Uint8Array | null> {
-    // Ensure DB is initialized before exporting
-    const currentDb = await initializeDatabase();
-    try {
-        const data = currentDb.export();
-        console.log('Database exported to Uint8Array.');
-        return data;
-    } catch (error) {
-        console.error('Error exporting database:', error);
-        return null;
-    }
+    // Wait for open transactions; export() would otherwise end them
+    await transactionTail;
+    return call('exportDatabase');
 }
 
 /**
  * Loads database data from a Uint8Array, replacing the current in-memory database.
  * This is used by the "Load Project from File" functionality.
- * WARNING: This replaces the entire database state.
+ * WARNING: This replaces the entire database state, including the copy persisted in browser storage.
+ * The loaded file is migrated to the current schema version before it is used.
  * @param data - The Uint8Array containing the database file data.
  * @returns True if successful, false otherwise.
+ * @throws Error if the file comes from a newer schema version or cannot be migrated.
  */
 async function loadDatabaseFromFile(data: Uint8Array): Promise<boolean> {
-    if (!SQL) {
-         // Initialize SQL.js if it hasn't been already
-         try {
-            console.log("Initializing SQL.js for file load...");
-            // Use locateFile here too
-            SQL = await initSqlJs({
-                locateFile: (file) => {
-                    console.log(`locateFile (load) called with: ${file}. Returning: ${SQL_WASM_PATH}`);
-                    return SQL_WASM_PATH;
-                }
-            });
-            console.log("SQL.js initialized for file load.");
-         } catch (error) {
-             console.error('Failed to initialize SQL.js for loading:', error);
-             return false;
-         }
-    }
-    if (db) {
-        // Close the current database connection before loading a new one
-        try {
-            db.close();
-            console.log('Closed current in-memory database connection.');
-        } catch (error) {
-            console.error('Error closing current database:', error);
-            // Continue loading, but log the error
-        }
-    }
+    await transactionTail;
+    return call('loadDatabaseFromFile', data);
+}
 
-    try {
-        // Create a new database instance from the loaded data
-        console.log("Attempting to load database from provided data...");
-        db = new SQL.Database(data);
-        console.log('Database loaded from file data into memory.');
-        return true;
-    } catch (error) {
-        console.error('Error loading database from file data:', error);
-        db = null; // Ensure db is null if loading failed
-        return false;
-    }
+/**
+ * Makes a second database file available to queries under the ATTACHED_SCHEMA name
+ * (e.g. `SELECT * FROM incoming.projects`), without touching the current database.
+ * Used to merge-import projects; replaces any previously attached file.
+ * The file is migrated to the current schema in memory first.
+ * @param data - The Uint8Array containing the database file data.
+ * @throws Error if the file is not a readable database or comes from a newer schema version.
+ */
+async function attachDatabase(data: Uint8Array): Promise<void> {
+    await transactionTail; // ATTACH is not allowed inside a transaction
+    await call('attachDatabase', data);
 }
 
+/**
+ * Detaches the file attached by attachDatabase(), if any.
+ */
+async function detachDatabase(): Promise<void> {
+    await transactionTail;
+    await call('detachDatabase');
+}
 
 // Function to run SQL commands (INSERT, UPDATE, DELETE, CREATE, etc.)
-async function run(sql: string, params: (string | number | null | Uint8Array)[] = []): Promise<void> {
-  const currentDb = await initializeDatabase(); // Ensures DB is ready
-  currentDb.run(sql, params);
+async function run(sql: string, params: SqlParams = []): Promise<void> {
+  await transactionTail; // Don't interleave with an open transaction
+  await call('run', sql, params);
 }
 
 // Function to get results (SELECT) - returns array of objects
-async function get<T>(sql: string, params: (string | number | null | Uint8Array)[] = []): Promise<T[]> {
-    const currentDb = await initializeDatabase(); // Ensures DB is ready
-    const stmt = currentDb.prepare(sql);
-    stmt.bind(params);
-    const results: T[] = [];
-    while (stmt.step()) {
-        results.push(stmt.getAsObject() as T);
-    }
-    stmt.free();
-    return results;
+async function get<T>(sql: string, params: SqlParams = []): Promise<T[]> {
+    await transactionTail; // Don't read uncommitted data from an open transaction
+    return (await call('get', sql, params)) as T[];
 }
 
 // Function to get a single result (SELECT) - returns single object or null
-async function getOne<T>(sql: string, params: (string | number | null | Uint8Array)[] = []): Promise<T | null> {
+async function getOne<T>(sql: string, params: SqlParams = []): Promise<T | null> {
     const results = await get<T>(sql, params);
     return results.length > 0 ? results[0] : null;
 }
 
+/**
+ * Runs several statements atomically. The callback receives a `tx` executor; every statement
+ * must go through `tx` (not `dbService`), since plain calls wait until the transaction ends.
+ * If the callback throws, the transaction is rolled back and the error is rethrown.
+ * Transactions are queued, so only one is open at a time.
+ * @param work - Async callback performing the statements via `tx`.
+ * @returns Whatever the callback returns, after COMMIT.
+ */
+async function transaction<T>(work: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  const previous = transactionTail;
+  let release!: () => void;
+  transactionTail = new Promise<void>(resolve => { release = resolve; });
+  await previous;
+
+  try {
+    let active = true;
+    const assertActive = () => {
+      if (!active) throw new Error('Transaction handle used after the transaction finished.');
+    };
+    // The worker handles requests in order, so tx statements land between BEGIN and COMMIT
+    const tx: DbExecutor = {
+      async run(sql, params = []) {
+        assertActive();
+        await call('run', sql, params);
+      },
+      async get<R>(sql: string, params: SqlParams = []) {
+        assertActive();
+        return (await call('get', sql, params)) as R[];
+      },
+      async getOne<R>(sql: string, params: SqlParams = []) {
+        assertActive();
+        const results = (await call('get', sql, params)) as R[];
+        return results.length > 0 ? results[0] : null;
+      },
+    };
+
+    await call('begin');
+    try {
+      const result = await work(tx);
+      await call('commit');
+      return result;
+    } catch (error) {
+      try {
+        await call('rollback');
+        console.warn('Transaction rolled back:', error);
+      } catch (rollbackError) {
+        console.error('Error rolling back transaction:', rollbackError);
+      }
+      throw error;
+    } finally {
+      active = false;
+    }
+  } finally {
+    release();
+  }
+}
+
 
 export const dbService = {
   initialize: initializeDatabase,
   run,
   get,
   getOne,
+  transaction,
   exportDatabase,
   loadDatabaseFromFile,
+  attachDatabase,
+  detachDatabase,
+  flushPersist,
 };
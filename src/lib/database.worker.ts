@@ -0,0 +1,373 @@
+// src/lib/database.worker.ts
+// Hosts the sql.js database off the main thread. database.ts talks to it through the
+// message protocol in databaseWorkerProtocol.ts; requests are handled strictly in arrival order.
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { loadPersistedDatabase, persistDatabase } from './persistenceService';
+import { runMigrations } from './migrations';
+import { registerSearchFunctions } from './searchRanking';
+import { ATTACHED_SCHEMA } from './databaseWorkerProtocol';
+import type {
+  DatabaseWorkerApi,
+  DatabaseWorkerMethod,
+  DatabaseWorkerRequest,
+  DatabaseWorkerResponse,
+  SqlParams,
+} from './databaseWorkerProtocol';
+
+// The DOM lib types `self` as Window; in here it is the dedicated worker scope
+const workerScope = self as unknown as Worker;
+
+let SQL: SqlJsStatic | null = null;
+let db: Database | null = null;
+// Separate connection holding a file attached for merge-imports (see attachDatabase)
+let attachedDb: Database | null = null;
+
+// Define the expected path for the WASM file in the public directory
+const SQL_WASM_PATH = '/sql-wasm.wasm'; // Path relative to the public root
+
+// Debounce delay before a write is flushed to OPFS/IndexedDB
+const PERSIST_DEBOUNCE_MS = 1000;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Set between the client's begin and commit/rollback requests
+let inTransaction = false;
+
+/**
+ * Writes the current in-memory database to persistent browser storage right away,
+ * cancelling any pending debounced write.
+ * @returns True if the database was persisted, false otherwise.
+ */
+async function flushPersist(): Promise<boolean> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (!db) {
+    return false;
+  }
+  // export() ends any open transaction in sql.js, so wait until it is committed
+  if (inTransaction) {
+    schedulePersist();
+    return false;
+  }
+  try {
+    return await persistDatabase(exportSnapshot(db));
+  } catch (error) {
+    console.error('Error exporting database for persistence:', error);
+    return false;
+  }
+}
+
+// Schedules a debounced flush after a write
+function schedulePersist(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+  }
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    void flushPersist();
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+// sql.js keeps each database as a file in its in-memory file system; ATTACH refers to it by that name
+function getFilePath(database: Database): string {
+  return `/${(database as Database & { filename: string }).filename}`;
+}
+
+// export() closes and reopens the connection in sql.js, which drops custom SQL functions and attachments
+function exportSnapshot(database: Database): Uint8Array {
+  const data = database.export();
+  registerSearchFunctions(database);
+  if (attachedDb && database === db) {
+    database.run(`ATTACH DATABASE ? AS ${ATTACHED_SCHEMA}`, [getFilePath(attachedDb)]);
+  }
+  return data;
+}
+
+// Detaches and closes the merge-import file, if one is attached
+function detachDatabase(): void {
+  if (!attachedDb) return;
+  try {
+    db?.run(`DETACH DATABASE ${ATTACHED_SCHEMA}`);
+  } catch (error) {
+    console.error('Error detaching database:', error);
+  }
+  attachedDb.close();
+  attachedDb = null;
+}
+
+// sql.js only notices a corrupt file on the first query, so probe it before trusting it
+function isReadableDatabase(database: Database): boolean {
+  try {
+    database.exec('SELECT count(*) FROM sqlite_master');
+    return true;
+  } catch (error) {
+    console.error('Database file is not readable:', error);
+    return false;
+  }
+}
+
+async function loadSqlJs(): Promise<SqlJsStatic> {
+  if (SQL) {
+    return SQL;
+  }
+  try {
+    console.log("Attempting to initialize SQL.js with locateFile...");
+    // Use locateFile to explicitly point to the WASM file served by Vite
+    SQL = await initSqlJs({
+      locateFile: (file) => {
+          console.log(`locateFile called with: ${file}. Returning: ${SQL_WASM_PATH}`);
+          // Ensure it always returns the correct path relative to the root
+          return SQL_WASM_PATH;
+      }
+    });
+    console.log("SQL.js initialized successfully.");
+    return SQL;
+  } catch (err) {
+      console.error("Failed to initialize SQL.js:", err);
+      if (err instanceof Error) {
+          console.error("Error name:", err.name);
+          console.error("Error message:", err.message);
+          console.error("Error stack:", err.stack);
+      }
+       throw new Error(`SQL.js initialization failed: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function initializeDatabase(): Promise<Database> {
+  if (db) {
+    return db;
+  }
+
+  const sql = await loadSqlJs();
+
+  // Restore the persisted database if there is one, otherwise start with an empty one
+  const persistedData = await loadPersistedDatabase();
+  let newDb: Database;
+  try {
+    if (persistedData) {
+      console.log('Restoring database from browser storage.');
+      newDb = new sql.Database(persistedData);
+      if (!isReadableDatabase(newDb)) {
+        console.warn('Persisted database is corrupted, starting with an empty database.');
+        newDb.close();
+        newDb = new sql.Database();
+      }
+    } else {
+      console.log('Initializing new in-memory database.');
+      newDb = new sql.Database();
+    }
+  } catch (error) {
+     console.error("Failed to create SQL.Database instance:", error);
+     throw new Error(`Failed to create database instance: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Bring the schema up to date (creates tables on a fresh database)
+  try {
+      const applied = runMigrations(newDb);
+      registerSearchFunctions(newDb);
+      db = newDb;
+      if (applied > 0) {
+          schedulePersist();
+      }
+      console.log("Database schema is up to date.");
+  } catch (error) {
+      console.error("Error migrating database schema:", error);
+      newDb.close();
+      throw new Error(`Failed to set up database tables: ${error instanceof Error ? error.message : error}`);
+  }
+
+  console.log('In-memory database initialized successfully.');
+  return db;
+}
+
+async function loadDatabaseFromFile(data: Uint8Array): Promise<boolean> {
+    let sql: SqlJsStatic;
+    try {
+        sql = await loadSqlJs();
+    } catch (error) {
+        console.error('Failed to initialize SQL.js for loading:', error);
+        return false;
+    }
+    detachDatabase();
+    if (db) {
+        // Persist any pending writes first, so a failed load can fall back to them
+        if (persistTimer) {
+            await flushPersist();
+        }
+        // Close the current database connection before loading a new one
+        try {
+            db.close();
+            console.log('Closed current in-memory database connection.');
+        } catch (error) {
+            console.error('Error closing current database:', error);
+            // Continue loading, but log the error
+        }
+        db = null;
+    }
+
+    let loadedDb: Database;
+    try {
+        // Create a new database instance from the loaded data
+        console.log("Attempting to load database from provided data...");
+        loadedDb = new sql.Database(data);
+        if (!isReadableDatabase(loadedDb)) {
+            loadedDb.close();
+            return false;
+        }
+        console.log('Database loaded from file data into memory.');
+    } catch (error) {
+        console.error('Error loading database from file data:', error);
+        return false;
+    }
+
+    // Upgrade files from older builds; refuse files from newer ones
+    try {
+        runMigrations(loadedDb);
+        registerSearchFunctions(loadedDb);
+    } catch (error) {
+        loadedDb.close();
+        throw error;
+    }
+
+    db = loadedDb;
+    // Replace the persisted copy so the loaded file survives a reload
+    await flushPersist();
+    return true;
+}
+
+// Runs a prepared SELECT against the given database and collects the rows as objects
+function query(currentDb: Database, sql: string, params: SqlParams): unknown[] {
+    const stmt = currentDb.prepare(sql);
+    try {
+        stmt.bind(params);
+        const results: unknown[] = [];
+        while (stmt.step()) {
+            results.push(stmt.getAsObject());
+        }
+        return results;
+    } finally {
+        stmt.free();
+    }
+}
+
+type Handlers = {
+  [M in DatabaseWorkerMethod]: (...args: Parameters<DatabaseWorkerApi[M]>) => Promise<ReturnType<DatabaseWorkerApi[M]>>;
+};
+
+const handlers: Handlers = {
+  async initialize() {
+    await initializeDatabase();
+  },
+
+  async run(sql, params) {
+    const currentDb = await initializeDatabase();
+    currentDb.run(sql, params);
+    // Writes inside a transaction are persisted once it commits
+    if (!inTransaction) {
+      schedulePersist();
+    }
+  },
+
+  async get(sql, params) {
+    const currentDb = await initializeDatabase();
+    return query(currentDb, sql, params);
+  },
+
+  async begin() {
+    const currentDb = await initializeDatabase();
+    currentDb.run('BEGIN');
+    inTransaction = true;
+  },
+
+  async commit() {
+    const currentDb = await initializeDatabase();
+    try {
+      currentDb.run('COMMIT');
+    } finally {
+      inTransaction = false;
+    }
+    schedulePersist();
+  },
+
+  async rollback() {
+    const currentDb = await initializeDatabase();
+    try {
+      currentDb.run('ROLLBACK');
+    } finally {
+      inTransaction = false;
+    }
+  },
+
+  async exportDatabase() {
+    const currentDb = await initializeDatabase();
+    try {
+      const data = exportSnapshot(currentDb);
+      console.log('Database exported to Uint8Array.');
+      return data;
+    } catch (error) {
+      console.error('Error exporting database:', error);
+      return null;
+    }
+  },
+
+  loadDatabaseFromFile,
+
+  async attachDatabase(data) {
+    const currentDb = await initializeDatabase();
+    if (inTransaction) {
+      throw new Error('Cannot attach a database while a transaction is open.');
+    }
+    detachDatabase();
+    const sql = await loadSqlJs();
+    const incomingDb = new sql.Database(data);
+    if (!isReadableDatabase(incomingDb)) {
+      incomingDb.close();
+      throw new Error('The selected file is not a valid Spell-b00k database.');
+    }
+    try {
+      // Bring older files to the current schema, so imports can copy every table the same way
+      runMigrations(incomingDb);
+      currentDb.run(`ATTACH DATABASE ? AS ${ATTACHED_SCHEMA}`, [getFilePath(incomingDb)]);
+    } catch (error) {
+      incomingDb.close();
+      throw error;
+    }
+    attachedDb = incomingDb;
+    console.log(`Database file attached as "${ATTACHED_SCHEMA}".`);
+  },
+
+  async detachDatabase() {
+    detachDatabase();
+  },
+
+  async flushPersist(pendingOnly) {
+    if (pendingOnly && !persistTimer) {
+      return false;
+    }
+    return flushPersist();
+  },
+};
+
+// Chain every request onto the previous one, so async handlers never interleave
+let requestQueue: Promise<void> = Promise.resolve();
+
+async function handleRequest(request: DatabaseWorkerRequest): Promise<void> {
+  let response: DatabaseWorkerResponse;
+  try {
+    const handler = handlers[request.method] as (...args: unknown[]) => Promise<unknown>;
+    response = { id: request.id, ok: true, result: await handler(...request.args) };
+  } catch (error) {
+    response = { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  // Hand exported files over without copying them
+  if (response.ok && response.result instanceof Uint8Array) {
+    workerScope.postMessage(response, [response.result.buffer]);
+  } else {
+    workerScope.postMessage(response);
+  }
+}
+
+workerScope.addEventListener('message', (event: MessageEvent<DatabaseWorkerRequest>) => {
+  requestQueue = requestQueue.then(() => handleRequest(event.data));
+});
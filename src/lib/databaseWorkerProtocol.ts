@@ -0,0 +1,36 @@
+// src/lib/databaseWorkerProtocol.ts
+
+// Message types shared by the database worker (database.worker.ts) and its RPC client (database.ts).
+
+// Schema name under which attachDatabase() makes a second file available, e.g. `incoming.projects`
+export const ATTACHED_SCHEMA = 'incoming';
+
+export type SqlParams = (string | number | null | Uint8Array)[];
+
+// Operations the worker exposes. Arguments and results must be structured-cloneable.
+export interface DatabaseWorkerApi {
+  initialize(): void;
+  run(sql: string, params: SqlParams): void;
+  get(sql: string, params: SqlParams): unknown[];
+  begin(): void;
+  commit(): void;
+  rollback(): void;
+  exportDatabase(): Uint8Array | null;
+  loadDatabaseFromFile(data: Uint8Array): boolean;
+  attachDatabase(data: Uint8Array): void;
+  detachDatabase(): void;
+  flushPersist(pendingOnly: boolean): boolean;
+}
+
+export type DatabaseWorkerMethod = keyof DatabaseWorkerApi;
+
+export interface DatabaseWorkerRequest<M extends DatabaseWorkerMethod = DatabaseWorkerMethod> {
+  id: number;
+  method: M;
+  args: Parameters<DatabaseWorkerApi[M]>;
+}
+
+// Errors cross the worker boundary as their message only
+export type DatabaseWorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
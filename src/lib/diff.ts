@@ -0,0 +1,110 @@
+// src/lib/diff.ts
+
+// Line-based text diff for the side-by-side revision view.
+
+export type DiffRowType = 'equal' | 'removed' | 'added' | 'changed';
+
+// One row of a side-by-side diff. `left` is the old line, `right` the new one (null = no line on that side).
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+// Above this many LCS table cells the middle section is shown as a block replacement instead
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: 'equal' | 'removed' | 'added'; line: string };
+
+// Longest-common-subsequence diff of two line arrays
+function lcsDiff(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ type: 'removed' as const, line })),
+      ...b.map(line => ({ type: 'added' as const, line })),
+    ];
+  }
+
+  // table[i][j] = LCS length of a[i..] and b[j..], stored flat
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ type: 'removed', line: a[i++] });
+    } else {
+      ops.push({ type: 'added', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', line: a[i++] });
+  while (j < b.length) ops.push({ type: 'added', line: b[j++] });
+  return ops;
+}
+
+/**
+ * Computes a side-by-side line diff between two texts.
+ * Adjacent removed/added lines are paired into 'changed' rows.
+ * @param oldText - The previous text (left side).
+ * @param newText - The new text (right side).
+ * @returns The diff rows in display order.
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Strip the common prefix/suffix so the LCS table only covers the edited region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: Op[] = [
+    ...a.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...lcsDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      rows.push({ type: 'equal', left: ops[k].line, right: ops[k].line });
+      k++;
+      continue;
+    }
+    // Collect a block of removals followed by additions and pair them up line by line
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === 'removed') removed.push(ops[k++].line);
+    while (k < ops.length && ops[k].type === 'added') added.push(ops[k++].line);
+    const count = Math.max(removed.length, added.length);
+    for (let n = 0; n < count; n++) {
+      const left = n < removed.length ? removed[n] : null;
+      const right = n < added.length ? added[n] : null;
+      rows.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+      });
+    }
+  }
+  return rows;
+}
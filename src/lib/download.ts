@@ -0,0 +1,29 @@
+// src/lib/download.ts
+
+/**
+ * Builds a safe file name from a project (or chapter) name, as used for all downloads.
+ * @param name - The display name.
+ * @param extension - The file extension without the dot.
+ * @returns e.g. "my_ebook.db"; falls back to "spell-b00k" if nothing usable is left of the name.
+ */
+export function toFileName(name: string, extension: string): string {
+  return `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'spell-b00k'}.${extension}`;
+}
+
+/**
+ * Offers data to the user as a file download.
+ * @param content - The file contents.
+ * @param fileName - The suggested file name.
+ * @param mimeType - The MIME type of the file.
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,81 @@
+// src/lib/generationParameters.ts
+import type { GenerationParameters, GenerationTask, TaskGenerationParameters } from '../types/models';
+
+// Sampling settings are chosen per task (a plan wants less randomness than a chapter) in the
+// options, and a project can override single values in its ebook parameters.
+
+export const GENERATION_TASKS: { task: GenerationTask; label: string; description: string }[] = [
+  { task: 'plan', label: 'Plan', description: 'Generating the chapter plan' },
+  { task: 'chapter', label: 'Chapter', description: 'Writing chapter content' },
+  { task: 'chat', label: 'Chat', description: 'Chat replies' },
+  { task: 'rewrite', label: 'Rewrite', description: 'Working on existing text, e.g. describing imported chapters' },
+];
+
+// Allowed range of each numeric parameter, as accepted by OpenAI-compatible APIs
+export const GENERATION_LIMITS: Record<Exclude<keyof GenerationParameters, 'stop'>, { min: number; max: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 1_000_000, integer: true },
+  presencePenalty: { min: -2, max: 2 },
+  frequencyPenalty: { min: -2, max: 2 },
+  seed: { min: Number.MIN_SAFE_INTEGER, max: Number.MAX_SAFE_INTEGER, integer: true },
+};
+
+// OpenAI accepts at most four stop sequences
+export const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Keeps the valid values of stored or imported generation parameters; anything out of range,
+ * of the wrong type or unknown is dropped, so the provider's default applies instead.
+ * @param value - The parsed value, e.g. from localStorage or a project file.
+ * @returns The valid parameters (possibly empty).
+ */
+export function normalizeGenerationParameters(value: unknown): GenerationParameters {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const source = value as Record<string, unknown>;
+  const result: GenerationParameters = {};
+  for (const [key, limits] of Object.entries(GENERATION_LIMITS) as [keyof typeof GENERATION_LIMITS, (typeof GENERATION_LIMITS)[keyof typeof GENERATION_LIMITS]][]) {
+    const number = source[key];
+    if (typeof number !== 'number' || !Number.isFinite(number)) continue;
+    if (number < limits.min || number > limits.max || (limits.integer && !Number.isInteger(number))) continue;
+    result[key] = number;
+  }
+  if (Array.isArray(source.stop)) {
+    const stop = source.stop.filter((sequence): sequence is string => typeof sequence === 'string' && sequence !== '');
+    if (stop.length > 0) result.stop = stop.slice(0, MAX_STOP_SEQUENCES);
+  }
+  return result;
+}
+
+/**
+ * Normalises the per-task parameters, dropping unknown tasks and tasks without values.
+ * @param value - The parsed value, e.g. from localStorage or a project file.
+ */
+export function normalizeTaskGenerationParameters(value: unknown): TaskGenerationParameters {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const result: TaskGenerationParameters = {};
+  for (const { task } of GENERATION_TASKS) {
+    const parameters = normalizeGenerationParameters((value as Record<string, unknown>)[task]);
+    if (Object.keys(parameters).length > 0) result[task] = parameters;
+  }
+  return result;
+}
+
+/**
+ * Works out the parameters for a request: the task's defaults from the options, with the
+ * project's overrides for that task taking precedence value by value.
+ * @param task - The kind of request.
+ * @param defaults - Per-task parameters from the LLM settings.
+ * @param overrides - Per-task parameters from the project's ebook parameters, if any.
+ * @returns The parameters to send; unset values are left to the provider.
+ */
+export function resolveGenerationParameters(
+  task: GenerationTask,
+  defaults: TaskGenerationParameters,
+  overrides?: TaskGenerationParameters
+): GenerationParameters {
+  return {
+    ...normalizeGenerationParameters(defaults[task]),
+    ...normalizeGenerationParameters(overrides?.[task]),
+  };
+}
@@ -0,0 +1,9 @@
+// src/lib/isRecord.ts
+
+/**
+ * Checks that a parsed value (from JSON, localStorage or an API response) is a plain object.
+ * @param value - The value to check.
+ * @returns True for objects that are neither null nor an array.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
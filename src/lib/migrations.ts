@@ -0,0 +1,253 @@
+// src/lib/migrations.ts
+import type { Database } from 'sql.js';
+
+// A single schema step. `version` is the PRAGMA user_version the database has after `up` ran.
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Ordered list of schema migrations. Append new steps at the end with the next version number;
+ * never edit a step that has already shipped, since existing databases have recorded it as applied.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema (projects, chapters, messages, updatedAt triggers)',
+    up: (db) => {
+      // IF NOT EXISTS keeps this safe for files created before versioning (user_version 0)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          description TEXT,
+          parameters TEXT, -- Store parameters as JSON string
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS chapters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          projectId INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL,
+          content TEXT,
+          "order" INTEGER NOT NULL, -- Use quotes for reserved keyword
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (projectId) REFERENCES projects(id) ON DELETE CASCADE
+        );
+      `);
+
+      // ##@@TAG: Create Messages Table
+      db.run(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          projectId INTEGER NOT NULL,
+          chapterId INTEGER, -- Optional: NULL if message is not chapter-specific
+          role TEXT NOT NULL, -- 'user', 'assistant', 'system'
+          content TEXT NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (projectId) REFERENCES projects(id) ON DELETE CASCADE,
+          FOREIGN KEY (chapterId) REFERENCES chapters(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Triggers to update 'updatedAt' timestamps automatically
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS update_project_updatedAt
+        AFTER UPDATE ON projects
+        FOR EACH ROW
+        BEGIN
+          UPDATE projects SET updatedAt = CURRENT_TIMESTAMP WHERE id = OLD.id;
+        END;
+      `);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS update_chapter_updatedAt
+        AFTER UPDATE ON chapters
+        FOR EACH ROW
+        BEGIN
+          UPDATE chapters SET updatedAt = CURRENT_TIMESTAMP WHERE id = OLD.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Chapter revision history',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS chapter_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chapterId INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL,
+          content TEXT,
+          source TEXT NOT NULL, -- 'original', 'manual', 'llm', 'chat', 'restore'
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (chapterId) REFERENCES chapters(id) ON DELETE CASCADE
+        );
+      `);
+      db.run('CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapterId ON chapter_revisions(chapterId);');
+    },
+  },
+  {
+    version: 3,
+    description: 'Full-text search index over chapters and chat messages',
+    up: (db) => {
+      // FTS4 rather than FTS5: the sql.js build only compiles in FTS3/4, and a file containing an
+      // fts5 table could not be written to by builds without it. External content tables keep only
+      // the index; docid is the rowid of the indexed chapter/message.
+      db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS chapters_fts USING fts4(
+          content="chapters", title, description, content
+        );
+      `);
+      db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts4(
+          content="messages", content
+        );
+      `);
+
+      // Old index entries must be removed before the row changes, new ones added after it.
+      // Updates are limited to the indexed columns so the updatedAt trigger doesn't reindex twice.
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS chapters_fts_before_update BEFORE UPDATE OF title, description, content ON chapters
+        BEGIN
+          DELETE FROM chapters_fts WHERE docid = OLD.id;
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS chapters_fts_before_delete BEFORE DELETE ON chapters
+        BEGIN
+          DELETE FROM chapters_fts WHERE docid = OLD.id;
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS chapters_fts_after_update AFTER UPDATE OF title, description, content ON chapters
+        BEGIN
+          INSERT INTO chapters_fts(docid, title, description, content) VALUES (NEW.id, NEW.title, NEW.description, NEW.content);
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS chapters_fts_after_insert AFTER INSERT ON chapters
+        BEGIN
+          INSERT INTO chapters_fts(docid, title, description, content) VALUES (NEW.id, NEW.title, NEW.description, NEW.content);
+        END;
+      `);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_before_update BEFORE UPDATE OF content ON messages
+        BEGIN
+          DELETE FROM messages_fts WHERE docid = OLD.id;
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_before_delete BEFORE DELETE ON messages
+        BEGIN
+          DELETE FROM messages_fts WHERE docid = OLD.id;
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_after_update AFTER UPDATE OF content ON messages
+        BEGIN
+          INSERT INTO messages_fts(docid, content) VALUES (NEW.id, NEW.content);
+        END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_after_insert AFTER INSERT ON messages
+        BEGIN
+          INSERT INTO messages_fts(docid, content) VALUES (NEW.id, NEW.content);
+        END;
+      `);
+
+      // Index the rows that already exist
+      db.run("INSERT INTO chapters_fts(chapters_fts) VALUES ('rebuild');");
+      db.run("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');");
+    },
+  },
+  {
+    version: 4,
+    description: 'Book metadata for ebook exports',
+    up: (db) => {
+      // Kept out of `projects` so listing projects doesn't load cover images
+      db.run(`
+        CREATE TABLE IF NOT EXISTS book_metadata (
+          projectId INTEGER PRIMARY KEY,
+          author TEXT,
+          language TEXT NOT NULL DEFAULT 'en',
+          publisher TEXT,
+          isbn TEXT,
+          coverImage BLOB,
+          coverMimeType TEXT,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (projectId) REFERENCES projects(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Section kinds (front matter, chapters, back matter)',
+    up: (db) => {
+      // Existing rows are body chapters
+      db.run(`ALTER TABLE chapters ADD COLUMN kind TEXT NOT NULL DEFAULT 'chapter';`);
+    },
+  },
+];
+
+// The schema version this build of the app expects
+export const LATEST_SCHEMA_VERSION = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+/**
+ * Reads the schema version recorded in the database file.
+ * @param db - The database to inspect.
+ * @returns The PRAGMA user_version value (0 for files created before versioning).
+ */
+export function getSchemaVersion(db: Database): number {
+  const result = db.exec('PRAGMA user_version');
+  return Number(result[0]?.values[0]?.[0] ?? 0);
+}
+
+/**
+ * Brings the database schema up to LATEST_SCHEMA_VERSION.
+ * Each pending migration runs in its own transaction together with the user_version bump,
+ * so a failing step leaves the database at the last successfully applied version.
+ * @param db - The database to migrate.
+ * @returns The number of migrations that were applied.
+ * @throws Error if the database was created by a newer version of the app, or if a migration fails.
+ */
+export function runMigrations(db: Database): number {
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `This database uses schema version ${currentVersion}, but this version of Spell-b00k only supports up to version ${LATEST_SCHEMA_VERSION}. Please update the application to open it.`
+    );
+  }
+
+  const pending = migrations.filter(m => m.version > currentVersion);
+  for (const migration of pending) {
+    console.log(`Applying database migration ${migration.version}: ${migration.description}`);
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(`PRAGMA user_version = ${migration.version}`);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      console.error(`Database migration ${migration.version} failed:`, error);
+      throw new Error(`Database migration ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`Database schema migrated from version ${currentVersion} to ${LATEST_SCHEMA_VERSION}.`);
+  }
+  return pending.length;
+}
@@ -0,0 +1,139 @@
+// src/lib/persistenceService.ts
+
+// Browser-side persistence for the sql.js database file.
+// Prefers the Origin Private File System (OPFS) and falls back to IndexedDB
+// when OPFS (or writable file handles) are not available, e.g. older Safari.
+
+export type PersistenceBackend = 'opfs' | 'indexeddb' | 'none';
+
+const DB_FILE_NAME = 'spellb00k.db'; // File name inside the OPFS root
+const IDB_NAME = 'spellb00k';
+const IDB_STORE = 'database';
+const IDB_KEY = 'current';
+
+let resolvedBackend: PersistenceBackend | null = null;
+
+/**
+ * Detects which storage backend can be used in this browser.
+ * The result is cached so reads and writes always go to the same place.
+ * @returns The backend that will be used for persistence.
+ */
+async function resolveBackend(): Promise<PersistenceBackend> {
+  if (resolvedBackend) {
+    return resolvedBackend;
+  }
+
+  try {
+    if (navigator.storage?.getDirectory) {
+      const root = await navigator.storage.getDirectory();
+      const handle = await root.getFileHandle(DB_FILE_NAME, { create: true });
+      // createWritable is missing on the main thread in some browsers
+      if (typeof handle.createWritable === 'function') {
+        resolvedBackend = 'opfs';
+        return resolvedBackend;
+      }
+    }
+  } catch (error) {
+    console.warn('OPFS is not available, falling back to IndexedDB:', error);
+  }
+
+  resolvedBackend = typeof indexedDB !== 'undefined' ? 'indexeddb' : 'none';
+  if (resolvedBackend === 'none') {
+    console.warn('No persistent storage available. Database will only live in memory.');
+  }
+  return resolvedBackend;
+}
+
+// --- IndexedDB helpers ---
+
+function openIdb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const idb = await openIdb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = idb.transaction(IDB_STORE, mode);
+      const request = action(tx.objectStore(IDB_STORE));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    idb.close();
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Reads the last persisted database file, if any.
+ * @returns The database bytes, or null if nothing was persisted yet or reading failed.
+ */
+export async function loadPersistedDatabase(): Promise<Uint8Array | null> {
+  const backend = await resolveBackend();
+  try {
+    // Ask the browser not to evict our storage under pressure (best effort)
+    if (navigator.storage?.persist) {
+      await navigator.storage.persist();
+    }
+
+    if (backend === 'opfs') {
+      const root = await navigator.storage.getDirectory();
+      const handle = await root.getFileHandle(DB_FILE_NAME, { create: true });
+      const file = await handle.getFile();
+      if (file.size === 0) {
+        return null;
+      }
+      console.log(`Restored database from OPFS (${file.size} bytes).`);
+      return new Uint8Array(await file.arrayBuffer());
+    }
+
+    if (backend === 'indexeddb') {
+      const data = await idbRequest<Uint8Array | undefined>('readonly', store => store.get(IDB_KEY));
+      if (!data) {
+        return null;
+      }
+      console.log(`Restored database from IndexedDB (${data.byteLength} bytes).`);
+      return data;
+    }
+  } catch (error) {
+    console.error(`Error loading persisted database from ${backend}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Writes the database file to persistent browser storage, replacing the previous copy.
+ * @param data - The exported database bytes.
+ * @returns True if the data was persisted, false otherwise.
+ */
+export async function persistDatabase(data: Uint8Array): Promise<boolean> {
+  const backend = await resolveBackend();
+  try {
+    if (backend === 'opfs') {
+      const root = await navigator.storage.getDirectory();
+      const handle = await root.getFileHandle(DB_FILE_NAME, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(data);
+      await writable.close();
+      return true;
+    }
+
+    if (backend === 'indexeddb') {
+      await idbRequest<IDBValidKey>('readwrite', store => store.put(data, IDB_KEY));
+      return true;
+    }
+  } catch (error) {
+    console.error(`Error persisting database to ${backend}:`, error);
+  }
+  return false;
+}
@@ -0,0 +1,140 @@
+// src/lib/projectExportFormat.ts
+import type { EbookParameters, EbookProjectExport, ExportedChatMessage } from '../types/models';
+import { isSectionKind, SECTION_KIND_OPTIONS } from './sectionKinds';
+import { isRecord } from './isRecord';
+
+// Identifies Spell-b00k project JSON files
+export const PROJECT_EXPORT_FORMAT = 'spell-b00k.project';
+
+/**
+ * Version of the JSON layout written by exportProjectToJson. Bump it when the layout changes
+ * and teach validateProjectExport to read the older versions.
+ * 1 - name, description, parameters, chapters; optional chatMessages
+ * 2 - chapters have a `kind` (front matter, chapter or back matter)
+ */
+export const PROJECT_EXPORT_VERSION = 2;
+
+const MESSAGE_ROLES: ExportedChatMessage['role'][] = ['user', 'assistant', 'system'];
+
+// JSON has no undefined, and older exports wrote null for empty database columns
+const isOptionalString = (value: unknown): value is string | null | undefined =>
+  value === undefined || value === null || typeof value === 'string';
+
+/**
+ * Checks that parsed JSON is a project export this version of the app can read,
+ * and normalises it (null fields dropped, missing chapter `order` filled in from the position,
+ * missing chapter `kind` read as a body chapter).
+ * Exports without `format`/`version` are read as version 1.
+ * @param data - The parsed JSON.
+ * @returns The validated export.
+ * @throws Error listing every problem found, if the data is not a valid project export.
+ */
+export function validateProjectExport(data: unknown): EbookProjectExport {
+  if (!isRecord(data)) {
+    throw new Error('Invalid project file: expected a JSON object.');
+  }
+
+  if (data.format !== undefined && data.format !== PROJECT_EXPORT_FORMAT) {
+    throw new Error(`Invalid project file: unknown format "${String(data.format)}".`);
+  }
+  const version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid project file: "version" must be a positive integer.');
+  }
+  if (version > PROJECT_EXPORT_VERSION) {
+    throw new Error(
+      `This project file uses export format version ${version}, but this version of Spell-b00k only supports up to version ${PROJECT_EXPORT_VERSION}. Please update the application to import it.`
+    );
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push('"name" must be a non-empty string.');
+  }
+  if (!isOptionalString(data.description)) {
+    errors.push('"description" must be a string.');
+  }
+  if (data.parameters !== undefined && data.parameters !== null && !isRecord(data.parameters)) {
+    errors.push('"parameters" must be an object.');
+  }
+
+  const chapters: EbookProjectExport['chapters'] = [];
+  if (!Array.isArray(data.chapters)) {
+    errors.push('"chapters" must be an array.');
+  } else {
+    data.chapters.forEach((chapter: unknown, index) => {
+      const path = `chapters[${index}]`;
+      if (!isRecord(chapter)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      if (typeof chapter.title !== 'string') errors.push(`${path}.title must be a string.`);
+      if (typeof chapter.description !== 'string') errors.push(`${path}.description must be a string.`);
+      if (!isOptionalString(chapter.content)) errors.push(`${path}.content must be a string.`);
+      if (chapter.order !== undefined && typeof chapter.order !== 'number') errors.push(`${path}.order must be a number.`);
+      if (chapter.kind !== undefined && !isSectionKind(chapter.kind)) {
+        errors.push(`${path}.kind must be one of ${SECTION_KIND_OPTIONS.join(', ')}.`);
+      }
+      chapters.push({
+        title: String(chapter.title),
+        description: String(chapter.description),
+        content: typeof chapter.content === 'string' ? chapter.content : undefined,
+        order: typeof chapter.order === 'number' ? chapter.order : index,
+        kind: isSectionKind(chapter.kind) ? chapter.kind : 'chapter',
+      });
+    });
+  }
+
+  let chatMessages: ExportedChatMessage[] | undefined;
+  if (data.chatMessages !== undefined && data.chatMessages !== null) {
+    if (!Array.isArray(data.chatMessages)) {
+      errors.push('"chatMessages" must be an array.');
+    } else {
+      chatMessages = [];
+      data.chatMessages.forEach((message: unknown, index) => {
+        const path = `chatMessages[${index}]`;
+        if (!isRecord(message)) {
+          errors.push(`${path} must be an object.`);
+          return;
+        }
+        if (!MESSAGE_ROLES.includes(message.role as ExportedChatMessage['role'])) {
+          errors.push(`${path}.role must be one of ${MESSAGE_ROLES.join(', ')}.`);
+        }
+        if (typeof message.content !== 'string') errors.push(`${path}.content must be a string.`);
+        if (!isOptionalString(message.createdAt)) errors.push(`${path}.createdAt must be a string.`);
+        const chapterIndex = message.chapterIndex;
+        if (
+          chapterIndex !== undefined && chapterIndex !== null &&
+          (typeof chapterIndex !== 'number' || !Number.isInteger(chapterIndex) || chapterIndex < 0 || chapterIndex >= chapters.length)
+        ) {
+          errors.push(`${path}.chapterIndex must refer to an entry in "chapters".`);
+        }
+        chatMessages?.push({
+          role: message.role as ExportedChatMessage['role'],
+          content: String(message.content),
+          createdAt: typeof message.createdAt === 'string' ? message.createdAt : undefined,
+          chapterIndex: typeof chapterIndex === 'number' ? chapterIndex : undefined,
+        });
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 5).join(' ');
+    const more = errors.length > 5 ? ` (${errors.length - 5} more problems)` : '';
+    throw new Error(`Invalid project file: ${shown}${more}`);
+  }
+
+  // Chapters keep their position in the array (chapterIndex refers to it); `order` is only used for sorting on import
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : undefined,
+    name: (data.name as string).trim(),
+    description: typeof data.description === 'string' ? data.description : undefined,
+    parameters: isRecord(data.parameters) ? (data.parameters as EbookParameters) : undefined,
+    chapters,
+    chatMessages,
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/searchRanking.ts
+import type { Database } from 'sql.js';
+
+// FTS4 has no built-in ranking function, so search results are ordered by this BM25
+// implementation over matchinfo(..., 'pcnalx'). It runs as a SQL function inside the database worker.
+
+// Standard BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Scores one FTS4 match with BM25.
+ * @param matchinfo - The blob returned by matchinfo(table, 'pcnalx').
+ * @param weights - Per-column weights, in column order; missing columns default to 1.
+ * @returns The relevance score; higher is better.
+ */
+export function bm25(matchinfo: Uint8Array, weights: number[] = []): number {
+  const view = new DataView(matchinfo.buffer, matchinfo.byteOffset, matchinfo.byteLength);
+  const value = (index: number) => view.getUint32(index * 4, true);
+
+  // Layout: p (phrases), c (columns), n (rows), a[c] (average tokens), l[c] (row tokens), x[3*p*c] (hits)
+  const phraseCount = value(0);
+  const columnCount = value(1);
+  const rowCount = value(2);
+  const averageOffset = 3;
+  const lengthOffset = averageOffset + columnCount;
+  const hitsOffset = lengthOffset + columnCount;
+
+  let score = 0;
+  for (let phrase = 0; phrase < phraseCount; phrase++) {
+    for (let column = 0; column < columnCount; column++) {
+      const weight = weights[column] ?? 1;
+      const hitIndex = hitsOffset + 3 * (phrase * columnCount + column);
+      const hitsInRow = value(hitIndex);
+      if (weight === 0 || hitsInRow === 0) continue;
+
+      const rowsWithHit = value(hitIndex + 2);
+      // Lucene-style IDF stays positive even for terms found in most rows
+      const idf = Math.log(1 + (rowCount - rowsWithHit + 0.5) / (rowsWithHit + 0.5));
+      const averageLength = value(averageOffset + column) || 1;
+      const length = value(lengthOffset + column);
+      score += weight * idf * (hitsInRow * (K1 + 1)) / (hitsInRow + K1 * (1 - B + B * length / averageLength));
+    }
+  }
+  return score;
+}
+
+/**
+ * Registers the search helpers on a database connection. SQL functions are per connection,
+ * so this runs whenever a database is opened.
+ * Adds `fts_rank(matchinfo(table, 'pcnalx'), weights)`, where `weights` is a comma-separated list.
+ * @param db - The database connection.
+ */
+export function registerSearchFunctions(db: Database): void {
+  db.create_function('fts_rank', (matchinfo: Uint8Array | null, weights: string | null) => {
+    if (!matchinfo) return 0;
+    const columnWeights = (weights ?? '').split(',').filter(Boolean).map(Number);
+    return bm25(matchinfo, columnWeights);
+  });
+}
@@ -0,0 +1,72 @@
+// src/lib/sectionKinds.ts
+import type { SectionKind } from '../types/models';
+
+// Books are laid out in three zones: front matter, the chapters, then back matter. Sections are
+// only reordered within their zone, so the `order` column always lists front matter first.
+
+export type SectionZone = 'front' | 'body' | 'back';
+
+export interface SectionKindInfo {
+  label: string; // Shown in the UI and used as the heading of untitled sections
+  zone: SectionZone;
+}
+
+export const SECTION_KINDS: Record<SectionKind, SectionKindInfo> = {
+  dedication: { label: 'Dedication', zone: 'front' },
+  foreword: { label: 'Foreword', zone: 'front' },
+  preface: { label: 'Preface', zone: 'front' },
+  chapter: { label: 'Chapter', zone: 'body' },
+  epilogue: { label: 'Epilogue', zone: 'back' },
+  acknowledgements: { label: 'Acknowledgements', zone: 'back' },
+  appendix: { label: 'Appendix', zone: 'back' },
+  'about-the-author': { label: 'About the Author', zone: 'back' },
+};
+
+// Kinds in the order they are offered in pickers
+export const SECTION_KIND_OPTIONS = Object.keys(SECTION_KINDS) as SectionKind[];
+
+export const SECTION_ZONE_LABELS: Record<SectionZone, string> = {
+  front: 'Front Matter',
+  body: 'Chapters',
+  back: 'Back Matter',
+};
+
+const ZONE_RANK: Record<SectionZone, number> = { front: 0, body: 1, back: 2 };
+
+/**
+ * Checks a database or file value, so unknown kinds fall back to body chapters.
+ * @param value - The stored kind.
+ * @returns True if the value is a known section kind.
+ */
+export function isSectionKind(value: unknown): value is SectionKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SECTION_KINDS, value);
+}
+
+/**
+ * Position of a kind's zone: 0 for front matter, 1 for chapters, 2 for back matter.
+ * @param kind - The section kind.
+ */
+export function sectionZoneRank(kind: SectionKind): number {
+  return ZONE_RANK[SECTION_KINDS[kind]?.zone ?? 'body'];
+}
+
+/**
+ * Sorts sections into their zones, keeping the existing order within each zone.
+ * @param sections - Sections in their current order.
+ * @returns A new array with front matter first and back matter last.
+ */
+export function sortIntoZones<T extends { kind: SectionKind }>(sections: T[]): T[] {
+  return sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => sectionZoneRank(a.section.kind) - sectionZoneRank(b.section.kind) || a.index - b.index)
+    .map(({ section }) => section);
+}
+
+/**
+ * Checks that no section sits outside its zone, e.g. before validating a drag-and-drop move.
+ * @param sections - Sections in their proposed order.
+ * @returns True if front matter, chapters and back matter follow each other in that order.
+ */
+export function isInZoneOrder(sections: { kind: SectionKind }[]): boolean {
+  return sections.every((section, index) => index === 0 || sectionZoneRank(sections[index - 1].kind) <= sectionZoneRank(section.kind));
+}
@@ -1,14 +1,36 @@
 // src/lib/settingsService.ts
+import type { PdfLayoutOptions, TaskGenerationParameters } from '../types/models';
+import type { ProviderOptions } from '../providers/types';
+import { DEFAULT_PDF_LAYOUT } from '../exporters/pdfExporter';
+import { getProvider, resolveProviderOptions } from '../providers/registry';
+import { normalizeTaskGenerationParameters } from './generationParameters';
+import { isRecord } from './isRecord';
+import { createApiKeyVault, getApiKey, isApiKeyVaultUnlocked, storeApiKey, subscribeApiKeyVault } from './apiKeyVault';
 
 // Define the structure of our settings
 export interface LlmSettings {
   provider: 'openai' | 'ollama' | string; // Allow custom string for future providers
-  apiKey: string; // For OpenAI primarily
+  apiKey: string; // For OpenAI primarily; stored encrypted (see apiKeyVault), empty while locked
   baseUrl: string; // For Ollama or other self-hosted
   model: string; // Default model for the selected provider
+  generation: TaskGenerationParameters; // Sampling settings per task; projects can override them
+  providerOptions: Record<string, ProviderOptions>; // Each provider's own fields (see ProviderField), by provider ID
 }
 
+// A named set of LLM settings, so users can switch between e.g. a local server and OpenAI
+export interface LlmProfile extends LlmSettings {
+  id: string;
+  name: string;
+}
+
+export interface LlmProfiles {
+  activeProfileId: string;
+  profiles: LlmProfile[]; // Never empty
+}
+
+// Single settings object stored before profiles existed; migrated into the first profile
 const SETTINGS_KEY = 'spellb00k_llm_settings';
+const PROFILES_KEY = 'spellb00k_llm_profiles';
 
 // Default settings
 const defaultSettings: LlmSettings = {
@@ -16,47 +38,303 @@ const defaultSettings: LlmSettings = {
   apiKey: '',
   baseUrl: 'http://localhost:11434', // Default Ollama URL
   model: 'gpt-3.5-turbo', // Default OpenAI model
+  generation: {},
+  providerOptions: {},
 };
 
-/**
- * Loads LLM settings from localStorage.
- * @returns The loaded settings or default settings if none found.
- */
-export function loadLlmSettings(): LlmSettings {
+const DEFAULT_PROFILE_NAME = 'Default';
+
+const profileListeners = new Set<() => void>();
+
+const createProfileId = (): string => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Checks the options of registered providers against their fields. Options of providers that are
+// not registered (e.g. a plugin that is not loaded) are kept as they are.
+const normalizeProviderOptions = (value: unknown): Record<string, ProviderOptions> => {
+  if (!isRecord(value)) return {};
+  const result: Record<string, ProviderOptions> = {};
+  for (const [id, options] of Object.entries(value)) {
+    const provider = getProvider(id);
+    if (provider) result[id] = resolveProviderOptions(provider, options);
+    else if (isRecord(options)) result[id] = options as ProviderOptions;
+  }
+  return result;
+};
+
+// Before the provider registry, the built-in providers' options had fields of their own
+const legacyProviderOptions = (settings: Record<string, unknown>): Record<string, unknown> => ({
+  ...(settings.compatible !== undefined ? { 'openai-compatible': settings.compatible } : {}),
+  ...(settings.completion !== undefined ? { llamacpp: settings.completion, koboldcpp: settings.completion } : {}),
+});
+
+// Basic validation, used for everything that is stored
+const normalizeSettings = (settings: Partial<LlmSettings>): LlmSettings => {
+  const normalized: LlmSettings = {
+    provider: settings.provider?.trim() || defaultSettings.provider,
+    apiKey: settings.apiKey?.trim() || '', // Allow empty API key
+    baseUrl: settings.baseUrl?.trim() || defaultSettings.baseUrl,
+    model: settings.model?.trim() || '', // Allow empty model initially
+    generation: normalizeTaskGenerationParameters(settings.generation),
+    providerOptions: normalizeProviderOptions({
+      ...legacyProviderOptions(settings as Record<string, unknown>),
+      ...(isRecord(settings.providerOptions) ? settings.providerOptions : {}),
+    }),
+  };
+  // Set the provider's default model if model is empty
+  if (!normalized.model) {
+    normalized.model = getProvider(normalized.provider)?.defaultModel ?? '';
+  }
+  return normalized;
+};
+
+const normalizeProfile = (profile: Partial<LlmProfile>): LlmProfile => ({
+  id: profile.id || createProfileId(),
+  name: profile.name?.trim() || DEFAULT_PROFILE_NAME,
+  ...normalizeSettings(profile),
+});
+
+// Reads the settings stored by versions without profiles, if any
+const loadLegacySettings = (): LlmSettings => {
   try {
     const storedSettings = localStorage.getItem(SETTINGS_KEY);
     if (storedSettings) {
       const parsed = JSON.parse(storedSettings);
       // Merge with defaults to ensure all keys are present
-      return { ...defaultSettings, ...parsed };
+      return { ...defaultSettings, ...parsed, generation: normalizeTaskGenerationParameters(parsed.generation), providerOptions: {} };
     }
   } catch (error) {
     console.error("Error loading LLM settings from localStorage:", error);
   }
   return defaultSettings;
+};
+
+// API keys stored in plaintext by versions without encryption, by profile ID
+const readPlaintextKeys = (): Record<string, string> => {
+  const keys: Record<string, string> = {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '{}');
+    for (const profile of Array.isArray(parsed.profiles) ? parsed.profiles : []) {
+      if (typeof profile?.id === 'string' && typeof profile.apiKey === 'string' && profile.apiKey) keys[profile.id] = profile.apiKey;
+    }
+  } catch (error) {
+    console.error("Error loading LLM profiles from localStorage:", error);
+  }
+  return keys;
+};
+
+// API keys never reach localStorage in plaintext: they go to the vault, which must be unlocked to
+// change them. Keys from older versions stay where they are until encryptApiKeys moves them.
+const writeProfiles = (data: LlmProfiles): void => {
+  const plaintextKeys = readPlaintextKeys();
+  const unlocked = isApiKeyVaultUnlocked();
+  const profiles = data.profiles.map(profile => {
+    if (unlocked) {
+      storeApiKey(profile.id, profile.apiKey).catch(error => console.error("Error storing API key:", error));
+      return { ...profile, apiKey: '' };
+    }
+    if (profile.apiKey && profile.apiKey !== plaintextKeys[profile.id]) {
+      console.warn(`API key of profile "${profile.name}" not saved: set or enter the API key passphrase first.`);
+    }
+    return { ...profile, apiKey: plaintextKeys[profile.id] ?? '' };
+  });
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify({ ...data, profiles }));
+  } catch (error) {
+    console.error("Error saving LLM profiles to localStorage:", error);
+  }
+  profileListeners.forEach(listener => listener());
+};
+
+/**
+ * Loads all LLM profiles from localStorage. Settings stored before profiles existed become
+ * the "Default" profile.
+ * @returns The profiles (at least one) and the ID of the active one.
+ */
+export function loadLlmProfiles(): LlmProfiles {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      const profiles: LlmProfile[] = Array.isArray(parsed.profiles)
+        ? parsed.profiles.map(normalizeProfile).map((profile: LlmProfile) => ({ ...profile, apiKey: getApiKey(profile.id) ?? profile.apiKey }))
+        : [];
+      if (profiles.length > 0) {
+        const active = profiles.find(profile => profile.id === parsed.activeProfileId) ?? profiles[0];
+        return { activeProfileId: active.id, profiles };
+      }
+    }
+  } catch (error) {
+    console.error("Error loading LLM profiles from localStorage:", error);
+  }
+  // Stored right away so the profile keeps its ID across loads
+  const profile = normalizeProfile({ ...loadLegacySettings(), name: DEFAULT_PROFILE_NAME });
+  const data = { activeProfileId: profile.id, profiles: [profile] };
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Error saving LLM profiles to localStorage:", error);
+  }
+  return data;
+}
+
+/**
+ * Registers a listener called whenever the profiles or the active profile change.
+ * @returns A function that removes the listener.
+ */
+export function subscribeLlmProfiles(listener: () => void): () => void {
+  profileListeners.add(listener);
+  // Unlocking or locking the key store changes the profiles' API keys
+  const unsubscribeVault = subscribeApiKeyVault(listener);
+  return () => {
+    profileListeners.delete(listener);
+    unsubscribeVault();
+  };
+}
+
+/**
+ * Returns the active profile, whose settings every LLM request uses.
+ */
+export function getActiveLlmProfile(): LlmProfile {
+  const { activeProfileId, profiles } = loadLlmProfiles();
+  return profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+}
+
+/**
+ * Makes a profile the active one.
+ * @param id - The profile's ID; unknown IDs are ignored.
+ */
+export function setActiveLlmProfile(id: string): void {
+  const data = loadLlmProfiles();
+  if (!data.profiles.some(profile => profile.id === id)) return;
+  writeProfiles({ ...data, activeProfileId: id });
+}
+
+/**
+ * Saves a profile, replacing the stored one with the same ID or adding it.
+ * @param profile - The profile to save.
+ * @returns The saved (normalised) profile.
+ */
+export function saveLlmProfile(profile: LlmProfile): LlmProfile {
+  const data = loadLlmProfiles();
+  const saved = normalizeProfile(profile);
+  const index = data.profiles.findIndex(existing => existing.id === saved.id);
+  const profiles = index >= 0
+    ? data.profiles.map((existing, i) => (i === index ? saved : existing))
+    : [...data.profiles, saved];
+  writeProfiles({ ...data, profiles });
+  console.log("LLM profile saved:", { ...saved, apiKey: saved.apiKey ? '***' : '' });
+  return saved;
+}
+
+/**
+ * Returns `name`, or `name (2)`, `name (3)`, ... if a profile already uses it.
+ */
+export function uniqueLlmProfileName(name: string, profiles: LlmProfile[]): string {
+  const base = name.trim() || DEFAULT_PROFILE_NAME;
+  const taken = new Set(profiles.map(profile => profile.name.toLowerCase()));
+  let candidate = base;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})`;
+  return candidate;
+}
+
+/**
+ * Adds new profiles, e.g. a copy of the current one or profiles read from an export file.
+ * Names already in use get a number appended.
+ * @param entries - The profiles' names and settings.
+ * @returns The added profiles, with their new IDs.
+ */
+export function addLlmProfiles(entries: (Partial<LlmSettings> & { name: string })[]): LlmProfile[] {
+  const data = loadLlmProfiles();
+  const profiles = [...data.profiles];
+  const added = entries.map(entry => {
+    const profile = normalizeProfile({ ...entry, id: createProfileId(), name: uniqueLlmProfileName(entry.name, profiles) });
+    profiles.push(profile);
+    return profile;
+  });
+  writeProfiles({ ...data, profiles });
+  return added;
+}
+
+/**
+ * Deletes a profile. The last remaining profile cannot be deleted; if the active profile is
+ * deleted, the first remaining one becomes active.
+ * @param id - The profile's ID.
+ * @returns True if the profile was deleted.
+ */
+export function deleteLlmProfile(id: string): boolean {
+  const data = loadLlmProfiles();
+  const profiles = data.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === data.profiles.length || profiles.length === 0) return false;
+  const activeProfileId = data.activeProfileId === id ? profiles[0].id : data.activeProfileId;
+  writeProfiles({ activeProfileId, profiles });
+  storeApiKey(id, '').catch(error => console.error("Error removing API key:", error));
+  return true;
+}
+
+/**
+ * Whether API keys saved by older versions are still stored in plaintext.
+ */
+export function hasUnencryptedApiKeys(): boolean {
+  loadLlmProfiles(); // Moves settings from before profiles into the profile store
+  return Object.keys(readPlaintextKeys()).length > 0;
+}
+
+/**
+ * Sets the passphrase API keys are encrypted with, and encrypts the keys of all profiles that are
+ * still stored in plaintext (also removing the settings stored before profiles existed).
+ * @param passphrase - The new passphrase.
+ */
+export async function encryptApiKeys(passphrase: string): Promise<void> {
+  loadLlmProfiles();
+  await createApiKeyVault(passphrase, readPlaintextKeys());
+  localStorage.removeItem(SETTINGS_KEY);
+  writeProfiles(loadLlmProfiles());
+}
+
+/**
+ * Loads the settings of the active LLM profile.
+ * @returns The loaded settings or default settings if none found.
+ */
+export function loadLlmSettings(): LlmSettings {
+  const { provider, apiKey, baseUrl, model, generation, providerOptions } = getActiveLlmProfile();
+  return { provider, apiKey, baseUrl, model, generation, providerOptions };
 }
 
 /**
- * Saves LLM settings to localStorage.
+ * Saves LLM settings into the active profile, keeping its name.
  * @param settings - The settings object to save.
  */
 export function saveLlmSettings(settings: LlmSettings): void {
+  const active = getActiveLlmProfile();
+  saveLlmProfile({ ...active, ...normalizeSettings(settings), id: active.id, name: active.name });
+}
+
+const PDF_LAYOUT_KEY = 'spellb00k_pdf_layout';
+
+/**
+ * Loads the PDF page layout last used for exporting from localStorage.
+ * @returns The stored layout merged over the defaults, or the defaults if none is stored.
+ */
+export function loadPdfLayout(): PdfLayoutOptions {
   try {
-    // Basic validation before saving
-    const settingsToSave: LlmSettings = {
-        provider: settings.provider?.trim() || defaultSettings.provider,
-        apiKey: settings.apiKey?.trim() || '', // Allow empty API key
-        baseUrl: settings.baseUrl?.trim() || defaultSettings.baseUrl,
-        model: settings.model?.trim() || '', // Allow empty model initially
-    };
-    // Set default model based on provider if model is empty
-    if (!settingsToSave.model) {
-        settingsToSave.model = settingsToSave.provider === 'ollama' ? 'llama3' : defaultSettings.model; // Example default for ollama
+    const stored = localStorage.getItem(PDF_LAYOUT_KEY);
+    if (stored) {
+      return { ...DEFAULT_PDF_LAYOUT, ...JSON.parse(stored) };
     }
+  } catch (error) {
+    console.error("Error loading PDF layout from localStorage:", error);
+  }
+  return DEFAULT_PDF_LAYOUT;
+}
 
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settingsToSave));
-    console.log("LLM settings saved:", settingsToSave);
+/**
+ * Saves the PDF page layout to localStorage, so the next export starts from it.
+ * @param layout - The layout to save.
+ */
+export function savePdfLayout(layout: PdfLayoutOptions): void {
+  try {
+    localStorage.setItem(PDF_LAYOUT_KEY, JSON.stringify(layout));
   } catch (error) {
-    console.error("Error saving LLM settings to localStorage:", error);
+    console.error("Error saving PDF layout to localStorage:", error);
   }
 }
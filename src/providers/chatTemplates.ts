@@ -0,0 +1,106 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ChatTemplateId } from '../types/models';
+
+// Chat templates turn chat messages into the single prompt a completion endpoint expects, ending
+// where the assistant's reply starts. The BOS token is left out: llama.cpp and KoboldCpp add it.
+
+export interface RenderedPrompt {
+  prompt: string;
+  stop: string[]; // Where the reply ends (the template's end-of-turn markers)
+}
+
+interface ChatTemplate {
+  id: ChatTemplateId;
+  label: string;
+  render: (messages: TemplateMessage[]) => RenderedPrompt;
+}
+
+interface TemplateMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Alpaca has no system turn of its own; this is the preamble the format was published with
+const ALPACA_PREAMBLE = 'Below is an instruction that describes a task. Write a response that appropriately completes the request.';
+
+const CHAT_TEMPLATES: ChatTemplate[] = [
+  {
+    id: 'chatml',
+    label: 'ChatML (Qwen, Hermes, Yi, ...)',
+    render: messages => ({
+      prompt: messages.map(({ role, content }) => `<|im_start|>${role}\n${content}<|im_end|>\n`).join('') + '<|im_start|>assistant\n',
+      stop: ['<|im_end|>', '<|im_start|>'],
+    }),
+  },
+  {
+    id: 'llama3',
+    label: 'Llama 3',
+    render: messages => ({
+      prompt: messages.map(({ role, content }) => `<|start_header_id|>${role}<|end_header_id|>\n\n${content}<|eot_id|>`).join('')
+        + '<|start_header_id|>assistant<|end_header_id|>\n\n',
+      stop: ['<|eot_id|>', '<|start_header_id|>'],
+    }),
+  },
+  {
+    id: 'mistral',
+    label: 'Mistral Instruct',
+    // No system role: the system prompt goes in front of the first instruction
+    render: messages => {
+      const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+      let prompt = '';
+      let pendingSystem = system;
+      for (const { role, content } of messages) {
+        if (role === 'user') {
+          prompt += `[INST] ${pendingSystem ? `${pendingSystem}\n\n` : ''}${content} [/INST]`;
+          pendingSystem = '';
+        } else if (role === 'assistant') {
+          prompt += ` ${content}</s>`;
+        }
+      }
+      if (pendingSystem) prompt += `[INST] ${pendingSystem} [/INST]`; // Only system messages
+      return { prompt, stop: ['</s>', '[INST]'] };
+    },
+  },
+  {
+    id: 'alpaca',
+    label: 'Alpaca',
+    render: messages => {
+      const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+      const turns = messages
+        .filter(message => message.role !== 'system')
+        .map(({ role, content }) => (role === 'user' ? `### Instruction:\n${content}\n\n` : `### Response:\n${content}\n\n`))
+        .join('');
+      return { prompt: `${system || ALPACA_PREAMBLE}\n\n${turns}### Response:\n`, stop: ['### Instruction:', '### Response:'] };
+    },
+  },
+];
+
+export const CHAT_TEMPLATE_OPTIONS: { id: ChatTemplateId; label: string }[] = CHAT_TEMPLATES.map(({ id, label }) => ({ id, label }));
+
+export const isChatTemplateId = (value: unknown): value is ChatTemplateId =>
+  CHAT_TEMPLATES.some(template => template.id === value);
+
+// Text of a message; content parts other than text (images, audio) cannot go into a text prompt
+const messageText = (content: ChatCompletionMessageParam['content']): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+};
+
+/**
+ * Renders chat messages into a completion prompt with the given template.
+ * Developer messages count as system messages; tool and function messages are left out.
+ * @param messages - The chat messages, as sent to chat completion endpoints.
+ * @param templateId - The template the model expects.
+ * @returns The prompt, ending where the assistant's reply starts, and the template's stop sequences.
+ */
+export function renderChatTemplate(messages: ChatCompletionMessageParam[], templateId: ChatTemplateId): RenderedPrompt {
+  const template = CHAT_TEMPLATES.find(candidate => candidate.id === templateId) ?? CHAT_TEMPLATES[0];
+  const templateMessages: TemplateMessage[] = [];
+  for (const message of messages) {
+    const role = message.role === 'developer' ? 'system' : message.role;
+    if (role !== 'system' && role !== 'user' && role !== 'assistant') continue;
+    templateMessages.push({ role, content: messageText(message.content) });
+  }
+  return template.render(templateMessages);
+}
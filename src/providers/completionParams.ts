@@ -0,0 +1,26 @@
+import type { ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import type { ProviderConfig } from './types';
+
+type SamplingParams = Pick<
+  ChatCompletionCreateParams,
+  'temperature' | 'top_p' | 'max_tokens' | 'presence_penalty' | 'frequency_penalty' | 'seed' | 'stop'
+>;
+
+/**
+ * Maps the generation parameters of a provider config to chat completion request fields.
+ * Unset values are left out, so the server's defaults apply.
+ * @param config - The provider config.
+ * @returns The fields to spread into `chat.completions.create`.
+ */
+export function samplingParams(config: ProviderConfig): SamplingParams {
+  const params: SamplingParams = {
+    temperature: config.temperature,
+    top_p: config.topP,
+    max_tokens: config.maxTokens,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+    seed: config.seed,
+    stop: config.stop?.length ? config.stop : undefined,
+  };
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as SamplingParams;
+}
@@ -0,0 +1,318 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { CompletionModeOptions, GenerationTask } from '../types/models';
+import type { LlmProvider, ProviderConfig, TokenHandler } from './types';
+import { CHAT_TEMPLATE_OPTIONS, renderChatTemplate } from './chatTemplates';
+import { GENERATION_TASKS } from '../lib/generationParameters';
+import { isRecord } from '../lib/isRecord';
+
+// Completion-mode providers send one text prompt, built from the chat messages with a chat template,
+// to the server's native completion endpoint instead of /v1/chat/completions. Some creative-writing
+// models work best this way, and it allows grammar-constrained output (GBNF).
+
+export const DEFAULT_COMPLETION_MODE_OPTIONS: CompletionModeOptions = {
+  template: 'chatml',
+  grammar: '',
+  grammarTasks: ['plan'],
+};
+
+// llmService passes the options as resolveProviderOptions read them from the fields below
+const readOptions = (config: ProviderConfig): CompletionModeOptions =>
+  ({ ...DEFAULT_COMPLETION_MODE_OPTIONS, ...config.options }) as CompletionModeOptions;
+
+/**
+ * The grammar a request should be constrained by, if the options name its task.
+ * @param options - The profile's completion-mode options.
+ * @param task - The kind of request; requests without one (model lists, tests) get no grammar.
+ */
+export function grammarForTask(options: CompletionModeOptions, task?: GenerationTask): string | undefined {
+  return task && options.grammarTasks.includes(task) && options.grammar.trim() ? options.grammar : undefined;
+}
+
+// How one server's native API is spoken
+interface CompletionBackend {
+  id: string;
+  label: string; // Provider name, also used in log messages
+  baseUrlPlaceholder: string; // The server's default address
+  generatePath: string;
+  streamPath: string;
+  body: (prompt: string, stop: string[], grammar: string | undefined, config: ProviderConfig) => Record<string, unknown>;
+  responseText: (data: unknown) => string | undefined; // Text of a whole response
+  eventText: (data: unknown) => string | undefined; // Text of one streamed event
+  listModels: (baseUrl: string, headers: Record<string, string>) => Promise<string[]>;
+  abort?: (baseUrl: string, headers: Record<string, string>) => void; // Stops generation on the server
+}
+
+// Leaves out unset values, so the server's defaults apply
+const definedOnly = (body: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+
+// The native endpoints live next to /v1, so a base URL copied from an OpenAI-style setup works too
+const serverRoot = (baseUrl: string): string => baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+
+const getJson = async (url: string, headers: Record<string, string>, init: RequestInit = {}): Promise<unknown> => {
+  const response = await fetch(url, { ...init, headers: { ...headers, ...(init.body ? { 'Content-Type': 'application/json' } : {}) } });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Reads a server-sent events response, passing the parsed JSON of each `data:` field on.
+ * Resolves when the stream ends; rejects if it is aborted.
+ */
+const readEvents = async (response: Response, onData: (data: unknown) => void): Promise<void> => {
+  if (!response.body) throw new Error('The server sent no response body.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const flush = (block: string) => {
+    const data = block.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trimStart()).join('\n');
+    if (data && data !== '[DONE]') onData(JSON.parse(data));
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(flush);
+  }
+  flush(buffer + decoder.decode());
+};
+
+const llamacppBackend: CompletionBackend = {
+  id: 'llamacpp',
+  label: 'llama.cpp',
+  baseUrlPlaceholder: 'http://localhost:8080',
+  generatePath: '/completion',
+  streamPath: '/completion',
+  body: (prompt, stop, grammar, config) => definedOnly({
+    prompt,
+    n_predict: config.maxTokens,
+    temperature: config.temperature,
+    top_p: config.topP,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+    seed: config.seed,
+    stop,
+    grammar,
+    cache_prompt: true, // Reuses the evaluated prompt when only the end changes, as in chat
+  }),
+  responseText: data => (isRecord(data) && typeof data.content === 'string' ? data.content : undefined),
+  eventText: data => (isRecord(data) && typeof data.content === 'string' ? data.content : undefined),
+  async listModels(baseUrl, headers) {
+    const root = serverRoot(baseUrl);
+    try {
+      const data = await getJson(`${root}/v1/models`, headers);
+      if (isRecord(data) && Array.isArray(data.data)) {
+        return data.data.map(model => (isRecord(model) ? String(model.id) : '')).filter(Boolean).sort();
+      }
+    } catch (error) {
+      console.warn('llama.cpp /v1/models failed, trying /props:', error);
+    }
+    // Older servers only describe the loaded model in /props
+    const props = await getJson(`${root}/props`, headers);
+    const settings = isRecord(props) && isRecord(props.default_generation_settings) ? props.default_generation_settings : {};
+    const model = isRecord(props) && typeof props.model_path === 'string' ? props.model_path : settings.model;
+    return typeof model === 'string' && model ? [model] : [];
+  },
+};
+
+// KoboldCpp generates only 100 tokens unless told otherwise, which cuts chapters short
+const KOBOLDCPP_MAX_LENGTH = 1024;
+
+const koboldcppBackend: CompletionBackend = {
+  id: 'koboldcpp',
+  label: 'KoboldCpp',
+  baseUrlPlaceholder: 'http://localhost:5001',
+  generatePath: '/api/v1/generate',
+  streamPath: '/api/extra/generate/stream',
+  body: (prompt, stop, grammar, config) => definedOnly({
+    prompt,
+    max_length: config.maxTokens ?? KOBOLDCPP_MAX_LENGTH,
+    temperature: config.temperature,
+    top_p: config.topP,
+    presence_penalty: config.presencePenalty,
+    sampler_seed: config.seed,
+    stop_sequence: stop,
+    grammar,
+  }),
+  responseText: data => {
+    const result = isRecord(data) && Array.isArray(data.results) ? data.results[0] : undefined;
+    return isRecord(result) && typeof result.text === 'string' ? result.text : undefined;
+  },
+  eventText: data => (isRecord(data) && typeof data.token === 'string' ? data.token : undefined),
+  async listModels(baseUrl, headers) {
+    const data = await getJson(`${serverRoot(baseUrl)}/api/v1/model`, headers);
+    return isRecord(data) && typeof data.result === 'string' && data.result ? [data.result] : [];
+  },
+  abort(baseUrl, headers) {
+    // A closed connection does not stop KoboldCpp; without this it keeps the GPU busy
+    fetch(`${serverRoot(baseUrl)}/api/extra/abort`, { method: 'POST', headers }).catch(error =>
+      console.warn('Could not stop KoboldCpp generation:', error)
+    );
+  },
+};
+
+const createCompletionProvider = (backend: CompletionBackend): LlmProvider => {
+  const { label } = backend;
+
+  // llama.cpp (--api-key) and KoboldCpp (--password) both take a bearer token
+  const authHeaders = (config: ProviderConfig): Record<string, string> =>
+    config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  // The template's end-of-turn markers stop the reply, in addition to the configured stop sequences
+  const prepare = (messages: ChatCompletionMessageParam[], config: ProviderConfig) => {
+    if (!config.baseUrl) {
+      console.error(`${label} Base URL is required but not provided in settings.`);
+      throw new Error(`${label} Base URL missing.`);
+    }
+    const options = readOptions(config);
+    const { prompt, stop } = renderChatTemplate(messages, options.template);
+    const grammar = grammarForTask(options, config.task);
+    return { root: serverRoot(config.baseUrl), grammar, body: backend.body(prompt, [...new Set([...stop, ...(config.stop ?? [])])], grammar, config) };
+  };
+
+  return {
+    id: backend.id,
+    name: label,
+    fields: [
+      {
+        key: 'baseUrl',
+        type: 'url',
+        label: 'Base URL',
+        required: true,
+        placeholder: backend.baseUrlPlaceholder,
+        help: 'Ensure server is running and accessible (check network/CORS).',
+      },
+      { key: 'apiKey', type: 'password', label: 'API Key' },
+      {
+        key: 'template',
+        type: 'select',
+        label: 'Chat Template',
+        choices: CHAT_TEMPLATE_OPTIONS.map(({ id, label: templateLabel }) => ({ value: id, label: templateLabel })),
+        default: DEFAULT_COMPLETION_MODE_OPTIONS.template,
+        help: 'Use the format the model was trained on (see its model card).',
+      },
+      {
+        key: 'grammar',
+        type: 'textarea',
+        label: 'Grammar (GBNF)',
+        placeholder: 'root ::= chapter+\nchapter ::= "Chapter " [0-9]+ ": " [^\\n]+ "\\n"',
+        help: 'Leave empty for unconstrained output.',
+      },
+      {
+        key: 'grammarTasks',
+        type: 'checkboxes',
+        label: 'Grammar Applies To',
+        choices: GENERATION_TASKS.map(({ task, label: taskLabel }) => ({ value: task, label: taskLabel })),
+        default: DEFAULT_COMPLETION_MODE_OPTIONS.grammarTasks,
+      },
+    ],
+    capabilities: { streaming: true, modelList: true, customModelName: false, grammar: true },
+
+    async listModels(config: ProviderConfig): Promise<string[] | null> {
+      if (!config.baseUrl) {
+        console.error(`${label} Base URL is required for listing models.`);
+        return null;
+      }
+      try {
+        console.log(`Fetching models from ${label}...`);
+        const models = await backend.listModels(config.baseUrl, authHeaders(config));
+        console.log(`Fetched ${models.length} models from ${label}.`);
+        return models;
+      } catch (error) {
+        console.error(`Error fetching ${label} models:`, error);
+        return null;
+      }
+    },
+
+    async getChatCompletion(
+      messages: ChatCompletionMessageParam[],
+      config: ProviderConfig,
+      signal?: AbortSignal
+    ): Promise<string | null> {
+      try {
+        const { root, grammar, body } = prepare(messages, config);
+        console.log(`Sending completion request to ${label}${grammar ? ' with grammar' : ''}...`);
+        const data = await getJson(`${root}${backend.generatePath}`, authHeaders(config), {
+          method: 'POST',
+          body: JSON.stringify(body),
+          signal,
+        });
+        const responseContent = backend.responseText(data);
+        if (!responseContent) {
+          console.warn(`${label} completion response was empty.`);
+          return null;
+        }
+        console.log(`Received ${label} completion response.`);
+        return responseContent;
+      } catch (error) {
+        if (signal?.aborted) {
+          console.log(`${label} completion request cancelled.`);
+          if (config.baseUrl) backend.abort?.(config.baseUrl, authHeaders(config));
+          return null;
+        }
+        console.error(`Error getting ${label} completion:`, error);
+        return null;
+      }
+    },
+
+    async streamChatCompletion(
+      messages: ChatCompletionMessageParam[],
+      config: ProviderConfig,
+      onToken: TokenHandler,
+      signal?: AbortSignal
+    ): Promise<string | null> {
+      try {
+        const { root, grammar, body } = prepare(messages, config);
+        console.log(`Streaming completion from ${label}${grammar ? ' with grammar' : ''}...`);
+        const response = await fetch(`${root}${backend.streamPath}`, {
+          method: 'POST',
+          headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, stream: true }),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status} ${response.statusText}`);
+        }
+
+        let responseContent = '';
+        await readEvents(response, data => {
+          const token = backend.eventText(data);
+          if (token) {
+            responseContent += token;
+            onToken(token);
+          }
+        });
+
+        if (signal?.aborted) {
+          console.log(`${label} completion stream cancelled.`);
+          return null;
+        }
+        if (!responseContent) {
+          console.warn(`${label} completion stream was empty.`);
+          return null;
+        }
+        console.log(`Received ${label} completion stream.`);
+        return responseContent;
+      } catch (error) {
+        if (signal?.aborted) {
+          console.log(`${label} completion stream cancelled.`);
+          if (config.baseUrl) backend.abort?.(config.baseUrl, authHeaders(config));
+          return null;
+        }
+        console.error(`Error streaming ${label} completion:`, error);
+        return null;
+      }
+    },
+
+    async testConnection(config: ProviderConfig): Promise<boolean> {
+      return (await this.listModels(config)) !== null;
+    },
+  };
+};
+
+export const llamacppProvider = createCompletionProvider(llamacppBackend);
+export const koboldcppProvider = createCompletionProvider(koboldcppBackend);
@@ -1,6 +1,8 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import type { LlmProvider, ProviderConfig } from './types';
+import type { LlmProvider, ProviderConfig, TokenHandler } from './types';
+import { samplingParams } from './completionParams';
+import { getOpenAiChat, logOpenAiApiError, streamOpenAiChat } from './openaiChat';
 
 // Helper to create OpenAI client instance configured for LMStudio
 const getClient = (config: ProviderConfig): OpenAI => {
@@ -17,6 +19,13 @@ const getClient = (config: ProviderConfig): OpenAI => {
 };
 
 export const lmstudioProvider: LlmProvider = {
+  id: 'lmstudio',
+  name: 'LM Studio',
+  fields: [
+    { key: 'baseUrl', type: 'url', label: 'LM Studio Base URL', required: true, placeholder: 'http://localhost:1234/v1', help: 'Include /v1 in the URL.' },
+  ],
+  capabilities: { streaming: true, modelList: true, customModelName: false, grammar: false },
+
   async listModels(config: ProviderConfig): Promise<string[] | null> {
     try {
       const openai = getClient(config);
@@ -29,43 +38,37 @@ export const lmstudioProvider: LlmProvider = {
       return models;
     } catch (error) {
       console.error('Error fetching LMStudio models:', error);
-      if (error instanceof OpenAI.APIError) {
-        console.error(`LMStudio API Error: ${error.status} - ${error.message}`, error.error);
-      }
+      logOpenAiApiError('LMStudio', error);
       return null;
     }
   },
 
   async getChatCompletion(
     messages: ChatCompletionMessageParam[],
-    config: ProviderConfig
+    config: ProviderConfig,
+    signal?: AbortSignal
   ): Promise<string | null> {
-    try {
-      const openai = getClient(config);
-      console.log(`Sending chat completion request to LMStudio model "${config.model}"...`);
-      const chatCompletion = await openai.chat.completions.create({
-        messages: messages,
-        // For LMStudio, the model parameter might need to be the specific identifier
-        // shown in LMStudio, not just a generic name. User needs to ensure this matches.
-        model: config.model,
-        // Add temperature etc. if supported and needed
-      });
-
-      const responseContent = chatCompletion.choices[0]?.message?.content;
+    return getOpenAiChat('LMStudio', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      // For LMStudio, the model parameter might need to be the specific identifier
+      // shown in LMStudio, not just a generic name. User needs to ensure this matches.
+      model: config.model,
+      ...samplingParams(config),
+    }, { signal }), signal);
+  },
 
-      if (!responseContent) {
-        console.warn('LMStudio chat response was empty.');
-        return null;
-      }
-      console.log('Received LMStudio chat response.');
-      return responseContent;
-    } catch (error) {
-      console.error('Error getting LMStudio chat completion:', error);
-       if (error instanceof OpenAI.APIError) {
-        console.error(`LMStudio API Error: ${error.status} - ${error.message}`, error.error);
-      }
-      return null;
-    }
+  async streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return streamOpenAiChat('LMStudio', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      model: config.model,
+      ...samplingParams(config),
+      stream: true,
+    }, { signal }), onToken, signal);
   },
 
    async testConnection(config: ProviderConfig): Promise<boolean> {
@@ -0,0 +1,90 @@
+import type { GenerationTask } from '../types/models';
+
+// Canned responses of the mock provider. The plans cover what parseEbookPlanResponse has to cope
+// with: the format the plan prompt asks for, and the ways models get it wrong.
+
+export type MockPlanFixtureId = 'well-formed' | 'partial' | 'no-descriptions' | 'unstructured';
+
+export const MOCK_PLAN_FIXTURES: { id: MockPlanFixtureId; label: string; text: string }[] = [
+  {
+    id: 'well-formed',
+    label: 'Well-formed plan (4 chapters)',
+    text: `Chapter 1: The Lighthouse Keeper
+Description: Mara inherits a lighthouse on a remote island and finds her predecessor's logbook.
+
+Chapter 2: Signals in the Fog
+Description: Strange lights answer the lighthouse at night. Mara starts decoding them
+and realises the logbook predicted each one.
+
+Chapter 3: The Drowned Archive
+Description: A storm uncovers a flooded cellar full of letters from the island's first keepers.
+
+Chapter 4: Keeping the Light
+Description: Mara decides what the light is for, and who it should guide home.`,
+  },
+  {
+    id: 'partial',
+    label: 'Partly malformed plan (missing number and description)',
+    text: `Here is a plan for your ebook:
+
+Chapter 1: Beginnings
+Description: The hero leaves home.
+
+Chapter Two - The Road
+Description: A chapter whose heading has no number, so its title is not recognised.
+
+Chapter 3: The Return
+
+Chapter 4: Home Again
+Description: The hero comes back changed.`,
+  },
+  {
+    id: 'no-descriptions',
+    label: 'Malformed plan (chapters without descriptions)',
+    text: `Chapter 1: Arrival
+Chapter 2: Departure
+Chapter 3: The Long Winter`,
+  },
+  {
+    id: 'unstructured',
+    label: 'Malformed plan (prose, no chapters)',
+    text: `What a lovely idea for a book! I would start with the protagonist's childhood, then move on to
+the central conflict, and finish with a reflective ending that ties the themes together.`,
+  },
+];
+
+export const isMockPlanFixtureId = (value: unknown): value is MockPlanFixtureId =>
+  MOCK_PLAN_FIXTURES.some(fixture => fixture.id === value);
+
+// Small stable hash, so different prompts get different (but repeatable) text
+const promptHash = (prompt: string): string => {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) hash = (hash * 31 + prompt.charCodeAt(i)) >>> 0;
+  return hash.toString(16).padStart(8, '0');
+};
+
+/**
+ * The canned response for a request.
+ * @param task - The kind of request; requests without one (connection tests) get "OK".
+ * @param prompt - The last user message, which varies the chapter and chat responses.
+ * @param planFixture - The plan returned for plan requests.
+ */
+export function mockFixtureResponse(task: GenerationTask | undefined, prompt: string, planFixture: MockPlanFixtureId): string {
+  const id = promptHash(prompt);
+  switch (task) {
+    case 'plan':
+      return (MOCK_PLAN_FIXTURES.find(fixture => fixture.id === planFixture) ?? MOCK_PLAN_FIXTURES[0]).text;
+    case 'chapter':
+      return `The morning came slowly over the harbour, grey at first and then gold. (Mock chapter ${id}.)
+
+Nobody on the quay noticed the small boat until it was already tied up, its sail folded with a care that suggested the sailor had done it a thousand times.
+
+By evening the whole village knew a stranger had arrived, and by midnight they had invented three different stories about why.`;
+    case 'chat':
+      return `This is a mock reply (${id}). You wrote: "${prompt.length > 80 ? `${prompt.slice(0, 80)}...` : prompt}"`;
+    case 'rewrite':
+      return `A mock description of this chapter (${id}): the characters face a turning point.`;
+    default:
+      return 'OK';
+  }
+}
@@ -0,0 +1,210 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { LlmProvider, ProviderConfig, ProviderFieldValue, TokenHandler } from './types';
+import { MOCK_PLAN_FIXTURES, isMockPlanFixtureId, mockFixtureResponse, type MockPlanFixtureId } from './mockFixtures';
+
+// Offline provider for development and manual testing: answers from fixtures or a script instead
+// of a model, with configurable latency and injected errors. Responses only depend on the options,
+// the request's task and prompt, and (for scripts and alternating errors) the number of requests
+// made since the page loaded.
+
+type MockErrorMode = 'none' | 'always' | 'every-other' | 'mid-stream';
+
+interface MockOptions {
+  source: 'fixtures' | 'script';
+  planFixture: MockPlanFixtureId;
+  script: string[];
+  latencyMs: number;
+  tokenDelayMs: number;
+  errorMode: MockErrorMode;
+  models: string[];
+}
+
+const DEFAULT_MOCK_MODELS = ['mock-small', 'mock-large'];
+
+// Scripted responses are separated by a line containing only "---"
+const SCRIPT_SEPARATOR = /^\s*---\s*$/m;
+
+const MAX_DELAY_MS = 60000;
+
+const validateDelay = (value: ProviderFieldValue): string | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return /^\d+$/.test(text) && Number(text) <= MAX_DELAY_MS ? null : `Enter a whole number of milliseconds from 0 to ${MAX_DELAY_MS}.`;
+};
+
+const readOptions = (config: ProviderConfig): MockOptions => {
+  const options = config.options ?? {};
+  const delay = (value: ProviderFieldValue | undefined, fallback: number) =>
+    typeof value === 'string' && validateDelay(value) === null ? Number(value.trim()) : fallback;
+  const errorMode = options.errorMode;
+  return {
+    source: options.source === 'script' ? 'script' : 'fixtures',
+    planFixture: isMockPlanFixtureId(options.planFixture) ? options.planFixture : 'well-formed',
+    script: typeof options.script === 'string'
+      ? options.script.split(SCRIPT_SEPARATOR).map(response => response.trim()).filter(Boolean)
+      : [],
+    latencyMs: delay(options.latencyMs, 300),
+    tokenDelayMs: delay(options.tokenDelayMs, 20),
+    errorMode: errorMode === 'always' || errorMode === 'every-other' || errorMode === 'mid-stream' ? errorMode : 'none',
+    models: Array.isArray(options.models) && options.models.length > 0 ? options.models : DEFAULT_MOCK_MODELS,
+  };
+};
+
+// Requests answered so far; picks the next scripted response and the failing requests of 'every-other'
+let requestCount = 0;
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const lastUserMessage = (messages: ChatCompletionMessageParam[]): string => {
+  const message = [...messages].reverse().find(candidate => candidate.role === 'user');
+  return typeof message?.content === 'string' ? message.content : '';
+};
+
+// Starts a request: waits for the latency, then returns the response or throws an injected error
+const respond = async (messages: ChatCompletionMessageParam[], config: ProviderConfig, signal?: AbortSignal): Promise<string> => {
+  const options = readOptions(config);
+  const request = requestCount++;
+  await wait(options.latencyMs, signal);
+  if (options.errorMode === 'always' || (options.errorMode === 'every-other' && request % 2 === 1)) {
+    throw new Error(`Injected mock error (request ${request + 1}).`);
+  }
+  if (options.source === 'script' && options.script.length > 0) {
+    return options.script[request % options.script.length];
+  }
+  return mockFixtureResponse(config.task, lastUserMessage(messages), options.planFixture);
+};
+
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  fields: [
+    {
+      key: 'source',
+      type: 'select',
+      label: 'Responses',
+      choices: [
+        { value: 'fixtures', label: 'Fixtures for each task' },
+        { value: 'script', label: 'Scripted responses' },
+      ],
+      default: 'fixtures',
+    },
+    {
+      key: 'planFixture',
+      type: 'select',
+      label: 'Plan Fixture',
+      choices: MOCK_PLAN_FIXTURES.map(({ id, label }) => ({ value: id, label })),
+      default: 'well-formed',
+      help: 'The plan returned by "Generate Plan"; the malformed ones exercise the plan parser.',
+      visibleWhen: options => options.source !== 'script',
+    },
+    {
+      key: 'script',
+      type: 'textarea',
+      label: 'Script',
+      required: true,
+      placeholder: 'First response\n---\nSecond response',
+      help: 'Responses are returned in order, starting over at the end. Separate them with a line containing only ---.',
+      visibleWhen: options => options.source === 'script',
+    },
+    { key: 'latencyMs', type: 'text', label: 'Latency (ms)', default: '300', placeholder: '300', validate: validateDelay },
+    { key: 'tokenDelayMs', type: 'text', label: 'Delay per Streamed Word (ms)', default: '20', placeholder: '20', validate: validateDelay },
+    {
+      key: 'errorMode',
+      type: 'select',
+      label: 'Error Injection',
+      choices: [
+        { value: 'none', label: 'None' },
+        { value: 'always', label: 'Every request fails' },
+        { value: 'every-other', label: 'Every second request fails' },
+        { value: 'mid-stream', label: 'Streams fail halfway' },
+      ],
+      default: 'none',
+    },
+    { key: 'models', type: 'lines', label: 'Models', placeholder: 'One model name per line', default: DEFAULT_MOCK_MODELS },
+  ],
+  capabilities: { streaming: true, modelList: true, customModelName: true, grammar: false },
+  defaultModel: DEFAULT_MOCK_MODELS[0],
+
+  async listModels(config: ProviderConfig): Promise<string[] | null> {
+    const options = readOptions(config);
+    if (options.errorMode === 'always') {
+      console.error('Error fetching mock models: injected mock error.');
+      return null;
+    }
+    return [...options.models].sort();
+  },
+
+  async getChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    try {
+      console.log(`Sending chat completion request to mock model "${config.model}"...`);
+      const responseContent = await respond(messages, config, signal);
+      console.log('Received mock chat response.');
+      return responseContent;
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('Mock chat request cancelled.');
+        return null;
+      }
+      console.error('Error getting mock chat completion:', error);
+      return null;
+    }
+  },
+
+  async streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    try {
+      console.log(`Streaming chat completion from mock model "${config.model}"...`);
+      const options = readOptions(config);
+      const tokens = (await respond(messages, config, signal)).match(/\s*\S+/g) ?? [];
+      let responseContent = '';
+      for (const [index, token] of tokens.entries()) {
+        if (options.errorMode === 'mid-stream' && index === Math.floor(tokens.length / 2)) {
+          throw new Error('Injected mock error in the middle of the stream.');
+        }
+        if (index > 0) await wait(options.tokenDelayMs, signal);
+        responseContent += token;
+        onToken(token);
+      }
+      if (!responseContent) {
+        console.warn('Mock chat stream was empty.');
+        return null;
+      }
+      console.log('Received mock chat stream.');
+      return responseContent;
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('Mock chat stream cancelled.');
+        return null;
+      }
+      console.error('Error streaming mock chat completion:', error);
+      return null;
+    }
+  },
+
+  async testConnection(config: ProviderConfig): Promise<boolean> {
+    return (await this.listModels(config)) !== null;
+  },
+};
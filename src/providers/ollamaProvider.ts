@@ -1,6 +1,8 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import type { LlmProvider, ProviderConfig } from './types';
+import type { LlmProvider, ProviderConfig, TokenHandler } from './types';
+import { samplingParams } from './completionParams';
+import { getOpenAiChat, streamOpenAiChat } from './openaiChat';
 
 // Helper to create OpenAI client instance configured for Ollama
 const getClient = (config: ProviderConfig): OpenAI => {
@@ -19,6 +21,21 @@ const getClient = (config: ProviderConfig): OpenAI => {
 };
 
 export const ollamaProvider: LlmProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  fields: [
+    {
+      key: 'baseUrl',
+      type: 'url',
+      label: 'Ollama Base URL',
+      required: true,
+      placeholder: 'http://localhost:11434',
+      help: 'Ensure server is running and accessible (check network/CORS).',
+    },
+  ],
+  capabilities: { streaming: true, modelList: true, customModelName: false, grammar: false },
+  defaultModel: 'llama3',
+
   async listModels(config: ProviderConfig): Promise<string[] | null> {
     // Ollama's OpenAI-compatible /v1/models endpoint might not list all local models reliably.
     // A better approach is to use Ollama's native /api/tags endpoint.
@@ -58,33 +75,28 @@ export const ollamaProvider: LlmProvider = {
 
   async getChatCompletion(
     messages: ChatCompletionMessageParam[],
-    config: ProviderConfig
+    config: ProviderConfig,
+    signal?: AbortSignal
   ): Promise<string | null> {
-    try {
-      const openai = getClient(config);
-      console.log(`Sending chat completion request to Ollama model "${config.model}" via OpenAI compatibility...`);
-      const chatCompletion = await openai.chat.completions.create({
-        messages: messages,
-        model: config.model, // Ollama uses the model name directly
-        // Ollama might ignore temperature/other params via this endpoint, check Ollama docs
-      });
-
-      const responseContent = chatCompletion.choices[0]?.message?.content;
+    return getOpenAiChat('Ollama', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      model: config.model,
+      ...samplingParams(config), // Ollama's OpenAI-compatible endpoint maps these to its own options
+    }, { signal }), signal);
+  },
 
-      if (!responseContent) {
-        console.warn('Ollama chat response was empty.');
-        return null;
-      }
-      console.log('Received Ollama chat response.');
-      return responseContent;
-    } catch (error) {
-      console.error('Error getting Ollama chat completion:', error);
-       if (error instanceof OpenAI.APIError) {
-        // Ollama might return OpenAI-like errors
-        console.error(`Ollama API Error: ${error.status} - ${error.message}`, error.error);
-      }
-      return null;
-    }
+  async streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return streamOpenAiChat('Ollama', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      model: config.model,
+      ...samplingParams(config),
+      stream: true,
+    }, { signal }), onToken, signal);
   },
 
    async testConnection(config: ProviderConfig): Promise<boolean> {
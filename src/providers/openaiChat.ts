@@ -0,0 +1,103 @@
+import OpenAI from 'openai';
+import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
+import type { TokenHandler } from './types';
+
+// Request handling shared by the providers that talk to an OpenAI-style chat completions API.
+// The providers only build their client and request; `label` names the provider in log messages.
+
+/**
+ * Logs the details of an error returned by the API, if it is one.
+ */
+export function logOpenAiApiError(label: string, error: unknown): void {
+  if (error instanceof OpenAI.APIError) {
+    console.error(`${label} API Error: ${error.status} - ${error.message}`, error.error);
+  }
+}
+
+/**
+ * Requests a chat completion and returns its text.
+ * @param label - The provider, for log messages.
+ * @param model - The requested model, for log messages.
+ * @param start - Creates the client and sends the request; what it throws is handled like a failed request.
+ * @param signal - Cancels the request.
+ * @returns The response, or null if the request failed, was empty or was cancelled.
+ */
+export async function getOpenAiChat(
+  label: string,
+  model: string,
+  start: () => Promise<ChatCompletion>,
+  signal?: AbortSignal
+): Promise<string | null> {
+  try {
+    console.log(`Sending chat completion request to ${label} model "${model}"...`);
+    const chatCompletion = await start();
+
+    const responseContent = chatCompletion.choices?.[0]?.message?.content;
+
+    if (!responseContent) {
+      console.warn(`${label} chat response was empty.`);
+      return null;
+    }
+    console.log(`Received ${label} chat response.`);
+    return responseContent;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log(`${label} chat request cancelled.`);
+      return null;
+    }
+    console.error(`Error getting ${label} chat completion:`, error);
+    logOpenAiApiError(label, error);
+    return null;
+  }
+}
+
+/**
+ * Streams a chat completion, passing each piece of text to `onToken` as it arrives.
+ * @param label - The provider, for log messages.
+ * @param model - The requested model, for log messages.
+ * @param start - Creates the client and opens the stream; what it throws is handled like a failed stream.
+ * @param onToken - Receives the text as it arrives.
+ * @param signal - Cancels the request.
+ * @returns The whole response, or null if the stream failed, was empty or was cancelled.
+ */
+export async function streamOpenAiChat(
+  label: string,
+  model: string,
+  start: () => Promise<AsyncIterable<ChatCompletionChunk>>,
+  onToken: TokenHandler,
+  signal?: AbortSignal
+): Promise<string | null> {
+  try {
+    console.log(`Streaming chat completion from ${label} model "${model}"...`);
+    const stream = await start();
+
+    let responseContent = '';
+    for await (const chunk of stream) {
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        responseContent += token;
+        onToken(token);
+      }
+    }
+
+    // An aborted stream ends without an error; its text is incomplete
+    if (signal?.aborted) {
+      console.log(`${label} chat stream cancelled.`);
+      return null;
+    }
+    if (!responseContent) {
+      console.warn(`${label} chat stream was empty.`);
+      return null;
+    }
+    console.log(`Received ${label} chat stream.`);
+    return responseContent;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log(`${label} chat stream cancelled.`);
+      return null;
+    }
+    console.error(`Error streaming ${label} chat completion:`, error);
+    logOpenAiApiError(label, error);
+    return null;
+  }
+}
@@ -0,0 +1,161 @@
+import OpenAI from 'openai';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { Stream } from 'openai/streaming';
+import type { OpenAiCompatibleOptions } from '../types/models';
+import type { LlmProvider, ProviderConfig, TokenHandler } from './types';
+import { samplingParams } from './completionParams';
+import { getOpenAiChat, logOpenAiApiError, streamOpenAiChat } from './openaiChat';
+import { isRecord } from '../lib/isRecord';
+
+// Generic provider for servers that speak the OpenAI chat completions API (vLLM, llama.cpp server,
+// LocalAI, text-generation-webui, ...). Everything that differs between them is configured in the
+// options instead of code: base URL, optional API key, extra headers, the endpoint paths and how
+// models are listed.
+
+export const DEFAULT_OPENAI_COMPATIBLE_OPTIONS: OpenAiCompatibleOptions = {
+  headers: {},
+  chatCompletionsPath: '/chat/completions',
+  modelsPath: '/models',
+  modelList: 'endpoint',
+  models: [],
+};
+
+// The registry has already checked and trimmed the options; the defaults only cover a config without them
+const readOptions = (config: ProviderConfig): OpenAiCompatibleOptions =>
+  ({ ...DEFAULT_OPENAI_COMPATIBLE_OPTIONS, ...config.options }) as OpenAiCompatibleOptions;
+
+// Helper to create an OpenAI client instance for the configured server
+const getClient = (config: ProviderConfig): OpenAI => {
+  if (!config.baseUrl) {
+    console.error("OpenAI-compatible Base URL is required but not provided in settings.");
+    throw new Error("OpenAI-compatible Base URL missing.");
+  }
+  const options = readOptions(config);
+  return new OpenAI({
+    apiKey: config.apiKey || 'none', // The library requires a value; the header is removed below
+    baseURL: config.baseUrl,
+    // Without a key no Authorization header is sent, since some servers reject unknown keys
+    defaultHeaders: { ...(config.apiKey ? {} : { Authorization: null }), ...options.headers },
+    dangerouslyAllowBrowser: true,
+  });
+};
+
+// Reads the model IDs from the response shapes servers use for their model lists
+const parseModelList = (data: unknown): string[] => {
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : isRecord(data)
+      ? ((Array.isArray(data.data) && data.data) || (Array.isArray(data.models) && data.models) || (Array.isArray(data.model_names) && data.model_names) || [])
+      : [];
+  const ids = entries.map(entry =>
+    typeof entry === 'string' ? entry
+      : isRecord(entry) ? [entry.id, entry.name, entry.model].find((id): id is string => typeof id === 'string') : undefined
+  );
+  return [...new Set(ids.filter((id): id is string => Boolean(id)))].sort();
+};
+
+export const openaiCompatibleProvider: LlmProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible',
+  fields: [
+    { key: 'baseUrl', type: 'url', label: 'Base URL', required: true, placeholder: 'http://localhost:8000/v1', help: 'Include /v1 in the URL.' },
+    { key: 'apiKey', type: 'password', label: 'API Key' },
+    {
+      key: 'chatCompletionsPath',
+      type: 'text',
+      label: 'Chat Completions Path',
+      placeholder: DEFAULT_OPENAI_COMPATIBLE_OPTIONS.chatCompletionsPath,
+      default: DEFAULT_OPENAI_COMPATIBLE_OPTIONS.chatCompletionsPath,
+      help: 'Relative to the base URL, or a full URL.',
+    },
+    {
+      key: 'modelList',
+      type: 'select',
+      label: 'Model List',
+      choices: [
+        { value: 'endpoint', label: 'Ask the server' },
+        { value: 'manual', label: 'Enter models myself' },
+      ],
+      default: DEFAULT_OPENAI_COMPATIBLE_OPTIONS.modelList,
+    },
+    {
+      key: 'modelsPath',
+      type: 'text',
+      label: 'Models Path',
+      placeholder: DEFAULT_OPENAI_COMPATIBLE_OPTIONS.modelsPath,
+      default: DEFAULT_OPENAI_COMPATIBLE_OPTIONS.modelsPath,
+      visibleWhen: options => options.modelList !== 'manual',
+    },
+    {
+      key: 'models',
+      type: 'lines',
+      label: 'Models',
+      placeholder: 'One model name per line',
+      required: true,
+      visibleWhen: options => options.modelList === 'manual',
+    },
+    {
+      key: 'headers',
+      type: 'headers',
+      label: 'Extra Headers',
+      placeholder: 'X-Header-Name: value',
+      sensitive: true,
+      help: 'One per line. Header values are stored unencrypted and left out of profile exports; put a bearer token in the API key field instead.',
+    },
+  ],
+  capabilities: { streaming: true, modelList: true, customModelName: true, grammar: false },
+
+  async listModels(config: ProviderConfig): Promise<string[] | null> {
+    const options = readOptions(config);
+    if (options.modelList === 'manual') {
+      return [...options.models].sort();
+    }
+    try {
+      const openai = getClient(config);
+      console.log(`Fetching models from OpenAI-compatible endpoint ${options.modelsPath}...`);
+      const models = parseModelList(await openai.get<unknown, unknown>(options.modelsPath));
+      console.log(`Fetched ${models.length} models from OpenAI-compatible server.`);
+      return models;
+    } catch (error) {
+      console.error('Error fetching OpenAI-compatible models:', error);
+      logOpenAiApiError('OpenAI-compatible', error);
+      return null;
+    }
+  },
+
+  async getChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return getOpenAiChat('OpenAI-compatible', config.model, () =>
+      getClient(config).post<ChatCompletionCreateParams, ChatCompletion>(readOptions(config).chatCompletionsPath, {
+        body: { messages, model: config.model, ...samplingParams(config) },
+        signal,
+      }), signal);
+  },
+
+  async streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return streamOpenAiChat('OpenAI-compatible', config.model, () =>
+      getClient(config).post<ChatCompletionCreateParams, Stream<ChatCompletionChunk>>(readOptions(config).chatCompletionsPath, {
+        body: { messages, model: config.model, ...samplingParams(config), stream: true },
+        stream: true,
+        signal,
+      }), onToken, signal);
+  },
+
+  async testConnection(config: ProviderConfig): Promise<boolean> {
+    const options = readOptions(config);
+    if (options.modelList === 'endpoint') {
+      return (await this.listModels(config)) !== null;
+    }
+    // Without a models endpoint, a one-token completion shows whether the server answers
+    const response = await this.getChatCompletion([{ role: 'user', content: 'Hi' }], { ...config, maxTokens: 1 });
+    return response !== null;
+  },
+};
@@ -1,12 +1,14 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import type { LlmProvider, ProviderConfig } from './types';
+import type { LlmProvider, ProviderConfig, TokenHandler } from './types';
+import { samplingParams } from './completionParams';
+import { getOpenAiChat, logOpenAiApiError, streamOpenAiChat } from './openaiChat';
 
 // Helper to create OpenAI client instance
 const getClient = (config: ProviderConfig): OpenAI => {
   // Ensure API key is provided for OpenAI
   if (!config.apiKey) {
-    console.error("OpenAI API Key is required but not provided in settings.");
+    console.error("OpenAI API Key is required but not provided in settings (or API keys are still locked).");
     // Throw an error or handle it gracefully depending on desired behavior
     throw new Error("OpenAI API Key missing.");
   }
@@ -17,6 +19,14 @@ const getClient = (config: ProviderConfig): OpenAI => {
 };
 
 export const openaiProvider: LlmProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  fields: [
+    { key: 'apiKey', type: 'password', label: 'OpenAI API Key', required: true, placeholder: 'sk-...' },
+  ],
+  capabilities: { streaming: true, modelList: true, customModelName: false, grammar: false },
+  defaultModel: 'gpt-3.5-turbo',
+
   async listModels(config: ProviderConfig): Promise<string[] | null> {
     try {
       const openai = getClient(config);
@@ -29,41 +39,35 @@ export const openaiProvider: LlmProvider = {
       return models;
     } catch (error) {
       console.error('Error fetching OpenAI models:', error);
-      if (error instanceof OpenAI.APIError) {
-        console.error(`OpenAI API Error: ${error.status} - ${error.message}`, error.error);
-      }
+      logOpenAiApiError('OpenAI', error);
       return null;
     }
   },
 
   async getChatCompletion(
     messages: ChatCompletionMessageParam[],
-    config: ProviderConfig
+    config: ProviderConfig,
+    signal?: AbortSignal
   ): Promise<string | null> {
-    try {
-      const openai = getClient(config);
-      console.log(`Sending chat completion request to OpenAI model "${config.model}"...`);
-      const chatCompletion = await openai.chat.completions.create({
-        messages: messages,
-        model: config.model,
-        // Add temperature, max_tokens etc. from config if needed later
-      });
-
-      const responseContent = chatCompletion.choices[0]?.message?.content;
+    return getOpenAiChat('OpenAI', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      model: config.model,
+      ...samplingParams(config),
+    }, { signal }), signal);
+  },
 
-      if (!responseContent) {
-        console.warn('OpenAI chat response was empty.');
-        return null;
-      }
-      console.log('Received OpenAI chat response.');
-      return responseContent;
-    } catch (error) {
-      console.error('Error getting OpenAI chat completion:', error);
-      if (error instanceof OpenAI.APIError) {
-        console.error(`OpenAI API Error: ${error.status} - ${error.message}`, error.error);
-      }
-      return null;
-    }
+  async streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return streamOpenAiChat('OpenAI', config.model, () => getClient(config).chat.completions.create({
+      messages: messages,
+      model: config.model,
+      ...samplingParams(config),
+      stream: true,
+    }, { signal }), onToken, signal);
   },
 
   async testConnection(config: ProviderConfig): Promise<boolean> {
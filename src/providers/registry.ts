@@ -0,0 +1,183 @@
+import type { LlmProvider, ProviderField, ProviderFieldValue, ProviderOptions } from './types';
+import { openaiProvider } from './openaiProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { lmstudioProvider } from './lmstudioProvider';
+import { openaiCompatibleProvider } from './openaiCompatibleProvider';
+import { koboldcppProvider, llamacppProvider } from './completionProvider';
+import { mockProvider } from './mockProvider';
+import { isRecord } from '../lib/isRecord';
+
+// All LLM backends the app knows, by ID. The built-in providers are registered below; a third-party
+// backend implements LlmProvider (declaring its fields and capabilities) and calls registerProvider
+// before the app renders, e.g. from src/main.tsx. The options form and llmService only work
+// through this registry, so nothing else has to change to add a backend.
+
+const providers = new Map<string, LlmProvider>();
+
+// Settings every profile has; all other field keys are stored in the profile's provider options
+export const COMMON_FIELD_KEYS = ['apiKey', 'baseUrl'];
+
+// Header names are HTTP tokens (RFC 9110)
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+
+const isEmpty = (value: ProviderFieldValue | undefined): boolean =>
+  value === undefined || (typeof value === 'string' ? !value.trim() : Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0);
+
+/**
+ * Makes a provider available in the options and to llmService.
+ * @param provider - The provider, with its declaration (ID, name, fields, capabilities).
+ * @throws Error if the ID is taken or the declaration is invalid.
+ */
+export function registerProvider(provider: LlmProvider): void {
+  const problems: string[] = [];
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(provider.id)) problems.push('the ID may only contain letters, digits, ".", "_" and "-"');
+  if (providers.has(provider.id)) problems.push('a provider with this ID is already registered');
+  if (!provider.name?.trim()) problems.push('the name is empty');
+  const keys = new Set<string>();
+  for (const field of provider.fields) {
+    if (keys.has(field.key)) problems.push(`the field "${field.key}" is declared twice`);
+    keys.add(field.key);
+    if ((field.type === 'password') !== (field.key === 'apiKey')) {
+      problems.push('only the "apiKey" field is a password field (it is stored encrypted), and it must be one');
+    }
+    if ((field.type === 'select' || field.type === 'checkboxes') && !field.choices?.length) {
+      problems.push(`the field "${field.key}" has no choices`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid LLM provider "${provider.id}": ${problems.join('; ')}.`);
+  }
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Looks up a registered provider.
+ * @param id - The provider ID from the LLM settings.
+ * @returns The provider, or undefined if none with this ID is registered.
+ */
+export function getProvider(id: string): LlmProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Returns all registered providers, in registration order (built-in providers first).
+ */
+export function listProviders(): LlmProvider[] {
+  return [...providers.values()];
+}
+
+// Reads a stored value as the field's type; undefined if it doesn't fit. Lines and one-line texts
+// are trimmed, duplicate lines and invalid header names dropped, so providers can use the values as-is.
+const coerceFieldValue = (field: ProviderField, value: unknown): ProviderFieldValue | undefined => {
+  const choices = field.choices?.map(choice => choice.value) ?? [];
+  switch (field.type) {
+    case 'lines':
+      return Array.isArray(value)
+        ? [...new Set(value.filter((line): line is string => typeof line === 'string').map(line => line.trim()).filter(Boolean))]
+        : undefined;
+    case 'checkboxes':
+      return Array.isArray(value) ? choices.filter(choice => value.includes(choice)) : undefined;
+    case 'headers':
+      return isRecord(value)
+        ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => HEADER_NAME.test(entry[0]) && typeof entry[1] === 'string'))
+        : undefined;
+    case 'select':
+      return typeof value === 'string' && choices.includes(value) ? value : undefined;
+    case 'text':
+      return typeof value === 'string' ? value.trim() : undefined;
+    default:
+      return typeof value === 'string' ? value : undefined;
+  }
+};
+
+/**
+ * Reads a provider's options from stored settings: each value as its field's type, with the
+ * field's default where nothing usable is stored. Unknown keys are dropped.
+ * @param provider - The provider.
+ * @param stored - The stored options, e.g. from localStorage or a profile file.
+ * @returns The options to pass to the provider and to show in the form.
+ */
+export function resolveProviderOptions(provider: LlmProvider, stored: unknown): ProviderOptions {
+  const source = isRecord(stored) ? stored : {};
+  const options: ProviderOptions = {};
+  for (const field of provider.fields) {
+    if (COMMON_FIELD_KEYS.includes(field.key)) continue;
+    const value = coerceFieldValue(field, source[field.key]);
+    // An empty text means "use the default"; an empty list is a choice of its own
+    const useDefault = value === undefined || (typeof value === 'string' && !value.trim());
+    if (!useDefault) options[field.key] = value;
+    else if (field.default !== undefined) options[field.key] = field.default;
+    else if (value !== undefined) options[field.key] = value;
+  }
+  return options;
+}
+
+/**
+ * Checks the settings of a provider against its field declarations. Hidden fields are not checked.
+ * @param provider - The provider.
+ * @param values - The common settings and the provider options, as edited.
+ * @returns Error messages by field key; empty if everything is valid.
+ */
+export function validateProviderSettings(
+  provider: LlmProvider,
+  values: { apiKey: string; baseUrl: string; options: ProviderOptions }
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of provider.fields) {
+    if (field.visibleWhen && !field.visibleWhen(values.options)) continue;
+    const value = field.key === 'apiKey' ? values.apiKey : field.key === 'baseUrl' ? values.baseUrl : values.options[field.key];
+    if (isEmpty(value)) {
+      if (field.required) errors[field.key] = `${field.label} is required.`;
+      continue;
+    }
+    if (field.type === 'url' && typeof value === 'string') {
+      try {
+        if (!/^https?:$/.test(new URL(value.trim()).protocol)) throw new Error();
+      } catch {
+        errors[field.key] = `${field.label} must be an http:// or https:// URL.`;
+        continue;
+      }
+    }
+    if (field.type === 'headers' && isRecord(value)) {
+      const invalid = Object.keys(value).filter(name => !HEADER_NAME.test(name));
+      if (invalid.length > 0) {
+        errors[field.key] = `Invalid header name: ${invalid.join(', ')}.`;
+        continue;
+      }
+    }
+    const error = field.validate?.(value as ProviderFieldValue);
+    if (error) errors[field.key] = error;
+  }
+  return errors;
+}
+
+/**
+ * Returns the options without the values of sensitive fields, for profile exports. Sensitive
+ * headers keep their names (with empty values), so they can be filled in after importing.
+ * @param provider - The provider.
+ * @param options - The resolved options.
+ */
+export function exportableProviderOptions(provider: LlmProvider, options: ProviderOptions): ProviderOptions {
+  const result: ProviderOptions = { ...options };
+  for (const field of provider.fields) {
+    if (!field.sensitive || !(field.key in result)) continue;
+    const value = result[field.key];
+    if (field.type === 'headers' && isRecord(value)) {
+      result[field.key] = Object.fromEntries(Object.keys(value).map(name => [name, '']));
+    } else {
+      delete result[field.key];
+    }
+  }
+  return result;
+}
+
+// Built-in providers, in the order the options list them
+[
+  openaiProvider,
+  ollamaProvider,
+  lmstudioProvider,
+  openaiCompatibleProvider,
+  llamacppProvider,
+  koboldcppProvider,
+  mockProvider,
+].forEach(registerProvider);
@@ -1,15 +1,66 @@
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { GenerationParameters, GenerationTask } from '../types/models';
 
-// Configuration needed by provider methods
-export interface ProviderConfig {
+// Value of a provider option, depending on the field type (see ProviderField)
+export type ProviderFieldValue = string | string[] | Record<string, string>;
+
+// A provider's own settings (everything but the common API key, base URL and model), by field key
+export type ProviderOptions = Record<string, ProviderFieldValue>;
+
+// Configuration needed by provider methods. The generation parameters apply to completions;
+// unset ones are left to the provider.
+export interface ProviderConfig extends GenerationParameters {
   apiKey?: string; // Optional: For OpenAI
   baseUrl?: string; // Optional: For Ollama, LMStudio, etc.
   model: string; // Required model name for the provider
-  // Add other potential config like temperature, max_tokens later if needed globally
+  options?: ProviderOptions; // The provider's own fields, with defaults filled in
+  task?: GenerationTask; // The kind of request; unset for model lists and connection tests
+}
+
+/**
+ * How a field is edited in the options, and the type of its value:
+ * - 'text', 'url', 'password', 'textarea', 'select': a string
+ * - 'lines': a list of strings, edited one per line
+ * - 'checkboxes': the chosen values of `choices`
+ * - 'headers': HTTP headers, edited as "Name: value" lines
+ */
+export type ProviderFieldType = 'text' | 'url' | 'password' | 'textarea' | 'select' | 'lines' | 'checkboxes' | 'headers';
+
+// A setting a provider needs, declared so the options can render and check it
+export interface ProviderField {
+  key: string; // 'apiKey' and 'baseUrl' are the profile's common settings; other keys become provider options
+  type: ProviderFieldType; // 'password' is only allowed for 'apiKey', which is stored encrypted
+  label: string;
+  required?: boolean;
+  placeholder?: string;
+  help?: string; // Shown below the field
+  choices?: { value: string; label: string }[]; // For 'select' and 'checkboxes'
+  default?: ProviderFieldValue; // For provider options; used when nothing valid is stored
+  sensitive?: boolean; // Left out of profile exports; of 'headers', only the names are exported
+  visibleWhen?: (options: ProviderOptions) => boolean; // Hides fields that don't apply, e.g. to another mode
+  validate?: (value: ProviderFieldValue) => string | null; // Returns an error message
+}
+
+// What a provider can do, so the options and llmService can adapt to it
+export interface ProviderCapabilities {
+  streaming: boolean; // streamChatCompletion streams; otherwise the whole response arrives at once
+  modelList: boolean; // listModels reports the available models
+  customModelName: boolean; // Any model name can be typed; the model list is only a suggestion
+  grammar: boolean; // Honours a GBNF grammar (see grammar fields)
 }
 
-// Common interface for all LLM providers
+// Receives each piece of text of a streamed response as it arrives
+export type TokenHandler = (token: string) => void;
+
+// Common interface for all LLM providers. Providers are made available through registerProvider
+// (src/providers/registry.ts), which also accepts third-party backends.
 export interface LlmProvider {
+  id: string; // Stored in the LLM settings, e.g. 'openai'
+  name: string; // Shown in the options
+  fields: ProviderField[]; // Settings shown in the options, in this order
+  capabilities: ProviderCapabilities;
+  defaultModel?: string; // Used when no model is chosen
+
   /**
    * Lists available models from the provider.
    * Note: For local providers, this might require specific endpoints or might
@@ -19,10 +70,24 @@ export interface LlmProvider {
 
   /**
    * Gets a chat completion response based on the provided messages.
+   * Aborting `signal` cancels the request; the method then resolves with null.
    */
   getChatCompletion(
     messages: ChatCompletionMessageParam[],
-    config: ProviderConfig
+    config: ProviderConfig,
+    signal?: AbortSignal
+  ): Promise<string | null>;
+
+  /**
+   * Streams a chat completion, passing each piece of text to `onToken` as it arrives.
+   * Resolves with the whole response once the stream ends, or null if it failed, was empty or
+   * was cancelled through `signal` (the text received until then has already been passed on).
+   */
+  streamChatCompletion(
+    messages: ChatCompletionMessageParam[],
+    config: ProviderConfig,
+    onToken: TokenHandler,
+    signal?: AbortSignal
   ): Promise<string | null>;
 
   /**
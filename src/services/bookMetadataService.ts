@@ -0,0 +1,124 @@
+// src/services/bookMetadataService.ts
+import { dbService } from '../lib/database';
+import type { BookMetadata } from '../types/models';
+
+export const DEFAULT_BOOK_LANGUAGE = 'en';
+
+// Image types every EPUB reader has to support
+export const COVER_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
+// Covers are stored in the database file, which is saved as a whole on every change
+export const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+// Row as stored in book_metadata; empty columns come back as null
+interface BookMetadataRow {
+  author: string | null;
+  language: string | null;
+  publisher: string | null;
+  isbn: string | null;
+  coverImage: Uint8Array | null;
+  coverMimeType: string | null;
+}
+
+/**
+ * Strips hyphens and spaces from an ISBN and checks its check digit.
+ * @param isbn - The ISBN as entered, e.g. "978-3-16-148410-0".
+ * @returns The ISBN without separators, or null if it is not a valid ISBN-10 or ISBN-13.
+ */
+export function normalizeIsbn(isbn: string): string | null {
+  const compact = isbn.replace(/[\s-]/g, '').toUpperCase();
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    const sum = [...compact].reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+    return sum % 11 === 0 ? compact : null;
+  }
+  if (/^\d{13}$/.test(compact)) {
+    const sum = [...compact].reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0 ? compact : null;
+  }
+  return null;
+}
+
+/**
+ * Checks the shape of a BCP 47 language tag (language, optional script/region/variants).
+ * @param language - e.g. "en", "pt-BR", "zh-Hant".
+ * @returns True if the tag is well-formed.
+ */
+export function isValidLanguageTag(language: string): boolean {
+  return /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?(-([a-z\d]{5,8}|\d[a-z\d]{3}))*$/i.test(language);
+}
+
+export const bookMetadataService = {
+  /**
+   * Retrieves the book metadata of a project.
+   * @param projectId - The ID of the project.
+   * @returns The stored metadata, or defaults (language only) if none was saved yet or reading failed.
+   */
+  async getMetadata(projectId: number): Promise<BookMetadata> {
+    try {
+      const row = await dbService.getOne<BookMetadataRow>(
+        'SELECT author, language, publisher, isbn, coverImage, coverMimeType FROM book_metadata WHERE projectId = ?',
+        [projectId]
+      );
+      return {
+        author: row?.author ?? undefined,
+        language: row?.language || DEFAULT_BOOK_LANGUAGE,
+        publisher: row?.publisher ?? undefined,
+        isbn: row?.isbn ?? undefined,
+        coverImage: row?.coverImage ?? undefined,
+        coverMimeType: row?.coverImage ? row.coverMimeType ?? undefined : undefined,
+      };
+    } catch (error) {
+      console.error(`Error getting book metadata for project ID ${projectId}:`, error);
+      return { language: DEFAULT_BOOK_LANGUAGE };
+    }
+  },
+
+  /**
+   * Saves the book metadata of a project, replacing what was stored before.
+   * @param projectId - The ID of the project.
+   * @param metadata - The metadata to store. Empty text fields are stored as NULL.
+   * @returns True if saving succeeded, false if writing to the database failed.
+   * @throws Error if the language tag, ISBN or cover image is invalid.
+   */
+  async saveMetadata(projectId: number, metadata: BookMetadata): Promise<boolean> {
+    const language = metadata.language.trim() || DEFAULT_BOOK_LANGUAGE;
+    if (!isValidLanguageTag(language)) {
+      throw new Error(`"${language}" is not a valid language code. Use a code like "en" or "pt-BR".`);
+    }
+    let isbn: string | null = null;
+    if (metadata.isbn?.trim()) {
+      isbn = normalizeIsbn(metadata.isbn);
+      if (!isbn) {
+        throw new Error(`"${metadata.isbn.trim()}" is not a valid ISBN-10 or ISBN-13.`);
+      }
+    }
+    if (metadata.coverImage) {
+      if (!metadata.coverMimeType || !COVER_MIME_TYPES.includes(metadata.coverMimeType)) {
+        throw new Error('The cover image must be a JPEG, PNG or GIF file.');
+      }
+      if (metadata.coverImage.byteLength > MAX_COVER_BYTES) {
+        throw new Error(`The cover image must be smaller than ${MAX_COVER_BYTES / (1024 * 1024)} MB.`);
+      }
+    }
+
+    try {
+      await dbService.run(
+        `INSERT OR REPLACE INTO book_metadata (projectId, author, language, publisher, isbn, coverImage, coverMimeType, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [
+          projectId,
+          metadata.author?.trim() || null,
+          language,
+          metadata.publisher?.trim() || null,
+          isbn,
+          metadata.coverImage ?? null,
+          metadata.coverImage ? metadata.coverMimeType ?? null : null,
+        ]
+      );
+      return true;
+    } catch (error) {
+      console.error(`Error saving book metadata for project ID ${projectId}:`, error);
+      return false;
+    }
+  },
+};
@@ -1,42 +1,125 @@
 // src/services/chapterService.ts
-import { dbService } from '../lib/database';
-import type { Chapter } from '../types/models';
+import { dbService, type DbExecutor } from '../lib/database';
+import type { Chapter, ChapterRevision, ChapterSnapshot, ChatMessage, RevisionSource, SectionKind } from '../types/models';
+import { sectionZoneRank, sortIntoZones } from '../lib/sectionKinds';
+
+type ChapterText = Pick<Chapter, 'title' | 'description' | 'content'>;
+
+/**
+ * Stores the chapter's current title/description/content as a revision.
+ * Skipped when the text is identical to the latest revision (e.g. saving without changes).
+ * Drafts are not compared, since they never were the chapter's text.
+ * Must be called inside a transaction, after the chapter row was updated.
+ */
+async function recordRevision(tx: DbExecutor, chapterId: number, source: RevisionSource): Promise<void> {
+  const current = await tx.getOne<ChapterText>(
+    'SELECT title, description, content FROM chapters WHERE id = ?',
+    [chapterId]
+  );
+  if (!current) return;
+
+  const latest = await tx.getOne<ChapterRevision>(
+    "SELECT * FROM chapter_revisions WHERE chapterId = ? AND source != 'draft' ORDER BY id DESC LIMIT 1",
+    [chapterId]
+  );
+  if (
+    latest &&
+    latest.title === current.title &&
+    latest.description === current.description &&
+    (latest.content ?? null) === (current.content ?? null)
+  ) {
+    return;
+  }
+
+  await tx.run(
+    'INSERT INTO chapter_revisions (chapterId, title, description, content, source) VALUES (?, ?, ?, ?, ?)',
+    [chapterId, current.title, current.description, current.content ?? null, source]
+  );
+}
+
+// Re-inserts a snapshot's rows with their original IDs and timestamps. Must be called inside a transaction.
+async function insertSnapshotRows(tx: DbExecutor, snapshot: ChapterSnapshot): Promise<void> {
+  const { chapter, revisions, messages } = snapshot;
+  await tx.run(
+    'INSERT INTO chapters (id, projectId, title, description, content, "order", kind, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [chapter.id, chapter.projectId, chapter.title, chapter.description, chapter.content ?? null, chapter.order, chapter.kind, chapter.createdAt, chapter.updatedAt]
+  );
+  for (const revision of revisions) {
+    await tx.run(
+      'INSERT INTO chapter_revisions (id, chapterId, title, description, content, source, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [revision.id, revision.chapterId, revision.title, revision.description, revision.content ?? null, revision.source, revision.createdAt]
+    );
+  }
+  for (const message of messages) {
+    await tx.run(
+      'INSERT INTO messages (id, projectId, chapterId, role, content, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+      [message.id, message.projectId, message.chapterId ?? null, message.role, message.content, message.createdAt]
+    );
+  }
+}
+
+// Rewrites the project's order column as 0, 1, 2, ... for the given sequence of chapter IDs.
+// Must be called inside a transaction.
+async function renumberChapters(tx: DbExecutor, chapterIds: number[]): Promise<void> {
+  for (const [order, id] of chapterIds.entries()) {
+    await tx.run('UPDATE chapters SET "order" = ? WHERE id = ?', [order, id]);
+  }
+}
+
+// Moves a section that changed kind into its zone: to `position` if given, otherwise to the end
+// of the zone nearest to where it was. Must be called inside a transaction, after the kind was saved.
+async function placeInZone(tx: DbExecutor, projectId: number, chapterId: number, position?: number): Promise<void> {
+  const sections = await tx.get<Pick<Chapter, 'id' | 'kind'>>(
+    'SELECT id, kind FROM chapters WHERE projectId = ? ORDER BY "order" ASC',
+    [projectId]
+  );
+  let ordered = sections;
+  if (position !== undefined) {
+    const others = sections.filter(section => section.id !== chapterId);
+    const moved = sections.filter(section => section.id === chapterId);
+    ordered = [...others.slice(0, position), ...moved, ...others.slice(position)];
+  }
+  await renumberChapters(tx, sortIntoZones(ordered).map(section => section.id));
+}
 
 export const chapterService = {
   /**
-   * Creates a new chapter for a given project.
-   * Determines the next order value automatically.
+   * Creates a new chapter or front/back matter section for a given project.
+   * It is added at the end of its zone: front matter before the first chapter, chapters before
+   * the back matter, back matter at the very end. Later sections move down to make room.
    * @param projectId - The ID of the project this chapter belongs to.
    * @param title - The title of the chapter.
    * @param description - The description of the chapter.
    * @param content - Optional initial content for the chapter.
+   * @param kind - The section kind; defaults to a body chapter.
    * @returns The newly created chapter object or null if creation failed.
    */
   async createChapter(
     projectId: number,
     title: string,
     description: string,
-    content?: string
+    content?: string,
+    kind: SectionKind = 'chapter'
   ): Promise<Chapter | null> {
     try {
-      // Determine the next order value for this project
-      const result = await dbService.getOne<{ maxOrder: number | null }>(
-        'SELECT MAX("order") as maxOrder FROM chapters WHERE projectId = ?',
-        [projectId]
-      );
-      const nextOrder = (result?.maxOrder ?? -1) + 1; // Start order from 0 or handle null case
-
-      // Insert the new chapter
-      await dbService.run(
-        'INSERT INTO chapters (projectId, title, description, content, "order") VALUES (?, ?, ?, ?, ?)',
-        [projectId, title, description, content ?? null, nextOrder]
-      );
-
-      // Retrieve the newly created chapter
-      const newChapter = await dbService.getOne<Chapter>(
-        'SELECT * FROM chapters WHERE id = last_insert_rowid()'
-      );
-
+      let newChapter: Chapter | null = null;
+      await dbService.transaction(async (tx) => {
+        // Everything up to and including the new section's zone stays in front of it
+        const existing = await tx.get<Pick<Chapter, 'kind'>>(
+          'SELECT kind FROM chapters WHERE projectId = ?',
+          [projectId]
+        );
+        const position = existing.filter(chapter => sectionZoneRank(chapter.kind) <= sectionZoneRank(kind)).length;
+        await tx.run(
+          'UPDATE chapters SET "order" = "order" + 1 WHERE projectId = ? AND "order" >= ?',
+          [projectId, position]
+        );
+        await tx.run(
+          'INSERT INTO chapters (projectId, title, description, content, "order", kind) VALUES (?, ?, ?, ?, ?, ?)',
+          [projectId, title, description, content ?? null, position, kind]
+        );
+        newChapter = await tx.getOne<Chapter>('SELECT * FROM chapters WHERE id = last_insert_rowid()');
+      });
       return newChapter;
     } catch (error) {
       console.error('Error creating chapter:', error);
@@ -82,14 +165,23 @@ export const chapterService = {
 
   /**
    * Updates an existing chapter.
+   * Changes to title, description or content are recorded in the chapter's revision history;
+   * the first tracked change also stores the previous text as an 'original' revision.
+   * A changed `kind` moves the section into its new zone: to position `order` if given (as undo
+   * does), otherwise to the end of the zone that is nearest to where it was.
    * @param id - The ID of the chapter to update.
-   * @param updates - An object containing the fields to update (title, description, content, order).
+   * @param updates - An object containing the fields to update (title, description, content, order, kind).
+   * @param source - What produced the change (manual edit, LLM generation, chat edit, restore).
    * @returns The updated chapter object or null if not found or update failed.
    */
   async updateChapter(
     id: number,
-    updates: Partial<Pick<Chapter, 'title' | 'description' | 'content' | 'order'>>
+    updates: Partial<Pick<Chapter, 'title' | 'description' | 'content' | 'order' | 'kind'>>,
+    source: RevisionSource = 'manual'
   ): Promise<Chapter | null> {
+    const current = updates.kind !== undefined ? await this.getChapterById(id) : null;
+    const changesKind = current !== null && current.kind !== updates.kind;
+
     const fieldsToUpdate: string[] = [];
     const values: (string | number | null)[] = [];
 
@@ -108,7 +200,11 @@ export const chapterService = {
       fieldsToUpdate.push('content = ?');
       values.push(updates.content);
     }
-    if (updates.order !== undefined) {
+    if (changesKind) {
+      // The position is assigned below, once the section is in its new zone
+      fieldsToUpdate.push('kind = ?');
+      values.push(updates.kind!);
+    } else if (updates.order !== undefined) {
       fieldsToUpdate.push(`${orderKey} = ?`);
       values.push(updates.order);
     }
@@ -124,8 +220,30 @@ export const chapterService = {
     const sql = `UPDATE chapters SET ${fieldsToUpdate.join(', ')} WHERE id = ?`;
     values.push(id);
 
+    // Order-only updates (drag-and-drop) are not part of the text history
+    const changesText =
+      updates.title !== undefined || updates.description !== undefined || updates.content !== undefined;
+
     try {
-      await dbService.run(sql, values);
+      await dbService.transaction(async (tx) => {
+        if (changesText) {
+          const existing = await tx.getOne<{ count: number }>(
+            'SELECT COUNT(*) as count FROM chapter_revisions WHERE chapterId = ?',
+            [id]
+          );
+          if (!existing?.count) {
+            // Keep the text from before history tracking started, so it can be restored
+            await recordRevision(tx, id, 'original');
+          }
+        }
+        await tx.run(sql, values);
+        if (changesKind) {
+          await placeInZone(tx, current.projectId, id, updates.order);
+        }
+        if (changesText) {
+          await recordRevision(tx, id, source);
+        }
+      });
       return this.getChapterById(id); // Fetch the updated chapter
     } catch (error) {
       console.error(`Error updating chapter with ID ${id}:`, error);
@@ -133,73 +251,211 @@ export const chapterService = {
     }
   },
 
+  /**
+   * Stores text as a 'draft' revision without changing the chapter, e.g. the part of a generation
+   * that was stopped. It can be restored from the revision history like any other revision.
+   * @param id - The ID of the chapter.
+   * @param content - The draft text.
+   * @returns True if the draft was saved, false if the chapter was not found or saving failed.
+   */
+  async saveDraft(id: number, content: string): Promise<boolean> {
+    try {
+      return await dbService.transaction(async (tx) => {
+        const chapter = await tx.getOne<ChapterText>(
+          'SELECT title, description, content FROM chapters WHERE id = ?',
+          [id]
+        );
+        if (!chapter) return false;
+        const existing = await tx.getOne<{ count: number }>(
+          'SELECT COUNT(*) as count FROM chapter_revisions WHERE chapterId = ?',
+          [id]
+        );
+        if (!existing?.count) {
+          // As in updateChapter: the current text must stay restorable
+          await recordRevision(tx, id, 'original');
+        }
+        await tx.run(
+          'INSERT INTO chapter_revisions (chapterId, title, description, content, source) VALUES (?, ?, ?, ?, ?)',
+          [id, chapter.title, chapter.description, content, 'draft']
+        );
+        return true;
+      });
+    } catch (error) {
+      console.error(`Error saving draft for chapter with ID ${id}:`, error);
+      return false;
+    }
+  },
+
    /**
    * Updates the order of multiple chapters, typically after a drag-and-drop operation.
-   * This requires careful handling to avoid constraint violations if order is unique per project.
+   * All updates run in a single transaction, so either every chapter moves or none does.
    * Assuming 'order' doesn't have a unique constraint per project for simplicity here.
-   * A more robust implementation might involve temporary values or deferred constraints.
    * @param updates - An array of objects, each containing chapter `id` and new `order`.
    * @returns True if all updates were successful, false otherwise.
    */
   async updateChapterOrder(updates: { id: number; order: number }[]): Promise<boolean> {
     if (updates.length === 0) return true;
 
-    // Simple approach: update each chapter individually.
-    // For performance or complex constraints, a single transaction (if supported) or more complex SQL might be needed.
-    // sql.js doesn't support complex transactions easily across multiple statements in this helper structure.
     try {
-      for (const update of updates) {
-        await dbService.run('UPDATE chapters SET "order" = ? WHERE id = ?', [
-          update.order,
-          update.id,
-        ]);
-      }
+      await dbService.transaction(async (tx) => {
+        for (const update of updates) {
+          await tx.run('UPDATE chapters SET "order" = ? WHERE id = ?', [
+            update.order,
+            update.id,
+          ]);
+        }
+      });
       // Note: This doesn't automatically re-fetch or return the updated chapters.
       // The caller might need to re-fetch the chapter list for the project.
       return true;
     } catch (error) {
-      console.error('Error updating chapter order:', error);
-      // Consider rollback logic if this were a real transaction
+      console.error('Error updating chapter order (rolled back):', error);
+      return false;
+    }
+  },
+
+  /**
+   * Replaces the body chapters of a project with a new list (e.g. a freshly generated plan).
+   * Front and back matter are kept, and the new chapters go between them.
+   * Runs in a single transaction: if any insert fails, the existing chapters are kept.
+   * @param projectId - The ID of the project whose chapters are replaced.
+   * @param chapters - The new chapters, in order.
+   * @returns True if the chapters were replaced, false otherwise.
+   */
+  async replaceChapters(
+    projectId: number,
+    chapters: Pick<Chapter, 'title' | 'description' | 'content'>[]
+  ): Promise<boolean> {
+    try {
+      await dbService.transaction(async (tx) => {
+        const bodyIdsSql = "SELECT id FROM chapters WHERE projectId = ? AND kind = 'chapter'";
+        // Foreign keys are not enforced by sql.js by default, so remove dependent rows explicitly
+        await tx.run(`DELETE FROM messages WHERE chapterId IN (${bodyIdsSql})`, [projectId]);
+        await tx.run(`DELETE FROM chapter_revisions WHERE chapterId IN (${bodyIdsSql})`, [projectId]);
+        await tx.run("DELETE FROM chapters WHERE projectId = ? AND kind = 'chapter'", [projectId]);
+        const kept = await tx.get<Pick<Chapter, 'id' | 'kind'>>(
+          'SELECT id, kind FROM chapters WHERE projectId = ? ORDER BY "order" ASC',
+          [projectId]
+        );
+        const front = kept.filter(section => sectionZoneRank(section.kind) === 0);
+        const back = kept.filter(section => sectionZoneRank(section.kind) > 0);
+        const insertedIds: number[] = [];
+        for (const chapter of chapters) {
+          await tx.run(
+            'INSERT INTO chapters (projectId, title, description, content, "order") VALUES (?, ?, ?, ?, ?)',
+            [projectId, chapter.title, chapter.description, chapter.content ?? null, 0]
+          );
+          const inserted = await tx.getOne<{ id: number }>('SELECT last_insert_rowid() AS id');
+          insertedIds.push(inserted!.id);
+        }
+        await renumberChapters(tx, [...front.map(section => section.id), ...insertedIds, ...back.map(section => section.id)]);
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error replacing chapters for project ${projectId} (rolled back):`, error);
       return false;
     }
   },
 
 
   /**
-   * Deletes a chapter.
-   * Note: This might affect the ordering of subsequent chapters if not handled carefully
-   * (e.g., re-numbering might be desired, but is not done automatically here).
+   * Deletes a chapter and renumbers the following chapters of the same project
+   * so the order stays contiguous. Runs in a single transaction.
    * @param id - The ID of the chapter to delete.
    * @returns True if deletion was successful, false otherwise.
    */
   async deleteChapter(id: number): Promise<boolean> {
     try {
-      // Optional: Before deleting, get the chapter's projectId and order if re-ordering is needed.
-      // const chapter = await this.getChapterById(id);
-      await dbService.run('DELETE FROM chapters WHERE id = ?', [id]);
-      // Optional: After deleting, re-order subsequent chapters for the same project if needed.
-      // if (chapter) { await this.renumberChapters(chapter.projectId, chapter.order); }
-      return true; // Assume success if no error thrown
+      await dbService.transaction(async (tx) => {
+        const chapter = await tx.getOne<Pick<Chapter, 'projectId' | 'order'>>(
+          'SELECT projectId, "order" FROM chapters WHERE id = ?',
+          [id]
+        );
+        await tx.run('DELETE FROM messages WHERE chapterId = ?', [id]);
+        await tx.run('DELETE FROM chapter_revisions WHERE chapterId = ?', [id]);
+        await tx.run('DELETE FROM chapters WHERE id = ?', [id]);
+        if (chapter) {
+          await tx.run(
+            'UPDATE chapters SET "order" = "order" - 1 WHERE projectId = ? AND "order" > ?',
+            [chapter.projectId, chapter.order]
+          );
+        }
+      });
+      return true;
     } catch (error) {
       console.error(`Error deleting chapter with ID ${id}:`, error);
       return false;
     }
   },
 
-  // Optional helper function if re-numbering is needed after deletion or complex re-ordering
-  /*
-  async renumberChapters(projectId: number, startingOrder: number): Promise<void> {
-    try {
-      // This is a simplified example; actual renumbering might be more complex
-      await dbService.run(
-        'UPDATE chapters SET "order" = "order" - 1 WHERE projectId = ? AND "order" > ?',
-        [projectId, startingOrder]
+  /**
+   * Captures full copies of chapters (with revisions and chapter-specific messages) so they can be re-inserted later.
+   * @param projectId - The ID of the project.
+   * @param chapterIds - Optional: only capture these chapters. Defaults to all chapters of the project.
+   * @returns The snapshots, ordered by chapter order.
+   */
+  async getChapterSnapshots(projectId: number, chapterIds?: number[]): Promise<ChapterSnapshot[]> {
+    const chapters = (await this.getChaptersByProjectId(projectId))
+      .filter(chapter => !chapterIds || chapterIds.includes(chapter.id));
+    const snapshots: ChapterSnapshot[] = [];
+    for (const chapter of chapters) {
+      const revisions = await dbService.get<ChapterRevision>(
+        'SELECT * FROM chapter_revisions WHERE chapterId = ? ORDER BY id ASC',
+        [chapter.id]
       );
+      const messages = await dbService.get<ChatMessage>(
+        'SELECT * FROM messages WHERE chapterId = ? ORDER BY id ASC',
+        [chapter.id]
+      );
+      snapshots.push({ chapter, revisions, messages });
+    }
+    return snapshots;
+  },
+
+  /**
+   * Re-inserts a previously deleted chapter at its original position, shifting the following chapters down.
+   * @param snapshot - The snapshot captured before the chapter was deleted.
+   * @returns True if the chapter was restored, false otherwise.
+   */
+  async insertChapterSnapshot(snapshot: ChapterSnapshot): Promise<boolean> {
+    try {
+      await dbService.transaction(async (tx) => {
+        await tx.run(
+          'UPDATE chapters SET "order" = "order" + 1 WHERE projectId = ? AND "order" >= ?',
+          [snapshot.chapter.projectId, snapshot.chapter.order]
+        );
+        await insertSnapshotRows(tx, snapshot);
+      });
+      return true;
     } catch (error) {
-      console.error(`Error renumbering chapters for project ${projectId}:`, error);
+      console.error(`Error restoring chapter ${snapshot.chapter.id} from snapshot (rolled back):`, error);
+      return false;
     }
-  }
-  */
+  },
+
+  /**
+   * Replaces all chapters of a project with the given snapshots (e.g. to undo a plan regeneration).
+   * @param projectId - The ID of the project.
+   * @param snapshots - The complete chapter set to restore.
+   * @returns True if the chapters were restored, false otherwise.
+   */
+  async restoreProjectChapters(projectId: number, snapshots: ChapterSnapshot[]): Promise<boolean> {
+    try {
+      await dbService.transaction(async (tx) => {
+        const chapterIdsSql = 'SELECT id FROM chapters WHERE projectId = ?';
+        await tx.run(`DELETE FROM messages WHERE chapterId IN (${chapterIdsSql})`, [projectId]);
+        await tx.run(`DELETE FROM chapter_revisions WHERE chapterId IN (${chapterIdsSql})`, [projectId]);
+        await tx.run('DELETE FROM chapters WHERE projectId = ?', [projectId]);
+        for (const snapshot of snapshots) {
+          await insertSnapshotRows(tx, snapshot);
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error restoring chapters for project ${projectId} (rolled back):`, error);
+      return false;
+    }
+  },
 };
 
 // Example Usage (can be removed or placed in a test file)
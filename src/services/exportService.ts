@@ -0,0 +1,60 @@
+// src/services/exportService.ts
+import { projectService } from './projectService';
+import { chapterService } from './chapterService';
+import { bookMetadataService } from './bookMetadataService';
+import { toFileName } from '../lib/download';
+import { markdownExporter, markdownZipExporter } from '../exporters/markdownExporter';
+import { epubExporter } from '../exporters/epubExporter';
+import { pdfExporter } from '../exporters/pdfExporter';
+import { docxExporter } from '../exporters/docxExporter';
+import { htmlSiteExporter } from '../exporters/htmlSiteExporter';
+import type { ExportOptions, ManuscriptExporter } from '../exporters/types';
+
+// Formats offered in the project view, in display order
+export const EXPORTERS = {
+  epub: epubExporter,
+  pdf: pdfExporter,
+  docx: docxExporter,
+  'html-site': htmlSiteExporter,
+  markdown: markdownExporter,
+  'markdown-zip': markdownZipExporter,
+} satisfies Record<string, ManuscriptExporter>;
+
+export type ExportFormat = keyof typeof EXPORTERS;
+
+export interface ExportedFile {
+  content: Uint8Array | string;
+  fileName: string;
+  mimeType: string;
+}
+
+export const exportService = {
+  /**
+   * Renders a project, its chapters (in chapter order) and its book metadata in the given format.
+   * @param projectId - The ID of the project to export.
+   * @param format - The export format.
+   * @param options - Format-specific options, e.g. the PDF page layout.
+   * @returns The file to offer for download, or null if the project is not found or rendering failed.
+   */
+  async exportProject(projectId: number, format: ExportFormat, options: ExportOptions = {}): Promise<ExportedFile | null> {
+    try {
+      const project = await projectService.getProjectById(projectId);
+      if (!project) {
+        console.warn(`Project with ID ${projectId} not found for export.`);
+        return null;
+      }
+      const chapters = await chapterService.getChaptersByProjectId(projectId);
+      const metadata = await bookMetadataService.getMetadata(projectId);
+      const exporter: ManuscriptExporter = EXPORTERS[format];
+      const content = await exporter.export({ project, chapters, metadata, options });
+      return {
+        content,
+        fileName: toFileName(project.name, exporter.extension),
+        mimeType: exporter.mimeType,
+      };
+    } catch (error) {
+      console.error(`Error exporting project with ID ${projectId} as ${format}:`, error);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,242 @@
+// src/services/historyService.ts
+import { chapterService } from './chapterService';
+import { projectService } from './projectService';
+import type { Chapter, ChapterSnapshot, EbookParameters } from '../types/models';
+
+// A reversible operation. Commands are recorded after the operation itself has succeeded,
+// so `redo` repeats it and `undo` reverts it. Both throw if the database update fails.
+export interface HistoryCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// What the history list in the UI shows
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+type StoredCommand = HistoryEntry & { command: HistoryCommand };
+
+const MAX_HISTORY = 100;
+
+let undoStack: StoredCommand[] = [];
+let redoStack: StoredCommand[] = [];
+let nextEntryId = 1;
+let isBusy = false; // Prevents overlapping undo/redo runs (e.g. holding Ctrl+Z)
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+// Turns a service's null/false result into an exception, so a failed undo keeps its place in the stack
+function ensure<T>(result: T | null | false, message: string): T {
+  if (result === null || result === false) {
+    throw new Error(message);
+  }
+  return result;
+}
+
+async function step(from: StoredCommand[], to: StoredCommand[], action: 'undo' | 'redo'): Promise<boolean> {
+  if (isBusy || from.length === 0) return false;
+  isBusy = true;
+  const entry = from[from.length - 1];
+  try {
+    await entry.command[action]();
+    from.pop();
+    to.push(entry);
+    return true;
+  } catch (error) {
+    console.error(`Failed to ${action} "${entry.label}":`, error);
+    throw error;
+  } finally {
+    isBusy = false;
+    notify();
+  }
+}
+
+export const historyService = {
+  /**
+   * Records an operation that has just been performed. Clears the redo stack.
+   * @param command - The command describing how to undo/redo the operation.
+   */
+  push(command: HistoryCommand): void {
+    undoStack.push({ id: nextEntryId++, label: command.label, timestamp: Date.now(), command });
+    if (undoStack.length > MAX_HISTORY) {
+      undoStack = undoStack.slice(-MAX_HISTORY);
+    }
+    redoStack = [];
+    notify();
+  },
+
+  /**
+   * Reverts the most recent operation.
+   * @returns True if an operation was undone, false if there was nothing to undo.
+   * @throws Error if the undo failed (the command stays on the undo stack).
+   */
+  async undo(): Promise<boolean> {
+    return step(undoStack, redoStack, 'undo');
+  },
+
+  /**
+   * Re-applies the most recently undone operation.
+   * @returns True if an operation was redone, false if there was nothing to redo.
+   * @throws Error if the redo failed (the command stays on the redo stack).
+   */
+  async redo(): Promise<boolean> {
+    return step(redoStack, undoStack, 'redo');
+  },
+
+  canUndo(): boolean {
+    return undoStack.length > 0 && !isBusy;
+  },
+
+  canRedo(): boolean {
+    return redoStack.length > 0 && !isBusy;
+  },
+
+  /**
+   * Lists recorded operations, oldest first.
+   */
+  getEntries(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    const toEntry = ({ id, label, timestamp }: StoredCommand): HistoryEntry => ({ id, label, timestamp });
+    return { undo: undoStack.map(toEntry), redo: redoStack.map(toEntry) };
+  },
+
+  /**
+   * Drops all history, e.g. when another project is opened.
+   */
+  clear(): void {
+    undoStack = [];
+    redoStack = [];
+    notify();
+  },
+
+  /**
+   * Registers a listener called whenever the history changes.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+// --- Command Factories ---
+
+type ChapterText = Pick<Chapter, 'title' | 'description' | 'content'>;
+
+const pickText = (chapter: Chapter): ChapterText => ({
+  title: chapter.title,
+  description: chapter.description,
+  content: chapter.content ?? '',
+});
+
+export const historyCommands = {
+  createChapter(chapter: Chapter): HistoryCommand {
+    // Taken on undo, so redo brings back the revisions and chat messages the chapter has by then
+    let snapshot: ChapterSnapshot = { chapter, revisions: [], messages: [] };
+    return {
+      label: `Add chapter "${chapter.title}"`,
+      undo: async () => {
+        const [current] = await chapterService.getChapterSnapshots(chapter.projectId, [chapter.id]);
+        snapshot = ensure(current ?? null, 'Failed to capture chapter.');
+        ensure(await chapterService.deleteChapter(chapter.id), 'Failed to remove chapter.');
+      },
+      redo: async () => {
+        ensure(await chapterService.insertChapterSnapshot(snapshot), 'Failed to re-add chapter.');
+      },
+    };
+  },
+
+  importChapters(chapters: Chapter[]): HistoryCommand {
+    const ids = chapters.map(chapter => chapter.id);
+    // Taken on undo, like the snapshot of createChapter; ordered by position for redo
+    let snapshots: ChapterSnapshot[] = chapters.map(chapter => ({ chapter, revisions: [], messages: [] }));
+    return {
+      label: `Import ${chapters.length} chapter${chapters.length === 1 ? '' : 's'}`,
+      undo: async () => {
+        const current = await chapterService.getChapterSnapshots(chapters[0].projectId, ids);
+        snapshots = ensure(current.length === chapters.length && current, 'Failed to capture imported chapters.');
+        // Last first, so the remaining chapters keep their positions
+        for (const snapshot of [...snapshots].reverse()) {
+          ensure(await chapterService.deleteChapter(snapshot.chapter.id), 'Failed to remove imported chapter.');
+        }
+      },
+      redo: async () => {
+        for (const snapshot of snapshots) {
+          ensure(await chapterService.insertChapterSnapshot(snapshot), 'Failed to re-add imported chapter.');
+        }
+      },
+    };
+  },
+
+  updateChapter(before: Chapter, after: Chapter, label = `Edit chapter "${after.title}"`): HistoryCommand {
+    // A kind change also moved the section between zones; put it back at its exact position
+    const placement = (chapter: Chapter) =>
+      before.kind !== after.kind ? { kind: chapter.kind, order: chapter.order } : {};
+    return {
+      label,
+      undo: async () => {
+        ensure(await chapterService.updateChapter(before.id, { ...pickText(before), ...placement(before) }, 'restore'), 'Failed to revert chapter.');
+      },
+      redo: async () => {
+        ensure(await chapterService.updateChapter(after.id, { ...pickText(after), ...placement(after) }, 'restore'), 'Failed to reapply chapter edit.');
+      },
+    };
+  },
+
+  deleteChapter(snapshot: ChapterSnapshot): HistoryCommand {
+    return {
+      label: `Delete chapter "${snapshot.chapter.title}"`,
+      undo: async () => {
+        ensure(await chapterService.insertChapterSnapshot(snapshot), 'Failed to restore chapter.');
+      },
+      redo: async () => {
+        ensure(await chapterService.deleteChapter(snapshot.chapter.id), 'Failed to delete chapter.');
+      },
+    };
+  },
+
+  reorderChapters(before: Chapter[], after: Chapter[]): HistoryCommand {
+    const toOrder = (chapters: Chapter[]) => chapters.map((chapter, index) => ({ id: chapter.id, order: index }));
+    return {
+      label: 'Reorder chapters',
+      undo: async () => {
+        ensure(await chapterService.updateChapterOrder(toOrder(before)), 'Failed to restore chapter order.');
+      },
+      redo: async () => {
+        ensure(await chapterService.updateChapterOrder(toOrder(after)), 'Failed to reapply chapter order.');
+      },
+    };
+  },
+
+  replaceChapters(projectId: number, before: ChapterSnapshot[], after: ChapterSnapshot[]): HistoryCommand {
+    return {
+      label: 'Generate ebook plan',
+      undo: async () => {
+        ensure(await chapterService.restoreProjectChapters(projectId, before), 'Failed to restore previous chapters.');
+      },
+      redo: async () => {
+        ensure(await chapterService.restoreProjectChapters(projectId, after), 'Failed to reapply generated plan.');
+      },
+    };
+  },
+
+  updateParameters(projectId: number, before: EbookParameters, after: EbookParameters): HistoryCommand {
+    return {
+      label: 'Change ebook parameters',
+      undo: async () => {
+        ensure(await projectService.updateProject(projectId, { parameters: before }), 'Failed to revert parameters.');
+      },
+      redo: async () => {
+        ensure(await projectService.updateProject(projectId, { parameters: after }), 'Failed to reapply parameters.');
+      },
+    };
+  },
+};
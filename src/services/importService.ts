@@ -0,0 +1,164 @@
+// src/services/importService.ts
+import { dbService, ATTACHED_SCHEMA, type DbExecutor } from '../lib/database';
+import type { Chapter, ImportableProject, Project } from '../types/models';
+
+// Merge-import: projects are copied out of an attached .db file into the current database,
+// unlike dbService.loadDatabaseFromFile which replaces everything.
+
+export interface ProjectImportSelection {
+  sourceId: number; // Project ID inside the imported file
+  name: string; // Name to import it under (made unique if it still clashes)
+}
+
+/**
+ * Picks a project name that is not taken yet: "Name", then "Name (2)", "Name (3)", ...
+ * @param name - The preferred name.
+ * @param takenNames - Names already in use.
+ * @returns The preferred name, or the first numbered variant that is free.
+ */
+export function getUniqueProjectName(name: string, takenNames: Set<string>): string {
+  if (!takenNames.has(name)) {
+    return name;
+  }
+  let suffix = 2;
+  while (takenNames.has(`${name} (${suffix})`)) {
+    suffix++;
+  }
+  return `${name} (${suffix})`;
+}
+
+// Copies one project with its book metadata, chapters, revisions and messages. New rows get new IDs;
+// chapter references are remapped to the copied chapters.
+async function copyProject(tx: DbExecutor, sourceId: number, name: string): Promise<Project> {
+  const source = await tx.getOne<Project>(`SELECT * FROM ${ATTACHED_SCHEMA}.projects WHERE id = ?`, [sourceId]);
+  if (!source) {
+    throw new Error(`Project ${sourceId} was not found in the imported file.`);
+  }
+
+  await tx.run(
+    'INSERT INTO projects (name, description, parameters, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+    [name, source.description ?? null, source.parameters ?? null, source.createdAt, source.updatedAt]
+  );
+  const project = await tx.getOne<Project>('SELECT * FROM projects WHERE id = last_insert_rowid()');
+  if (!project) {
+    throw new Error(`Failed to create project "${name}".`);
+  }
+
+  await tx.run(
+    `INSERT INTO book_metadata (projectId, author, language, publisher, isbn, coverImage, coverMimeType, updatedAt)
+     SELECT ?, author, language, publisher, isbn, coverImage, coverMimeType, updatedAt
+     FROM ${ATTACHED_SCHEMA}.book_metadata WHERE projectId = ?`,
+    [project.id, sourceId]
+  );
+
+  const chapters = await tx.get<Chapter>(
+    `SELECT * FROM ${ATTACHED_SCHEMA}.chapters WHERE projectId = ? ORDER BY "order" ASC`,
+    [sourceId]
+  );
+  for (const chapter of chapters) {
+    await tx.run(
+      'INSERT INTO chapters (projectId, title, description, content, "order", kind, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [project.id, chapter.title, chapter.description, chapter.content ?? null, chapter.order, chapter.kind, chapter.createdAt, chapter.updatedAt]
+    );
+    const inserted = await tx.getOne<{ id: number }>('SELECT last_insert_rowid() AS id');
+    if (!inserted) {
+      throw new Error(`Failed to copy chapter "${chapter.title}".`);
+    }
+
+    await tx.run(
+      `INSERT INTO chapter_revisions (chapterId, title, description, content, source, createdAt)
+       SELECT ?, title, description, content, source, createdAt
+       FROM ${ATTACHED_SCHEMA}.chapter_revisions WHERE chapterId = ? ORDER BY id`,
+      [inserted.id, chapter.id]
+    );
+    await tx.run(
+      `INSERT INTO messages (projectId, chapterId, role, content, createdAt)
+       SELECT ?, ?, role, content, createdAt
+       FROM ${ATTACHED_SCHEMA}.messages WHERE projectId = ? AND chapterId = ? ORDER BY id`,
+      [project.id, inserted.id, sourceId, chapter.id]
+    );
+  }
+
+  // Project-level messages, plus any that point at a chapter missing from the file
+  await tx.run(
+    `INSERT INTO messages (projectId, chapterId, role, content, createdAt)
+     SELECT ?, NULL, role, content, createdAt
+     FROM ${ATTACHED_SCHEMA}.messages
+     WHERE projectId = ?
+       AND (chapterId IS NULL OR chapterId NOT IN (SELECT id FROM ${ATTACHED_SCHEMA}.chapters WHERE projectId = ?))
+     ORDER BY id`,
+    [project.id, sourceId, sourceId]
+  );
+
+  return project;
+}
+
+export const importService = {
+  /**
+   * Attaches a .db file and lists the projects it contains.
+   * Call closeFile() when done, whether or not anything was imported.
+   * @param data - The Uint8Array containing the database file data.
+   * @returns The projects in the file, with suggested names that don't clash with existing ones.
+   * @throws Error if the file is not a valid database or comes from a newer schema version.
+   */
+  async openFile(data: Uint8Array): Promise<ImportableProject[]> {
+    await dbService.attachDatabase(data);
+    try {
+      const takenNames = new Set(
+        (await dbService.get<{ name: string }>('SELECT name FROM projects')).map(row => row.name)
+      );
+      const projects = await dbService.get<Omit<ImportableProject, 'nameClash' | 'suggestedName'>>(
+        `SELECT p.id, p.name, p.description,
+                (SELECT COUNT(*) FROM ${ATTACHED_SCHEMA}.chapters c WHERE c.projectId = p.id) AS chapterCount,
+                (SELECT COUNT(*) FROM ${ATTACHED_SCHEMA}.messages m WHERE m.projectId = p.id) AS messageCount
+         FROM ${ATTACHED_SCHEMA}.projects p
+         ORDER BY p.createdAt DESC`
+      );
+      // Suggestions also avoid each other, so importing everything as suggested never clashes
+      return projects.map(project => {
+        const suggestedName = getUniqueProjectName(project.name, takenNames);
+        takenNames.add(suggestedName);
+        return { ...project, nameClash: suggestedName !== project.name, suggestedName };
+      });
+    } catch (error) {
+      await dbService.detachDatabase();
+      throw error;
+    }
+  },
+
+  /**
+   * Copies the selected projects from the attached file into the current database, in one transaction.
+   * Names that clash with existing projects (or with each other) get a numbered suffix.
+   * @param selections - The projects to import and the names to use.
+   * @returns The newly created projects, or null if the import failed (nothing is imported then).
+   */
+  async importProjects(selections: ProjectImportSelection[]): Promise<Project[] | null> {
+    try {
+      // ##@@TAG: Merge Import Projects
+      return await dbService.transaction(async (tx) => {
+        const takenNames = new Set((await tx.get<{ name: string }>('SELECT name FROM projects')).map(row => row.name));
+        const imported: Project[] = [];
+        for (const selection of selections) {
+          const name = getUniqueProjectName(selection.name.trim(), takenNames);
+          takenNames.add(name);
+          imported.push(await copyProject(tx, selection.sourceId, name));
+        }
+        return imported;
+      });
+    } catch (error) {
+      console.error('Error importing projects:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Detaches the file opened with openFile().
+   */
+  async closeFile(): Promise<void> {
+    try {
+      await dbService.detachDatabase();
+    } catch (error) {
+      console.error('Error closing import file:', error);
+    }
+  },
+};
@@ -1,58 +1,119 @@
 // src/services/llmService.ts
 import { projectService } from './projectService';
 import { chapterService } from './chapterService';
-import type { Project, Chapter, EbookParameters, ChatMessage } from '../types/models';
+import type { Project, Chapter, EbookParameters, ChatMessage, SectionKind, PartialContentAction, GenerationParameters, GenerationTask } from '../types/models';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { loadLlmSettings, type LlmSettings } from '../lib/settingsService'; // Import settings loader
+import { SECTION_KINDS } from '../lib/sectionKinds';
+import { resolveGenerationParameters } from '../lib/generationParameters';
 
-// Import Provider Modules
-import { openaiProvider } from '../providers/openaiProvider';
-import { ollamaProvider } from '../providers/ollamaProvider';
-import { lmstudioProvider } from '../providers/lmstudioProvider';
-import type { LlmProvider, ProviderConfig } from '../providers/types'; // Import common types
+import { getProvider, resolveProviderOptions } from '../providers/registry'; // Built-in and registered third-party providers
+import type { LlmProvider, ProviderConfig, TokenHandler } from '../providers/types'; // Import common types
 
 /**
  * Gets the active LLM provider module based on saved settings.
  * @param settings - The loaded LLM settings.
- * @returns The corresponding provider module or null if invalid.
+ * @returns The registered provider with the settings' ID, or null if there is none.
  */
 const getActiveProvider = (settings: LlmSettings): LlmProvider | null => {
-  switch (settings.provider) {
-    case 'openai':
-      return openaiProvider;
-    case 'ollama':
-      return ollamaProvider;
-    case 'lmstudio': // Add LMStudio case
-        return lmstudioProvider;
-    // Add cases for other providers here
-    default:
-      console.error(`Unsupported LLM provider specified in settings: ${settings.provider}`);
-      return null;
+  const provider = getProvider(settings.provider);
+  if (!provider) {
+    console.error(`Unsupported LLM provider specified in settings: ${settings.provider}`);
+    return null;
   }
+  return provider;
 };
 
 /**
  * Creates the configuration object needed by provider methods.
  * @param settings - The loaded LLM settings.
+ * @param provider - The active provider, whose options are passed on.
+ * @param generation - Optional: generation parameters for completions.
+ * @param task - Optional: the kind of request, e.g. deciding whether a grammar applies.
  * @returns ProviderConfig object.
  */
-const createProviderConfig = (settings: LlmSettings): ProviderConfig => {
-    // Ensure a model is selected, falling back to defaults if necessary
+const createProviderConfig = (
+  settings: LlmSettings,
+  provider: LlmProvider,
+  generation: GenerationParameters = {},
+  task?: GenerationTask
+): ProviderConfig => {
+    // Ensure a model is selected, falling back to the provider's default if necessary
     let model = settings.model;
     if (!model) {
         console.warn("No model specified in settings, falling back to default.");
-        model = settings.provider === 'ollama' ? 'llama3' : // Example default for ollama
-                settings.provider === 'lmstudio' ? 'loaded-model-id' : // Placeholder default for LMStudio
-                'gpt-3.5-turbo'; // Default for OpenAI
+        model = provider.defaultModel ?? '';
     }
 
     return {
+        ...generation,
         apiKey: settings.apiKey,
         baseUrl: settings.baseUrl,
         model: model,
+        options: resolveProviderOptions(provider, settings.providerOptions[provider.id]),
+        task,
     };
 };
 
+/**
+ * Sends messages to the provider, streaming the response to `onToken` if given. Providers that
+ * cannot stream deliver the whole response as one token.
+ */
+const requestCompletion = async (
+  provider: LlmProvider,
+  messages: ChatCompletionMessageParam[],
+  config: ProviderConfig,
+  onToken?: TokenHandler,
+  signal?: AbortSignal
+): Promise<string | null> => {
+  if (!onToken) return provider.getChatCompletion(messages, config, signal);
+  if (provider.capabilities.streaming) return provider.streamChatCompletion(messages, config, onToken, signal);
+  const response = await provider.getChatCompletion(messages, config, signal);
+  if (response) onToken(response);
+  return response;
+};
+
+
+/**
+ * Works out the generation parameters of a request from the task defaults in the settings and
+ * the project's overrides.
+ */
+const generationFor = (settings: LlmSettings, task: GenerationTask, project?: Project): GenerationParameters => {
+  const parameters: EbookParameters = project?.parameters ? JSON.parse(project.parameters) : {};
+  return resolveGenerationParameters(task, settings.generation, parameters.generation);
+};
+
+// Options for processLLMPrompt and getChatResponse
+export interface LlmRequestOptions {
+  task?: GenerationTask; // Selects the generation parameters
+  project?: Project; // Project whose generation parameter overrides apply
+  onToken?: TokenHandler; // Streams the response, passing each piece of text as it arrives
+  signal?: AbortSignal; // Cancels the request
+}
+
+// Options for generateChapterSequenceContent
+export interface ChapterSequenceOptions {
+  signal?: AbortSignal; // Stops the sequence, including the chapter being written
+  onToken?: (chapterId: number, token: string) => void; // Streamed text of the chapter being written
+  partialContent?: PartialContentAction; // What to do with a stopped chapter's text; defaults to 'draft'
+}
+
+// Characters of chapter text sent when asking for a chapter description
+const DESCRIPTION_EXCERPT_LENGTH = 6000;
+
+// Characters of the final chapter sent as context for an epilogue
+const EPILOGUE_CONTEXT_LENGTH = 1500;
+
+// What to write for each kind of front and back matter
+const SECTION_INSTRUCTIONS: Record<Exclude<SectionKind, 'chapter'>, string> = {
+  dedication: 'Write a short dedication: one to three lines, without a heading. If the description does not say who the book is dedicated to, use a placeholder such as [Name].',
+  foreword: 'Write a foreword as it would be written by someone other than the author: introduce the book and its subject, and explain why it is worth reading. Sign it with a placeholder such as [Foreword Author] unless the description names the writer.',
+  preface: "Write a preface in the author's voice: how and why the book came to be, who it is for, and how to read it.",
+  epilogue: 'Write an epilogue that follows the final chapter: show where the story or subject stands afterwards and give the book a sense of closure, without starting new plot lines or topics.',
+  acknowledgements: "Write acknowledgements in the author's voice, thanking the people and organisations who made the book possible. Use placeholders such as [Name] instead of inventing real people.",
+  appendix: 'Write an appendix with supplementary material supporting the chapters, such as reference tables, a glossary, further reading or background details, as the description asks.',
+  'about-the-author': 'Write a short "About the Author" note of 80-150 words in the third person. Use placeholders such as [Author Name] for personal details that are not given.',
+};
 
 // --- Main LLM Service (Dispatcher) ---
 export const llmService = {
@@ -95,14 +156,26 @@ Description: [Chapter Description]
     return promptTemplate;
   },
 
+  /**
+   * Builds the prompt for writing a chapter's content. Front and back matter (dedication,
+   * preface, appendix, ...) get a prompt of their own, see generateSectionContentPrompt.
+   * @param project - The project the chapter belongs to.
+   * @param chapter - The chapter or section to write.
+   * @param previousChapterContent - Text of the preceding section, used with "continue narrative".
+   */
   async generateChapterContentPrompt(
     project: Project,
     chapter: Chapter,
     previousChapterContent?: string | null
   ): Promise<string> {
-    // (Keep existing implementation - it's provider agnostic)
+    const sections = await chapterService.getChaptersByProjectId(project.id);
+    if (chapter.kind !== 'chapter') {
+      return this.generateSectionContentPrompt(project, chapter, sections);
+    }
      const parameters: EbookParameters = project.parameters ? JSON.parse(project.parameters) : {};
     const includePreviousContext = parameters.continueNarrative && previousChapterContent;
+    // Front matter does not count towards the chapter number
+    const chapterNumber = sections.filter(section => section.kind === 'chapter' && section.order <= chapter.order).length || chapter.order + 1;
 
     const promptTemplate = `
 You are a skilled author tasked with writing a specific chapter for an ebook.
@@ -111,7 +184,7 @@ You are a skilled author tasked with writing a specific chapter for an ebook.
 ${project.description || 'Provide your main idea or description here'}
 
 **Chapter to Write:**
-* Chapter Number: ${chapter.order + 1}
+* Chapter Number: ${chapterNumber}
 * Chapter Title: "${chapter.title}"
 * Chapter Description (What this chapter should cover): ${chapter.description}
 
@@ -129,7 +202,7 @@ ${parameters.narrativeHooks ? `* Narrative Hooks to incorporate: \n${parameters.
 ${includePreviousContext ? `* Previous Chapter Content Summary/Key Points:\n---\n${previousChapterContent?.substring(0, 1500)}...\n---` : '* Continue narrative from previous chapter (if applicable).'}
 
 **Instructions:**
-Write the full content for Chapter ${chapter.order + 1}: "${chapter.title}". Ensure the writing adheres to all the specified parameters and fulfills the chapter description. Aim for a length consistent with "${parameters.chapterLength}". Make the content engaging and relevant to the "${parameters.targetAudience}". ${includePreviousContext ? 'Continue the narrative or topic flow logically from the provided previous chapter content.' : 'Ensure the chapter fits logically within the overall book structure.'} ${parameters.narrativeHooks ? 'Where appropriate, subtly weave in references or developments related to the specified Narrative Hooks.' : ''}
+Write the full content for Chapter ${chapterNumber}: "${chapter.title}". Ensure the writing adheres to all the specified parameters and fulfills the chapter description. Aim for a length consistent with "${parameters.chapterLength}". Make the content engaging and relevant to the "${parameters.targetAudience}". ${includePreviousContext ? 'Continue the narrative or topic flow logically from the provided previous chapter content.' : 'Ensure the chapter fits logically within the overall book structure.'} ${parameters.narrativeHooks ? 'Where appropriate, subtly weave in references or developments related to the specified Narrative Hooks.' : ''}
 
 **Output:**
 Begin writing the chapter content directly.
@@ -137,24 +210,104 @@ Begin writing the chapter content directly.
     return promptTemplate;
   },
 
+  /**
+   * Builds the prompt for writing a front or back matter section. The chapter outline is included
+   * so that a preface or appendix can refer to the book's contents; an epilogue also gets the
+   * text of the final chapter.
+   * @param project - The project the section belongs to.
+   * @param section - The section to write; its kind selects the instructions.
+   * @param sections - All sections of the project, in order.
+   */
+  async generateSectionContentPrompt(project: Project, section: Chapter, sections: Chapter[]): Promise<string> {
+    const parameters: EbookParameters = project.parameters ? JSON.parse(project.parameters) : {};
+    const label = SECTION_KINDS[section.kind].label;
+    const instructions = section.kind === 'chapter' ? '' : SECTION_INSTRUCTIONS[section.kind];
+    const chapters = sections.filter(chapter => chapter.kind === 'chapter');
+    const outline = chapters.length > 0
+      ? chapters.map((chapter, index) => `${index + 1}. ${chapter.title}${chapter.description ? ` - ${chapter.description}` : ''}`).join('\n')
+      : 'No chapters have been planned yet.';
+    const finalChapter = chapters[chapters.length - 1]?.content;
+    const context = section.kind === 'epilogue' && finalChapter
+      ? `\n**Final Chapter (excerpt from its end):**\n---\n...${finalChapter.slice(-EPILOGUE_CONTEXT_LENGTH)}\n---\n`
+      : '';
+
+    return `
+You are a skilled author preparing the ${label.toLowerCase()} of an ebook titled "${project.name}".
+
+**Overall Ebook Goal/Main Idea:**
+${project.description || 'Provide your main idea or description here'}
+
+**Chapters of the Book:**
+${outline}
+
+**Section to Write:**
+* Kind: ${label}
+* Title: "${section.title}"
+* Description (what this section should cover): ${section.description || 'None given'}
+
+**Ebook Parameters:**
+* Genre: ${parameters.genre || 'Specify genre'}
+* Target Audience: ${parameters.targetAudience || 'Specify audience'}
+* Writing Style: ${parameters.style || 'Specify style'}
+* Desired Tone: ${parameters.tone || 'Specify tone'}
+* Point of View: ${parameters.pointOfView || 'Specify point of view'}
+* Other Instructions: ${parameters.customInstructions || 'Add custom instructions here'}
+${context}
+**Instructions:**
+${instructions}
+
+**Output:**
+Begin writing the ${label.toLowerCase()} directly, without repeating its title.
+    `;
+  },
+
+  /**
+   * Builds a prompt asking for a short description of an existing (e.g. imported) chapter,
+   * in the style of the descriptions in a generated plan.
+   * @param project - The project the chapter belongs to.
+   * @param title - The chapter title.
+   * @param content - The chapter text; only its beginning is sent.
+   */
+  async generateChapterDescriptionPrompt(project: Project, title: string, content: string): Promise<string> {
+    const excerpt = content.length > DESCRIPTION_EXCERPT_LENGTH
+      ? `${content.substring(0, DESCRIPTION_EXCERPT_LENGTH)}\n[...]`
+      : content;
+    return `
+You are an editor preparing the chapter outline of the ebook "${project.name}".
+${project.description ? `\n**Ebook Goal/Main Idea:**\n${project.description}\n` : ''}
+**Chapter Title:** ${title}
+
+**Chapter Text:**
+---
+${excerpt}
+---
+
+**Instructions:**
+Write a concise 1-3 sentence description of this chapter, outlining the key topics or events it covers. Reply with the description only, without a heading or label.
+    `;
+  },
+
   // --- Provider Interaction Methods ---
 
   /**
    * Processes a single prompt (e.g., for plan generation).
    * Uses the configured provider and model from settings.
    * @param prompt - The prompt string.
-   * @returns The LLM response content or null.
+   * @param options - Optional: the task (default 'chapter') and project selecting the generation
+   * parameters, a token handler to stream the response, and a signal to cancel it.
+   * @returns The LLM response content, or null if the request failed or was cancelled.
    */
-  async processLLMPrompt(prompt: string): Promise<string | null> {
+  async processLLMPrompt(prompt: string, options: LlmRequestOptions = {}): Promise<string | null> {
+    const { task = 'chapter', project, onToken, signal } = options;
     const settings = loadLlmSettings();
     const provider = getActiveProvider(settings);
     if (!provider) return null;
 
-    const config = createProviderConfig(settings);
+    const config = createProviderConfig(settings, provider, generationFor(settings, task, project), task);
     const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: prompt }];
 
     try {
-        return await provider.getChatCompletion(messages, config);
+        return await requestCompletion(provider, messages, config, onToken, signal);
     } catch (error) {
         // Error should be logged within the provider method
         return null;
@@ -166,28 +319,31 @@ Begin writing the chapter content directly.
    * Uses the configured provider and model from settings.
    * @param projectId - ID of the project for context.
    * @param messages - History of chat messages (user/assistant roles).
-   * @returns The assistant's response content or null.
+   * @param options - Optional: the task (default 'chat'), a token handler to stream the response,
+   * and a signal to cancel it. The project's generation parameter overrides always apply.
+   * @returns The assistant's response content, or null if the request failed or was cancelled.
    */
   async getChatResponse(
     projectId: number,
-    messages: ChatMessage[] // Use our internal ChatMessage type here
+    messages: ChatMessage[], // Use our internal ChatMessage type here
+    options: Omit<LlmRequestOptions, 'project'> = {}
   ): Promise<string | null> {
+    const { task = 'chat', onToken, signal } = options;
     const settings = loadLlmSettings();
     const provider = getActiveProvider(settings);
     if (!provider) return null;
 
-    const config = createProviderConfig(settings);
-
     // Fetch project context for system prompt
     const project = await projectService.getProjectById(projectId);
     if (!project) {
       console.error(`Project ${projectId} not found for chat context.`);
       return null;
     }
+    const config = createProviderConfig(settings, provider, generationFor(settings, task, project), task);
     const parameters: EbookParameters = project.parameters ? JSON.parse(project.parameters) : {};
     const systemMessageContent = `You are a helpful assistant working on an ebook project called "${project.name}".
 Project Description: ${project.description || 'N/A'}
-Ebook Parameters: ${JSON.stringify(parameters)}
+Ebook Parameters: ${JSON.stringify({ ...parameters, generation: undefined })}
 ${parameters.narrativeHooks ? `Key Narrative Hooks/Themes: ${parameters.narrativeHooks}` : ''}
 Current Task: Respond helpfully to the user's message in the context of this ebook project.`;
 
@@ -201,7 +357,7 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
     ];
 
      try {
-        return await provider.getChatCompletion(formattedMessages, config);
+        return await requestCompletion(provider, formattedMessages, config, onToken, signal);
     } catch (error) {
         // Error should be logged within the provider method
         return null;
@@ -218,7 +374,7 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
     const provider = getActiveProvider(settings);
     if (!provider) return null;
 
-    const config = createProviderConfig(settings);
+    const config = createProviderConfig(settings, provider);
 
     try {
         return await provider.listModels(config);
@@ -247,7 +403,7 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
         }
     }
 
-    const config = createProviderConfig(settings);
+    const config = createProviderConfig(settings, provider);
 
     try {
         return await provider.testConnection(config);
@@ -260,8 +416,11 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
 
   // --- Response Handling (Provider Agnostic) ---
 
+  /**
+   * Parses a plan response and replaces the project's chapters with it in one transaction.
+   * @returns True if chapters were created, false if parsing or saving failed.
+   */
   async handleEbookPlanResponse(response: string, projectId: number): Promise<boolean> {
-    // (Keep existing implementation)
      try {
       // Parse the response and create chapters
       const chapters = this.parseEbookPlanResponse(response);
@@ -269,16 +428,15 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
         console.warn('No chapters found in LLM response');
         return false;
       }
-      // Create chapters in the database
-      for (let i = 0; i < chapters.length; i++) {
-        await chapterService.createChapter(
-          projectId,
-          chapters[i].title,
-          chapters[i].description,
-          chapters[i].content // content might be empty for plan response
-        );
-      }
-      return true;
+      // Replace the project's chapters atomically; existing chapters survive if this fails
+      return await chapterService.replaceChapters(
+        projectId,
+        chapters.map(chapter => ({
+          title: chapter.title ?? 'Untitled Chapter',
+          description: chapter.description ?? '',
+          content: chapter.content || undefined, // content is empty for plan responses
+        }))
+      );
     } catch (error) {
       console.error('Error handling ebook plan response:', error);
       return false;
@@ -327,21 +485,45 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
   async handleChapterContentResponse(response: string, chapterId: number): Promise<boolean> {
     // (Keep existing implementation)
      try {
-      await chapterService.updateChapter(chapterId, { content: response });
-      return true;
+      // Recorded as an LLM revision, so the previous draft can be restored
+      const updatedChapter = await chapterService.updateChapter(chapterId, { content: response }, 'llm');
+      return updatedChapter !== null;
     } catch (error) {
       console.error('Error handling chapter content response:', error);
       return false;
     }
   },
 
+  /**
+   * Applies the text a stopped generation produced so far.
+   * @param content - The partial text.
+   * @param chapterId - The chapter it was written for.
+   * @param action - 'keep' saves it as the chapter's content (an LLM revision), 'draft' stores it
+   * as a draft revision without changing the chapter, 'discard' drops it.
+   * @returns True if the text was handled, false if saving failed.
+   */
+  async handlePartialChapterContent(content: string, chapterId: number, action: PartialContentAction): Promise<boolean> {
+    if (action === 'discard' || !content.trim()) return true;
+    return action === 'keep'
+      ? this.handleChapterContentResponse(content, chapterId)
+      : chapterService.saveDraft(chapterId, content);
+  },
+
   // --- Complex Flows (using other service methods) ---
 
+  /**
+   * Writes the content of a chapter and every section after it, one after the other.
+   * @param projectId - The project to write.
+   * @param startChapterId - The first chapter to write.
+   * @param options - Cancellation, streaming and what to do with the text of a stopped chapter.
+   * @returns True if every chapter was written and saved; false if one failed or the sequence was stopped.
+   */
   async generateChapterSequenceContent(
     projectId: number,
-    startChapterId: number
-    // Removed provider/model args - use settings
+    startChapterId: number,
+    options: ChapterSequenceOptions = {}
   ): Promise<boolean> {
+    const { signal, onToken, partialContent = 'draft' } = options;
     // This method now uses the refactored processLLMPrompt internally
     try {
       const project = await projectService.getProjectById(projectId);
@@ -362,6 +544,7 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
       let success = true;
 
       for (let i = startChapterIndex; i < allChapters.length; i++) {
+        if (signal?.aborted) break;
         const currentChapter = allChapters[i];
         console.log(`Generating content for Chapter ${currentChapter.order + 1}: "${currentChapter.title}" (ID: ${currentChapter.id})...`);
 
@@ -380,9 +563,23 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
           contextContent
         );
 
-        // Use the refactored processLLMPrompt which reads settings
-        const contentResponse = await this.processLLMPrompt(contentPrompt);
-
+        // Streamed, so that the text written so far is at hand if the sequence is stopped
+        let received = '';
+        const contentResponse = await this.processLLMPrompt(contentPrompt, {
+          task: 'chapter',
+          project,
+          onToken: token => {
+            received += token;
+            onToken?.(currentChapter.id, token);
+          },
+          signal,
+        });
+
+        if (!contentResponse && signal?.aborted) {
+          console.log(`Chapter sequence stopped during chapter ${currentChapter.id}.`);
+          await this.handlePartialChapterContent(received, currentChapter.id, partialContent);
+          return false;
+        }
         if (contentResponse) {
           const saveSuccess = await this.handleChapterContentResponse(contentResponse, currentChapter.id);
           if (!saveSuccess) {
@@ -396,6 +593,10 @@ Current Task: Respond helpfully to the user's message in the context of this ebo
         }
       }
 
+      if (signal?.aborted) {
+        console.log("Chapter sequence generation stopped.");
+        return false;
+      }
       console.log("Chapter sequence generation finished.");
       return success;
     } catch (error) {
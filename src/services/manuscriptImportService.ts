@@ -0,0 +1,78 @@
+// src/services/manuscriptImportService.ts
+import { chapterService } from './chapterService';
+import { llmService } from './llmService';
+import type { Chapter, Project } from '../types/models';
+import { readManuscript } from '../importers/manuscriptReader';
+import { splitManuscript, type ChapterSplitOptions, type ManuscriptChapter } from '../importers/chapterSplitter';
+
+export interface ManuscriptImportOptions {
+  generateDescriptions: boolean; // Ask the LLM for each chapter's description
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal; // Stops the import; chapters created so far are kept
+}
+
+export interface ManuscriptImportResult {
+  chapters: Chapter[]; // The created chapters, in manuscript order
+  missingDescriptions: number; // Chapters the LLM wrote no description for
+  stopped: boolean; // The import was stopped through `signal`
+}
+
+// Drops labels and quotes models tend to put around a description
+const cleanDescription = (response: string): string =>
+  response.trim().replace(/^(\*\*)?description:?(\*\*)?:?\s*/i, '').replace(/^"(.*)"$/s, '$1').trim();
+
+export const manuscriptImportService = {
+  /**
+   * Reads a manuscript file and splits it into chapters for preview.
+   * @param fileName - The file name; its extension selects the format (Markdown, text, HTML or DOCX).
+   * @param data - The file contents.
+   * @param options - Where chapters start.
+   * @returns The detected chapters, in manuscript order.
+   * @throws Error if the file cannot be read or the custom pattern is invalid.
+   */
+  splitFile(fileName: string, data: Uint8Array, options: ChapterSplitOptions): ManuscriptChapter[] {
+    const markdown = readManuscript(fileName, data);
+    return splitManuscript(markdown, options, fileName.replace(/\.[^.]+$/, ''));
+  },
+
+  /**
+   * Appends the chapters to a project via `chapterService.createChapter`, optionally asking the
+   * LLM for each chapter's description first. Front and back matter go to the end of their zone.
+   * Stops at the first chapter that cannot be saved, or when `options.signal` is aborted (the
+   * chapter whose description was being written is then not created).
+   * @param project - The project to add the chapters to.
+   * @param chapters - The chapters to create, in order.
+   * @param options - Whether to generate descriptions, a progress callback and a cancellation signal.
+   * @returns The created chapters (fewer than requested if saving failed) and how many have no description.
+   */
+  async importChapters(
+    project: Project,
+    chapters: ManuscriptChapter[],
+    options: ManuscriptImportOptions
+  ): Promise<ManuscriptImportResult> {
+    const created: Chapter[] = [];
+    let missingDescriptions = 0;
+    for (const chapter of chapters) {
+      if (options.signal?.aborted) break;
+      let description = '';
+      if (options.generateDescriptions && chapter.content.trim()) {
+        const prompt = await llmService.generateChapterDescriptionPrompt(project, chapter.title, chapter.content);
+        const response = await llmService.processLLMPrompt(prompt, { task: 'rewrite', project, signal: options.signal });
+        if (options.signal?.aborted) break;
+        description = response ? cleanDescription(response) : '';
+        if (!description) {
+          console.warn(`No description generated for imported chapter "${chapter.title}".`);
+          missingDescriptions++;
+        }
+      }
+      const newChapter = await chapterService.createChapter(project.id, chapter.title, description, chapter.content, chapter.kind);
+      if (!newChapter) {
+        console.error(`Failed to create imported chapter "${chapter.title}". Stopping import.`);
+        break;
+      }
+      created.push(newChapter);
+      options.onProgress?.(created.length, chapters.length);
+    }
+    return { chapters: created, missingDescriptions, stopped: options.signal?.aborted ?? false };
+  },
+};
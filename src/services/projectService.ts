@@ -2,6 +2,10 @@
 import { dbService } from '../lib/database';
 import type { Project, EbookParameters, Chapter, EbookProjectExport } from '../types/models';
 import { chapterService } from './chapterService'; // Import chapterService to fetch chapters
+import { chatService } from './chatService';
+import { getUniqueProjectName } from './importService';
+import { PROJECT_EXPORT_FORMAT, PROJECT_EXPORT_VERSION, validateProjectExport } from '../lib/projectExportFormat';
+import { sortIntoZones } from '../lib/sectionKinds';
 
 // Helper to safely parse JSON parameters
 function parseParameters(paramsString: string | null | undefined): EbookParameters | undefined {
@@ -133,29 +137,42 @@ export const projectService = {
   },
 
   /**
-   * Deletes a project and its associated chapters (due to ON DELETE CASCADE).
+   * Deletes a project together with its chapters, their revisions and chat messages.
+   * sql.js does not enforce ON DELETE CASCADE by default, so the dependent rows are
+   * removed explicitly in the same transaction.
    * @param id - The ID of the project to delete.
    * @returns True if deletion was successful, false otherwise.
    */
   async deleteProject(id: number): Promise<boolean> {
     try {
-      await dbService.run('DELETE FROM projects WHERE id = ?', [id]);
-      // Verify deletion (optional)
-      // const project = await this.getProjectById(id);
-      // return project === null;
-      return true; // Assume success if no error thrown
+      await dbService.transaction(async (tx) => {
+        await tx.run('DELETE FROM messages WHERE projectId = ?', [id]);
+        await tx.run(
+          'DELETE FROM chapter_revisions WHERE chapterId IN (SELECT id FROM chapters WHERE projectId = ?)',
+          [id]
+        );
+        await tx.run('DELETE FROM chapters WHERE projectId = ?', [id]);
+        await tx.run('DELETE FROM book_metadata WHERE projectId = ?', [id]);
+        await tx.run('DELETE FROM projects WHERE id = ?', [id]);
+      });
+      return true;
     } catch (error) {
-      console.error(`Error deleting project with ID ${id}:`, error);
+      console.error(`Error deleting project with ID ${id} (rolled back):`, error);
       return false;
     }
   },
 
   /**
    * Exports a project's data (details, parameters, chapters) to a structured object.
+   * The object is tagged with PROJECT_EXPORT_FORMAT/VERSION and can be read back by importProjectFromJson.
    * @param projectId - The ID of the project to export.
+   * @param options - Set `includeMessages` to also export the project's chat messages.
    * @returns A structured object suitable for JSON export, or null if the project is not found.
    */
-  async exportProjectToJson(projectId: number): Promise<EbookProjectExport | null> {
+  async exportProjectToJson(
+    projectId: number,
+    options: { includeMessages?: boolean } = {}
+  ): Promise<EbookProjectExport | null> {
     try {
       const project = await this.getProjectById(projectId);
       if (!project) {
@@ -171,26 +188,104 @@ export const projectService = {
         description: chapter.description,
         content: chapter.content,
         order: chapter.order,
+        kind: chapter.kind,
       }));
 
       // Parse parameters from string to object for export
       const parameters = parseParameters(project.parameters);
 
       const exportData: EbookProjectExport = {
+        format: PROJECT_EXPORT_FORMAT,
+        version: PROJECT_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
         name: project.name,
-        description: project.description,
+        description: project.description ?? undefined,
         parameters: parameters,
         chapters: exportedChapters,
-        // Optionally add chat messages here if needed
-        // chatMessages: await chatService.getMessages(projectId) // Requires chatService import
       };
 
+      if (options.includeMessages) {
+        // Chapter links become positions in the chapters array
+        const chapterIndexById = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+        const messages = await chatService.getMessages(projectId);
+        exportData.chatMessages = messages.map(message => ({
+          role: message.role,
+          content: message.content,
+          createdAt: message.createdAt,
+          chapterIndex: message.chapterId != null ? chapterIndexById.get(message.chapterId) : undefined,
+        }));
+      }
+
       return exportData;
 
     } catch (error) {
       console.error(`Error exporting project with ID ${projectId} to JSON:`, error);
       return null;
     }
+  },
+
+  /**
+   * Creates a new project from an exported JSON object (see exportProjectToJson), in one transaction.
+   * The project gets a numbered suffix if its name is already taken.
+   * @param data - The parsed JSON.
+   * @param options - Set `includeMessages` to false to skip chat messages contained in the file.
+   * @returns The newly created project, or null if writing to the database failed.
+   * @throws Error if the data is not a valid project export or uses a newer format version.
+   */
+  async importProjectFromJson(
+    data: unknown,
+    options: { includeMessages?: boolean } = {}
+  ): Promise<Project | null> {
+    const projectExport = validateProjectExport(data);
+    const includeMessages = options.includeMessages ?? true;
+
+    try {
+      // ##@@TAG: Import Project JSON
+      return await dbService.transaction(async (tx) => {
+        const takenNames = new Set((await tx.get<{ name: string }>('SELECT name FROM projects')).map(row => row.name));
+        const name = getUniqueProjectName(projectExport.name, takenNames);
+        await tx.run(
+          'INSERT INTO projects (name, description, parameters) VALUES (?, ?, ?)',
+          [name, projectExport.description ?? null, projectExport.parameters ? JSON.stringify(projectExport.parameters) : null]
+        );
+        const project = await tx.getOne<Project>('SELECT * FROM projects WHERE id = last_insert_rowid()');
+        if (!project) {
+          throw new Error('Failed to create the imported project.');
+        }
+
+        // Insert in exported order (front matter first, back matter last), renumbered from 0;
+        // remember each chapter's new ID by array position
+        const chapterIds: number[] = [];
+        const sorted = sortIntoZones(
+          projectExport.chapters
+            .map((chapter, index) => ({ chapter, index, kind: chapter.kind }))
+            .sort((a, b) => a.chapter.order - b.chapter.order)
+        );
+        for (const [order, { chapter, index }] of sorted.entries()) {
+          await tx.run(
+            'INSERT INTO chapters (projectId, title, description, content, "order", kind) VALUES (?, ?, ?, ?, ?, ?)',
+            [project.id, chapter.title, chapter.description, chapter.content ?? null, order, chapter.kind]
+          );
+          const inserted = await tx.getOne<{ id: number }>('SELECT last_insert_rowid() AS id');
+          chapterIds[index] = inserted!.id;
+        }
+
+        if (includeMessages) {
+          for (const message of projectExport.chatMessages ?? []) {
+            const chapterId = message.chapterIndex !== undefined ? chapterIds[message.chapterIndex] : null;
+            await tx.run(
+              'INSERT INTO messages (projectId, chapterId, role, content, createdAt) VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))',
+              [project.id, chapterId, message.role, message.content, message.createdAt ?? null]
+            );
+          }
+        }
+
+        return project;
+      });
+    } catch (error) {
+      console.error('Error importing project from JSON:', error);
+      return null;
+    }
   }
 };
 
@@ -0,0 +1,64 @@
+// src/services/revisionService.ts
+import { dbService } from '../lib/database';
+import type { Chapter, ChapterRevision } from '../types/models';
+import { chapterService } from './chapterService';
+
+// Revisions are written by chapterService.updateChapter; this service reads and restores them.
+export const revisionService = {
+  /**
+   * Retrieves the revision history of a chapter, newest first.
+   * @param chapterId - The ID of the chapter.
+   * @returns An array of revisions (empty if the chapter was never edited).
+   */
+  async getRevisionsByChapterId(chapterId: number): Promise<ChapterRevision[]> {
+    try {
+      return await dbService.get<ChapterRevision>(
+        'SELECT * FROM chapter_revisions WHERE chapterId = ? ORDER BY id DESC',
+        [chapterId]
+      );
+    } catch (error) {
+      console.error(`Error getting revisions for chapter ID ${chapterId}:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * Retrieves a single revision by its ID.
+   * @param id - The ID of the revision.
+   * @returns The revision or null if not found.
+   */
+  async getRevisionById(id: number): Promise<ChapterRevision | null> {
+    try {
+      return await dbService.getOne<ChapterRevision>(
+        'SELECT * FROM chapter_revisions WHERE id = ?',
+        [id]
+      );
+    } catch (error) {
+      console.error(`Error getting revision with ID ${id}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Restores a chapter's title, description and content from a revision.
+   * The restore itself is recorded as a new 'restore' revision, so it can be undone the same way.
+   * @param revisionId - The ID of the revision to restore.
+   * @returns The updated chapter or null if the revision was not found or the update failed.
+   */
+  async restoreRevision(revisionId: number): Promise<Chapter | null> {
+    const revision = await this.getRevisionById(revisionId);
+    if (!revision) {
+      console.warn(`Revision with ID ${revisionId} not found for restore.`);
+      return null;
+    }
+    return chapterService.updateChapter(
+      revision.chapterId,
+      {
+        title: revision.title,
+        description: revision.description,
+        content: revision.content ?? '',
+      },
+      'restore'
+    );
+  },
+};
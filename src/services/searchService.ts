@@ -0,0 +1,134 @@
+// src/services/searchService.ts
+import { dbService } from '../lib/database';
+import type { SearchHit } from '../types/models';
+
+// Control characters mark matched terms in snippets, so the UI can highlight them without rendering HTML
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+const DEFAULT_LIMIT = 50;
+const SNIPPET_TOKENS = 16;
+// Title matches outrank description matches, which outrank body text
+const CHAPTER_COLUMN_WEIGHTS = '4,2,1';
+
+export interface SearchOptions {
+  projectId?: number; // Restrict the search to one project
+  limit?: number;
+}
+
+/**
+ * Turns free-form user input into an FTS MATCH expression. Every word (or "quoted phrase")
+ * becomes a quoted phrase, so operators and punctuation in the input can't cause syntax errors.
+ * A trailing `*` on a word is kept as a prefix search.
+ * @param input - The text typed by the user.
+ * @returns The MATCH expression, or null if the input contains no searchable terms.
+ */
+export function toMatchQuery(input: string): string | null {
+  const tokens = input.match(/"[^"]*"|\S+/g) ?? [];
+  const phrases = tokens
+    .map(token => {
+      const isPrefix = token.endsWith('*') && !token.startsWith('"');
+      const phrase = token.replace(/["*]/g, ' ').trim();
+      if (!phrase) return null;
+      return isPrefix ? `"${phrase}*"` : `"${phrase}"`;
+    })
+    .filter((phrase): phrase is string => phrase !== null);
+  return phrases.length > 0 ? phrases.join(' ') : null;
+}
+
+type ChapterHitRow = {
+  chapterId: number;
+  projectId: number;
+  projectName: string;
+  title: string;
+  snippet: string;
+  score: number;
+};
+
+type MessageHitRow = {
+  messageId: number;
+  chapterId: number | null;
+  projectId: number;
+  projectName: string;
+  role: string;
+  snippet: string;
+  score: number;
+  createdAt: string;
+};
+
+export const searchService = {
+  /**
+   * Searches chapter titles, descriptions and content as well as chat messages.
+   * Results from both sources are merged and ordered by relevance.
+   * @param query - The text typed by the user.
+   * @param options - Optional project filter and result limit.
+   * @returns The ranked hits (empty if nothing matched or the search failed).
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const match = toMatchQuery(query);
+    if (!match) {
+      return [];
+    }
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const projectFilter = options.projectId !== undefined ? ' AND p.id = ?' : '';
+    const projectParams = options.projectId !== undefined ? [options.projectId] : [];
+
+    try {
+      // ##@@TAG: Full-text Search
+      const chapterRows = await dbService.get<ChapterHitRow>(
+        `SELECT c.id AS chapterId, c.projectId AS projectId, p.name AS projectName, c.title AS title,
+                snippet(chapters_fts, ?, ?, '…', -1, ${SNIPPET_TOKENS}) AS snippet,
+                fts_rank(matchinfo(chapters_fts, 'pcnalx'), ?) AS score
+         FROM chapters_fts
+         JOIN chapters c ON c.id = chapters_fts.docid
+         JOIN projects p ON p.id = c.projectId
+         WHERE chapters_fts MATCH ?${projectFilter}
+         ORDER BY score DESC
+         LIMIT ?`,
+        [SNIPPET_MATCH_START, SNIPPET_MATCH_END, CHAPTER_COLUMN_WEIGHTS, match, ...projectParams, limit]
+      );
+
+      const messageRows = await dbService.get<MessageHitRow>(
+        `SELECT m.id AS messageId, m.chapterId AS chapterId, m.projectId AS projectId, p.name AS projectName,
+                m.role AS role, m.createdAt AS createdAt,
+                snippet(messages_fts, ?, ?, '…', -1, ${SNIPPET_TOKENS}) AS snippet,
+                fts_rank(matchinfo(messages_fts, 'pcnalx'), '1') AS score
+         FROM messages_fts
+         JOIN messages m ON m.id = messages_fts.docid
+         JOIN projects p ON p.id = m.projectId
+         WHERE messages_fts MATCH ?${projectFilter}
+         ORDER BY score DESC
+         LIMIT ?`,
+        [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, ...projectParams, limit]
+      );
+
+      const hits: SearchHit[] = [
+        ...chapterRows.map(row => ({
+          kind: 'chapter' as const,
+          projectId: row.projectId,
+          projectName: row.projectName,
+          chapterId: row.chapterId,
+          messageId: null,
+          title: row.title,
+          snippet: row.snippet,
+          score: row.score,
+        })),
+        ...messageRows.map(row => ({
+          kind: 'message' as const,
+          projectId: row.projectId,
+          projectName: row.projectName,
+          chapterId: row.chapterId,
+          messageId: row.messageId,
+          title: row.role,
+          snippet: row.snippet,
+          score: row.score,
+          createdAt: row.createdAt,
+        })),
+      ];
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    } catch (error) {
+      console.error(`Error searching for "${query}":`, error);
+      return [];
+    }
+  },
+};
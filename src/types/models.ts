@@ -14,10 +14,71 @@ export interface Chapter {
   description: string; // Short description generated by LLM or user
   content?: string; // Full chapter text generated by LLM
   order: number; // To maintain chapter sequence
+  kind: SectionKind; // Front matter, body chapter or back matter (see src/lib/sectionKinds.ts)
   createdAt: string;
   updatedAt: string;
 }
 
+// What a section of the book is. Front matter sorts before the chapters, back matter after them.
+export type SectionKind =
+  | 'dedication'
+  | 'foreword'
+  | 'preface'
+  | 'chapter'
+  | 'epilogue'
+  | 'acknowledgements'
+  | 'appendix'
+  | 'about-the-author';
+
+// What produced a chapter revision. 'original' is the state captured before history tracking started;
+// a 'draft' holds text that was never applied to the chapter (e.g. a stopped generation).
+export type RevisionSource = 'original' | 'manual' | 'llm' | 'chat' | 'restore' | 'draft';
+
+// What to do with the text of a generation that was stopped before it finished
+export type PartialContentAction = 'keep' | 'discard' | 'draft';
+
+// Snapshot of a chapter's text fields after a change
+export interface ChapterRevision {
+  id: number;
+  chapterId: number; // Foreign key to Chapter
+  title: string;
+  description: string;
+  content?: string;
+  source: RevisionSource;
+  createdAt: string;
+}
+
+// Full copy of a chapter with its dependent rows, used to re-insert it exactly (e.g. when undoing a delete)
+export interface ChapterSnapshot {
+  chapter: Chapter;
+  revisions: ChapterRevision[];
+  messages: ChatMessage[];
+}
+
+// One full-text search result; chapter hits jump to ChapterManager, message hits to ChatInterface
+export interface SearchHit {
+  kind: 'chapter' | 'message';
+  projectId: number;
+  projectName: string;
+  chapterId: number | null; // The matching chapter, or the chapter a message belongs to
+  messageId: number | null; // Only set for message hits
+  title: string; // Chapter title, or the message role for chat hits
+  snippet: string; // Excerpt with matches wrapped in SNIPPET_MATCH_START/END (see searchService)
+  score: number; // BM25 relevance, higher is better
+  createdAt?: string; // Message timestamp
+}
+
+// A project found in a .db file opened for merge-import
+export interface ImportableProject {
+  id: number; // ID inside the imported file
+  name: string;
+  description?: string;
+  chapterCount: number;
+  messageCount: number;
+  nameClash: boolean; // A project with this name already exists in the current database
+  suggestedName: string; // The name, made unique if it clashes
+}
+
 // Interface for parameters (stored as JSON in the project table)
 export interface EbookParameters {
   genre?: string;
@@ -29,9 +90,74 @@ export interface EbookParameters {
   customInstructions?: string;
   continueNarrative?: boolean; // NEW: Flag to include previous chapter context
   narrativeHooks?: string; // NEW: Recurring elements/jokes (e.g., newline-separated)
+  generation?: TaskGenerationParameters; // Project overrides of the generation parameters in the options
   // Add other relevant parameters as needed
 }
 
+// Kinds of LLM requests that have their own generation parameters
+export type GenerationTask = 'plan' | 'chapter' | 'chat' | 'rewrite';
+
+// Sampling settings sent with an LLM request. Unset values are left to the provider's defaults.
+export interface GenerationParameters {
+  temperature?: number; // 0-2
+  topP?: number; // 0-1
+  maxTokens?: number; // Upper limit for the length of the response
+  presencePenalty?: number; // -2 to 2
+  frequencyPenalty?: number; // -2 to 2
+  seed?: number; // Integer; makes sampling repeatable where the provider supports it
+  stop?: string[]; // Sequences that end the response
+}
+
+export type TaskGenerationParameters = Partial<Record<GenerationTask, GenerationParameters>>;
+
+// How the OpenAI-compatible provider finds the models to offer: from the server's models
+// endpoint, or from a list entered in the options (for servers without one)
+export type ModelListStrategy = 'endpoint' | 'manual';
+
+// Settings of the generic OpenAI-compatible provider (vLLM, llama.cpp server, LocalAI, ...)
+export interface OpenAiCompatibleOptions {
+  headers: Record<string, string>; // Extra headers sent with every request
+  chatCompletionsPath: string; // Relative to the base URL, or a full URL
+  modelsPath: string; // Relative to the base URL, or a full URL
+  modelList: ModelListStrategy;
+  models: string[]; // Offered models for the 'manual' strategy
+}
+
+// Prompt formats for completion-mode providers, which get one text prompt instead of chat messages
+export type ChatTemplateId = 'chatml' | 'llama3' | 'mistral' | 'alpaca';
+
+// Settings of the completion-mode providers (llama.cpp /completion, KoboldCpp)
+export interface CompletionModeOptions {
+  template: ChatTemplateId; // Must match what the model was trained on
+  grammar: string; // GBNF grammar constraining the output; empty for none
+  grammarTasks: GenerationTask[]; // Requests that use the grammar, e.g. only plans
+}
+
+// Book metadata used by the ebook exporters, stored per project in the book_metadata table
+export interface BookMetadata {
+  author?: string;
+  language: string; // BCP 47 language tag, e.g. "en" or "de-AT"
+  publisher?: string;
+  isbn?: string; // ISBN-10 or ISBN-13, stored without hyphens
+  coverImage?: Uint8Array;
+  coverMimeType?: string; // 'image/jpeg', 'image/png' or 'image/gif'
+}
+
+// Page layout of PDF exports; trim sizes and fonts are listed in src/exporters/pdfExporter.ts
+export interface PdfLayoutOptions {
+  trimSize: string; // Key of PDF_TRIM_SIZES, e.g. 'us-trade' (6 x 9 in)
+  marginTop: number; // Margins in millimetres; the inside margin is on the binding edge
+  marginBottom: number;
+  marginInside: number;
+  marginOutside: number;
+  font: 'serif' | 'sans-serif' | 'monospace';
+  fontSize: number; // Body text size in points
+  chapterStartOnRecto: boolean; // Start chapters on right-hand (odd) pages, leaving a blank page if needed
+  runningHeaders: boolean; // Book title on left-hand pages, chapter title on right-hand pages
+  pageNumbers: boolean;
+  tableOfContents: boolean;
+}
+
 // Interface for chat messages
 export interface ChatMessage {
   id: number;
@@ -42,12 +168,22 @@ export interface ChatMessage {
   createdAt: string; // Timestamp
 }
 
-// Interface for the JSON export structure
+// Chat message in a JSON export. Chapter links are stored as positions in `chapters`, since IDs don't survive an import.
+export interface ExportedChatMessage {
+  role: ChatMessage['role'];
+  content: string;
+  createdAt?: string;
+  chapterIndex?: number; // Index into EbookProjectExport.chapters, omitted for project-level messages
+}
+
+// Interface for the JSON export structure (see src/lib/projectExportFormat.ts for versioning and validation)
 export interface EbookProjectExport {
+  format?: string; // PROJECT_EXPORT_FORMAT; missing in exports made before the format was versioned
+  version?: number; // PROJECT_EXPORT_VERSION at export time; missing means version 1
+  exportedAt?: string;
   name: string;
   description?: string;
   parameters?: EbookParameters;
-  chapters: Omit<Chapter, 'projectId' | 'id' | 'createdAt' | 'updatedAt'>[]; // Export chapters without DB-specific fields
-  // Optionally include chat messages if needed in the export
-  // chatMessages?: Omit<ChatMessage, 'projectId' | 'id' | 'createdAt'>[];
+  chapters: Omit<Chapter, 'projectId' | 'id' | 'createdAt' | 'updatedAt'>[]; // Export chapters without DB-specific fields; version 1 files have no `kind`
+  chatMessages?: ExportedChatMessage[]; // Only present when messages were included in the export
 }
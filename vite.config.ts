@@ -7,6 +7,9 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@sqlite.org/sqlite-wasm'], // Keep excluding wasm pkg if it causes issues
   },
+  worker: {
+    format: 'es', // The database worker (src/lib/database.worker.ts) is started as a module worker
+  },
   server: {
     headers: {
       // Required for SharedArrayBuffer, which sql.js might use internally or in workers